@@ -1,17 +1,36 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import AddEvent from "./pages/AddEvent";
+import EventDetails from "./pages/EventDetails";
+import EventCalendar from "./pages/EventCalendar";
 import Admin from "./pages/Admin";
+import AdminVenues from "./pages/AdminVenues";
+import AdminSchedule from "./pages/AdminSchedule";
+import AdminPolicy from "./pages/AdminPolicy";
+import AdminApprovals from "./pages/AdminApprovals";
+import AdminAudit from "./pages/AdminAudit";
 import Layout from "./components/Layout";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Queries name what failed in their meta; mutations report their own errors where they are called
+const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      toast({
+        title: (query.meta?.errorTitle as string | undefined) ?? "Error loading data",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  }),
+});
 
 const AppRoutes = () => {
   const { isAuthenticated, loading } = useAuth();
@@ -33,7 +52,15 @@ const AppRoutes = () => {
       <Routes>
         <Route path="/" element={<Dashboard />} />
         <Route path="/add-event" element={<AddEvent />} />
+        <Route path="/events/:id" element={<EventDetails />} />
+        <Route path="/events/:id/edit" element={<AddEvent />} />
+        <Route path="/calendar" element={<EventCalendar />} />
         <Route path="/admin" element={<Admin />} />
+        <Route path="/admin/venues" element={<AdminVenues />} />
+        <Route path="/admin/schedule" element={<AdminSchedule />} />
+        <Route path="/admin/policy" element={<AdminPolicy />} />
+        <Route path="/admin/approvals" element={<AdminApprovals />} />
+        <Route path="/admin/audit" element={<AdminAudit />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </Layout>
@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, ArrowRightLeft, MapPin, Users, Zap } from "lucide-react";
+import { format } from "date-fns";
+import { VenueMatch } from "@/utils/venueSelection";
+import { ApprovalConflict } from "@/repositories/events";
+
+interface ApprovalConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventTitle: string;
+  venueName: string;
+  conflicts: ApprovalConflict[];
+  alternatives: VenueMatch[];
+  loadingAlternatives: boolean;
+  approving: boolean;
+  onApproveIn: (venueId: string) => void;
+  /** Offered only when the event may bump lower-priority bookings */
+  onProposeBump?: (conflict: ApprovalConflict) => void;
+}
+
+const ApprovalConflictDialog = ({
+  open,
+  onOpenChange,
+  eventTitle,
+  venueName,
+  conflicts,
+  alternatives,
+  loadingAlternatives,
+  approving,
+  onApproveIn,
+  onProposeBump,
+}: ApprovalConflictDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Venue conflict
+          </DialogTitle>
+          <DialogDescription>
+            "{eventTitle}" cannot be approved in {venueName} because the slot is already taken.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Clashing bookings</h4>
+          {conflicts.map((conflict, idx) => (
+            <div key={conflict.event_id ?? idx} className="flex justify-between items-center rounded border p-3 text-sm">
+              <div>
+                <p className="font-medium">{conflict.title}</p>
+                <p className="text-muted-foreground">
+                  {format(new Date(conflict.starts_at), "PPP p")} – {format(new Date(conflict.ends_at), "p")}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="capitalize">{conflict.kind}</Badge>
+                {onProposeBump && conflict.kind === 'event' && conflict.event_id && (
+                  <Button size="sm" variant="outline" onClick={() => onProposeBump(conflict)} disabled={approving}>
+                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                    Propose bump
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Approve in an alternative venue</h4>
+          {loadingAlternatives ? (
+            <p className="text-sm text-muted-foreground">Finding alternative venues...</p>
+          ) : alternatives.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other venue fits this event at the requested time.</p>
+          ) : (
+            alternatives.map((match) => (
+              <div key={match.venue.id} className="flex justify-between items-center rounded border p-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">{match.venue.name}</p>
+                    <p className="flex items-center gap-3 text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {match.venue.capacity}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Zap className="h-3 w-3" />
+                        {match.score}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => onApproveIn(match.venue.id)} disabled={approving}>
+                  Approve here
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApprovalConflictDialog;
@@ -0,0 +1,143 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { format, isSameDay, isSameMonth } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  CalendarItem,
+  OPEN_HOURS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  assignLanes,
+  getDayWindow,
+  getViewDays,
+  itemsOnDay,
+  positionInWindow,
+} from "@/utils/calendar";
+
+// Events listed in a month cell before the rest collapse into "+n more"
+const MONTH_CELL_LIMIT = 3;
+
+interface CalendarGridProps {
+  view: 'month' | 'week' | 'day';
+  date: Date;
+  items: CalendarItem[];
+  onSelectDay: (day: Date) => void;
+}
+
+const itemTitle = (item: CalendarItem) =>
+  `${item.title} · ${format(item.start, 'p')}–${format(item.end, 'p')} · ${item.venueNames} · ${STATUS_LABELS[item.status]}`;
+
+const CalendarGrid = ({ view, date, items, onSelectDay }: CalendarGridProps) => {
+  const days = getViewDays(view, date);
+  const today = new Date();
+
+  if (view === 'month') {
+    return (
+      <div className="grid grid-cols-7 border-l border-t text-sm">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="border-b border-r bg-muted/50 px-2 py-1 text-xs font-medium">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dayItems = itemsOnDay(items, day);
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn("min-h-28 border-b border-r p-1 space-y-1", !isSameMonth(day, date) && "bg-muted/30")}
+            >
+              <button
+                className={cn(
+                  "text-xs px-1 rounded hover:underline",
+                  !isSameMonth(day, date) && "text-muted-foreground",
+                  isSameDay(day, today) && "bg-primary text-primary-foreground"
+                )}
+                onClick={() => onSelectDay(day)}
+              >
+                {format(day, 'd')}
+              </button>
+              {dayItems.slice(0, MONTH_CELL_LIMIT).map((item) => (
+                <Link
+                  key={item.occurrenceId}
+                  to={`/events/${item.eventId}`}
+                  title={itemTitle(item)}
+                  className={cn("block truncate rounded border px-1 text-xs", STATUS_STYLES[item.status])}
+                >
+                  {format(item.start, 'HH:mm')} {item.title}
+                </Link>
+              ))}
+              {dayItems.length > MONTH_CELL_LIMIT && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => onSelectDay(day)}
+                >
+                  +{dayItems.length - MONTH_CELL_LIMIT} more
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex border-t text-sm">
+      <div className="w-14 shrink-0">
+        <div className="h-8 border-b" />
+        {OPEN_HOURS.map((hour) => (
+          <div key={hour} className="h-12 pr-2 text-right text-xs text-muted-foreground">
+            {String(hour).padStart(2, '0')}:00
+          </div>
+        ))}
+      </div>
+      {days.map((day) => {
+        const dayWindow = getDayWindow(day);
+        // Events outside open hours are clipped to the grid, so a late rehearsal still shows
+        const lanes = assignLanes(itemsOnDay(items, day).filter(item => positionInWindow(item, dayWindow).size > 0));
+        return (
+          <div key={day.toISOString()} className="flex-1 min-w-0 border-l">
+            <button
+              className={cn(
+                "h-8 w-full border-b text-xs font-medium hover:underline",
+                isSameDay(day, today) && "text-primary"
+              )}
+              onClick={() => onSelectDay(day)}
+            >
+              {format(day, view === 'day' ? 'EEEE, PPP' : 'EEE d')}
+            </button>
+            <div className="relative" style={{ height: `${OPEN_HOURS.length * 3}rem` }}>
+              {OPEN_HOURS.map((hour) => (
+                <div key={hour} className="h-12 border-b border-dashed" />
+              ))}
+              {lanes.map(({ item, lane, lanes: laneCount }) => {
+                const { offset, size } = positionInWindow(item, dayWindow);
+                return (
+                  <Link
+                    key={item.occurrenceId}
+                    to={`/events/${item.eventId}`}
+                    title={itemTitle(item)}
+                    className={cn("absolute overflow-hidden rounded border px-1 text-xs", STATUS_STYLES[item.status])}
+                    style={{
+                      top: `${offset}%`,
+                      height: `${size}%`,
+                      left: `${(lane / laneCount) * 100}%`,
+                      width: `${100 / laneCount}%`,
+                    }}
+                  >
+                    <div className="truncate font-medium">{item.title}</div>
+                    <div className="truncate">{format(item.start, 'HH:mm')} · {item.venueNames}</div>
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CalendarGrid;
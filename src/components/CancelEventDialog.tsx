@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCancelEvent } from "@/hooks/useEvents";
+import { z } from "zod";
+
+interface CancelEventDialogProps {
+  event: { id: string; title: string; status: string } | null;
+  onOpenChange: (open: boolean) => void;
+  /** Event lists refresh by themselves; pages showing a single event reload it here */
+  onCancelled?: () => void;
+}
+
+const reasonSchema = z.string().trim().min(3, "Please give a reason for cancelling");
+
+/** Cancel an event with a reason, releasing any venue slots it holds */
+const CancelEventDialog = ({ event, onOpenChange, onCancelled }: CancelEventDialogProps) => {
+  const [reason, setReason] = useState("");
+  const cancelEvent = useCancelEvent();
+  const { toast } = useToast();
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setReason("");
+    onOpenChange(open);
+  };
+
+  const handleCancel = async () => {
+    if (!event) return;
+
+    const validation = reasonSchema.safeParse(reason);
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await cancelEvent.mutateAsync({ eventId: event.id, reason: validation.data });
+
+      toast({
+        title: "Event cancelled",
+        description: event.status === 'approved'
+          ? "The event has been cancelled and its venue released."
+          : "The event has been cancelled.",
+      });
+      handleOpenChange(false);
+      onCancelled?.();
+    } catch (error) {
+      toast({
+        title: "Error cancelling event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelling = cancelEvent.isPending;
+
+  return (
+    <Dialog open={!!event} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel "{event?.title}"?</DialogTitle>
+          <DialogDescription>
+            Cancelled events cannot be reopened. Any venue slots held for the event become available to others
+            straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancellationReason">Reason</Label>
+          <Textarea
+            id="cancellationReason"
+            placeholder="Why is the event being cancelled?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={cancelling}>
+            Keep Event
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={cancelling}>
+            {cancelling ? "Cancelling..." : "Cancel Event"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelEventDialog;
@@ -0,0 +1,76 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useDiscardDraft } from "@/hooks/useEvents";
+
+interface DiscardDraftDialogProps {
+  event: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onDiscarded?: () => void;
+}
+
+/** Delete a draft the organiser no longer wants; it was never submitted, so nothing else refers to it */
+const DiscardDraftDialog = ({ event, onOpenChange, onDiscarded }: DiscardDraftDialogProps) => {
+  const discardDraft = useDiscardDraft();
+  const { toast } = useToast();
+
+  const handleDiscard = async () => {
+    if (!event) return;
+
+    try {
+      await discardDraft.mutateAsync(event.id);
+
+      toast({
+        title: "Draft discarded",
+        description: `"${event.title}" has been deleted.`,
+      });
+      onOpenChange(false);
+      onDiscarded?.();
+    } catch (error) {
+      toast({
+        title: "Error discarding draft",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const discarding = discardDraft.isPending;
+
+  return (
+    <AlertDialog open={!!event} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Discard "{event?.title}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The draft will be deleted. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={discarding}>Keep Draft</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: "destructive" })}
+            disabled={discarding}
+            onClick={(e) => {
+              e.preventDefault();
+              handleDiscard();
+            }}
+          >
+            {discarding ? "Discarding..." : "Discard Draft"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DiscardDraftDialog;
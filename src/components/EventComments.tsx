@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquare, Send } from "lucide-react";
+import { format } from "date-fns";
+import { z } from "zod";
+import { Tables } from "@/integrations/supabase/types";
+
+type Comment = Tables<'event_comments'>;
+
+interface EventCommentsProps {
+  eventId: string;
+  organiserId: string;
+  /** Bumped by the parent to reload after it posts a review or resubmission */
+  refreshKey?: number;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  changes_requested: "Changes requested",
+  rejected: "Rejected",
+  resubmitted: "Resubmitted",
+};
+
+const commentSchema = z.string().trim().min(1, "Please write a comment").max(2000, "Comments are limited to 2000 characters");
+
+/** Conversation between an event's organiser and its reviewers */
+const EventComments = ({ eventId, organiserId, refreshKey }: EventCommentsProps) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState("");
+  const [posting, setPosting] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchComments = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('event_comments')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      toast({
+        title: "Error fetching comments",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setComments(data || []);
+
+    // Organisers cannot see reviewers' profiles, so missing names fall back to a role below
+    const authorIds = Array.from(new Set((data || []).flatMap(comment => comment.author_id ? [comment.author_id] : [])));
+    if (authorIds.length > 0) {
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .in('user_id', authorIds);
+      setNames(Object.fromEntries((profilesData || []).map(profile => [profile.user_id, profile.name])));
+    }
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments, refreshKey]);
+
+  const authorName = (comment: Comment) => {
+    if (comment.author_id === user?.id) return "You";
+    if (comment.author_id && names[comment.author_id]) return names[comment.author_id];
+    return comment.author_id === organiserId ? "Organiser" : "Reviewer";
+  };
+
+  const postComment = async () => {
+    const validation = commentSchema.safeParse(draft);
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPosting(true);
+    try {
+      const { error } = await supabase
+        .from('event_comments')
+        .insert([{ event_id: eventId, author_id: user?.id, body: validation.data }]);
+
+      if (error) {
+        toast({
+          title: "Error posting comment",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setDraft("");
+        await fetchComments();
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Comments
+        </CardTitle>
+        <CardDescription>Visible to the organiser and approvers only</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet</p>
+        ) : (
+          <div className="space-y-3">
+            {comments.map((comment) => (
+              <div key={comment.id} className="rounded-md border p-3 text-sm">
+                <div className="mb-1 flex items-center justify-between gap-2">
+                  <span className="font-medium">{authorName(comment)}</span>
+                  <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {KIND_LABELS[comment.kind] && (
+                      <Badge variant={comment.kind === 'rejected' ? 'destructive' : 'secondary'}>
+                        {KIND_LABELS[comment.kind]}
+                      </Badge>
+                    )}
+                    {format(new Date(comment.created_at), 'PPP p')}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap">{comment.body}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Write a comment..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={postComment} disabled={posting || !draft.trim()}>
+              <Send className="h-4 w-4 mr-2" />
+              {posting ? "Posting..." : "Post Comment"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventComments;
@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Search, X } from "lucide-react";
+import { EVENT_CATEGORIES } from "@/utils/eventOptions";
+import {
+  EVENT_SORTS,
+  EVENT_STATUSES,
+  EventFilters,
+  clearFilters,
+  hasActiveFilters,
+  withFilter,
+} from "@/utils/eventQuery";
+
+// Select value for "no filter"
+const ALL = "all";
+
+// Typing settles for this long before the search is sent
+const SEARCH_DELAY_MS = 300;
+
+interface EventFilterBarProps {
+  filters: EventFilters;
+  venues: { id: string; name: string }[];
+  organisers: { user_id: string; name: string }[];
+  /** Lists split by status elsewhere, such as tabs, leave this off */
+  showStatus?: boolean;
+  /** Lists of a single organiser's events leave this off */
+  showOrganiser?: boolean;
+}
+
+const EventFilterBar = ({
+  filters,
+  venues,
+  organisers,
+  showStatus = true,
+  showOrganiser = true,
+}: EventFilterBarProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState(filters.search);
+
+  // Follow the URL when it changes underneath, e.g. on back navigation or "Clear"
+  useEffect(() => {
+    setSearch(filters.search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    if (search === filters.search) return;
+    const timeout = setTimeout(() => setSearchParams(withFilter(searchParams, 'q', search.trim() || null)), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters.search, searchParams, setSearchParams]);
+
+  const setFilter = (key: string, value: string | null) =>
+    setSearchParams(withFilter(searchParams, key, value === ALL ? null : value));
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="relative min-w-64 flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search titles and topics"
+              className="pl-9"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Sort by</Label>
+            <div className="flex gap-1">
+              <Select value={filters.sort} onValueChange={(value) => setFilter('sort', value)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EVENT_SORTS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                variant="outline"
+                aria-label={filters.ascending ? "Sort descending" : "Sort ascending"}
+                onClick={() => setFilter('order', filters.ascending ? 'desc' : 'asc')}
+              >
+                {filters.ascending ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+
+          {hasActiveFilters(searchParams) && (
+            <Button variant="ghost" onClick={() => setSearchParams(clearFilters(searchParams))}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+          {showStatus && (
+            <div className="space-y-1">
+              <Label className="text-xs">Status</Label>
+              <Select value={filters.status ?? ALL} onValueChange={(value) => setFilter('status', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any status</SelectItem>
+                  {EVENT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status} className="capitalize">
+                      {status.replace('_', ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={filters.type ?? ALL} onValueChange={(value) => setFilter('type', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any type</SelectItem>
+                <SelectItem value="technical">Technical</SelectItem>
+                <SelectItem value="non-technical">Non-technical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Category</Label>
+            <Select value={filters.category ?? ALL} onValueChange={(value) => setFilter('category', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any category</SelectItem>
+                {EVENT_CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Venue</Label>
+            <Select value={filters.venueId ?? ALL} onValueChange={(value) => setFilter('venue', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any venue</SelectItem>
+                {venues.map((venue) => (
+                  <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {showOrganiser && (
+            <div className="space-y-1">
+              <Label className="text-xs">Organiser</Label>
+              <Select value={filters.organiserId ?? ALL} onValueChange={(value) => setFilter('organiser', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  {organisers.map((organiser) => (
+                    <SelectItem key={organiser.user_id} value={organiser.user_id}>{organiser.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="filterFrom" className="text-xs">From</Label>
+            <Input
+              id="filterFrom"
+              type="date"
+              value={filters.from ?? ""}
+              onChange={(e) => setFilter('from', e.target.value || null)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="filterTo" className="text-xs">To</Label>
+            <Input
+              id="filterTo"
+              type="date"
+              value={filters.to ?? ""}
+              onChange={(e) => setFilter('to', e.target.value || null)}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EventFilterBar;
@@ -0,0 +1,53 @@
+import { MouseEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+import { EventCursor, withCursor } from "@/utils/eventQuery";
+
+interface EventPaginationProps {
+  previous: EventCursor | null;
+  next: EventCursor | null;
+}
+
+/**
+ * Previous and next links for a cursor-paginated event list; the cursor lives in the URL
+ */
+const EventPagination = ({ previous, next }: EventPaginationProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  if (!previous && !next) return null;
+
+  const go = (cursor: EventCursor | null) => (e: MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    if (!cursor) return;
+    setSearchParams(withCursor(searchParams, cursor));
+    window.scrollTo({ top: 0 });
+  };
+
+  const href = (cursor: EventCursor | null) => cursor ? `?${withCursor(searchParams, cursor)}` : undefined;
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={href(previous)}
+            onClick={go(previous)}
+            aria-disabled={!previous}
+            className={cn(!previous && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href={href(next)}
+            onClick={go(next)}
+            aria-disabled={!next}
+            className={cn(!next && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default EventPagination;
@@ -1,16 +1,18 @@
 import { ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeSync } from "@/hooks/useRealtime";
 import { useNavigate, Link } from "react-router-dom";
-import { LogOut, Calendar, Plus, Settings } from "lucide-react";
+import { LogOut, Calendar, CalendarDays, Plus, Settings, Building2 } from "lucide-react";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
 const Layout = ({ children }: LayoutProps) => {
-  const { profile, signOut, isAdmin } = useAuth();
+  const { profile, signOut, capabilities } = useAuth();
   const navigate = useNavigate();
+  useRealtimeSync();
 
   const handleSignOut = async () => {
     await signOut();
@@ -33,6 +35,13 @@ const Layout = ({ children }: LayoutProps) => {
               </Button>
             </Link>
             
+            <Link to="/calendar">
+              <Button variant="ghost" size="sm">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Calendar
+              </Button>
+            </Link>
+
             <Link to="/add-event">
               <Button variant="ghost" size="sm">
                 <Plus className="h-4 w-4 mr-2" />
@@ -40,7 +49,7 @@ const Layout = ({ children }: LayoutProps) => {
               </Button>
             </Link>
             
-            {isAdmin && (
+            {capabilities.canApproveEvents && (
               <Link to="/admin">
                 <Button variant="ghost" size="sm">
                   <Settings className="h-4 w-4 mr-2" />
@@ -48,6 +57,15 @@ const Layout = ({ children }: LayoutProps) => {
                 </Button>
               </Link>
             )}
+
+            {capabilities.canManageVenues && (
+              <Link to="/admin/venues">
+                <Button variant="ghost" size="sm">
+                  <Building2 className="h-4 w-4 mr-2" />
+                  Venues
+                </Button>
+              </Link>
+            )}
             
             <div className="text-sm text-muted-foreground">
               Welcome, {profile?.name}
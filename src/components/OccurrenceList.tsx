@@ -0,0 +1,70 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { format } from "date-fns";
+import { Check, X } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Occurrence = Pick<Tables<'event_occurrences'>, 'id' | 'starts_at' | 'ends_at' | 'status'>;
+
+interface OccurrenceListProps {
+  occurrences: Occurrence[];
+  busy: boolean;
+  onApprove?: (occurrenceId: string) => void;
+  onCancel?: (occurrenceId: string) => void;
+}
+
+const formatWindow = (occurrence: Occurrence) => {
+  const start = new Date(occurrence.starts_at);
+  const end = new Date(occurrence.ends_at);
+  return start.toDateString() === end.toDateString()
+    ? `${format(start, 'EEE d MMM, h:mm a')} – ${format(end, 'h:mm a')}`
+    : `${format(start, 'EEE d MMM, h:mm a')} – ${format(end, 'EEE d MMM, h:mm a')}`;
+};
+
+/** Occurrences of a recurring or multi-day event, each approvable or cancellable on its own */
+const OccurrenceList = ({ occurrences, busy, onApprove, onCancel }: OccurrenceListProps) => {
+  const sorted = [...occurrences].sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+
+  return (
+    <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2">
+      {sorted.map((occurrence) => (
+        <div key={occurrence.id} className="flex items-center justify-between gap-2 text-sm">
+          <span className={occurrence.status === 'cancelled' ? "text-muted-foreground line-through" : undefined}>
+            {formatWindow(occurrence)}
+          </span>
+          <div className="flex items-center gap-1">
+            <Badge variant={occurrence.status === 'approved' ? 'default' : 'secondary'}>
+              {occurrence.status}
+            </Badge>
+            {onApprove && occurrence.status === 'pending' && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                title="Approve this occurrence"
+                onClick={() => onApprove(occurrence.id)}
+                disabled={busy}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+            )}
+            {onCancel && occurrence.status !== 'cancelled' && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-destructive"
+                title="Cancel this occurrence"
+                onClick={() => onCancel(occurrence.id)}
+                disabled={busy}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OccurrenceList;
@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { respondToPreemption } from "@/repositories/events";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRightLeft, Check, X } from "lucide-react";
+
+interface PreemptionEvent {
+  id: string;
+  title: string;
+  user_id: string;
+  event_date: string;
+  time_slot: string | null;
+  priority: string | null;
+}
+
+interface Preemption {
+  id: string;
+  status: string;
+  note: string | null;
+  response_note: string | null;
+  proposed_time_slot: string;
+  created_at: string;
+  responded_at: string | null;
+  requesting: PreemptionEvent;
+  displaced: PreemptionEvent;
+  venue: { name: string };
+  proposed_venue: { name: string };
+}
+
+interface PreemptionRequestsProps {
+  userId: string;
+  /** Called after an accepted bump moves events around */
+  onResolved?: () => void;
+}
+
+const PreemptionRequests = ({ userId, onResolved }: PreemptionRequestsProps) => {
+  const [preemptions, setPreemptions] = useState<Preemption[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPreemptions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('event_preemptions')
+      .select(`
+        id,
+        status,
+        note,
+        response_note,
+        proposed_time_slot,
+        created_at,
+        responded_at,
+        requesting:events!event_preemptions_requesting_event_id_fkey (id, title, user_id, event_date, time_slot, priority),
+        displaced:events!event_preemptions_displaced_event_id_fkey (id, title, user_id, event_date, time_slot, priority),
+        venue:venues!event_preemptions_venue_id_fkey (name),
+        proposed_venue:venues!event_preemptions_proposed_venue_id_fkey (name)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error:', error);
+      return;
+    }
+
+    // Approvers can see every request; only show the ones touching this user's events
+    setPreemptions((data || []).filter(preemption =>
+      preemption.requesting.user_id === userId || preemption.displaced.user_id === userId
+    ));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchPreemptions();
+  }, [fetchPreemptions]);
+
+  const respond = async (preemption: Preemption, accept: boolean) => {
+    setRespondingId(preemption.id);
+
+    try {
+      const result = await respondToPreemption({ preemptionId: preemption.id, accept });
+      if (accept && !result.accepted) {
+        toast({
+          title: "Could not move event",
+          description: result.reason,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: accept ? "Event moved" : "Request declined",
+          description: accept
+            ? `"${preemption.displaced.title}" now takes place in ${preemption.proposed_venue.name} at ${preemption.proposed_time_slot.slice(0, 5)}.`
+            : `"${preemption.displaced.title}" keeps its booking.`,
+        });
+        if (accept) onResolved?.();
+      }
+
+      await fetchPreemptions();
+    } catch (error) {
+      toast({
+        title: "Error responding to request",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted':
+        return 'default';
+      case 'declined':
+        return 'destructive';
+      default:
+        return 'secondary';
+    }
+  };
+
+  if (preemptions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Venue change requests
+        </CardTitle>
+        <CardDescription>High-priority events asking to take over a booked slot</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {preemptions.map((preemption) => {
+          const isDisplaced = preemption.displaced.user_id === userId;
+
+          return (
+            <div key={preemption.id} className="flex justify-between items-start gap-4 rounded border p-3 text-sm">
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {isDisplaced
+                    ? `"${preemption.requesting.title}" needs ${preemption.venue.name} during "${preemption.displaced.title}"`
+                    : `"${preemption.requesting.title}" asked "${preemption.displaced.title}" to move`}
+                </p>
+                <p className="text-muted-foreground">
+                  {new Date(preemption.displaced.event_date).toLocaleDateString()} · {preemption.venue.name}{" "}
+                  {preemption.displaced.time_slot?.slice(0, 5) ?? '09:00'} → {preemption.proposed_venue.name}{" "}
+                  {preemption.proposed_time_slot.slice(0, 5)}
+                </p>
+                {preemption.note && <p className="text-muted-foreground">{preemption.note}</p>}
+                {preemption.response_note && (
+                  <p className="text-muted-foreground">Response: {preemption.response_note}</p>
+                )}
+              </div>
+
+              {isDisplaced && preemption.status === 'proposed' ? (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => respond(preemption, true)}
+                    disabled={respondingId === preemption.id}
+                  >
+                    <Check className="h-4 w-4 mr-2" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => respond(preemption, false)}
+                    disabled={respondingId === preemption.id}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Decline
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant={getStatusColor(preemption.status)}>{preemption.status}</Badge>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PreemptionRequests;
@@ -0,0 +1,174 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { format } from "date-fns";
+import {
+  MAX_OCCURRENCES,
+  RecurrenceInput,
+  RecurrenceFrequency,
+  exceedsOccurrenceLimit,
+  expandOccurrenceDates,
+  ruleFromInput,
+} from "@/utils/recurrence";
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceInput;
+  onChange: (value: RecurrenceInput) => void;
+  spanDays: number;
+  onSpanDaysChange: (spanDays: number) => void;
+  // First day of the event, used for the occurrence preview
+  startDate: Date | null;
+}
+
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+const PREVIEW_LENGTH = 5;
+
+/** Multi-day span and repeat settings for the event wizard, with a preview of the dates */
+const RecurrenceFields = ({ value, onChange, spanDays, onSpanDaysChange, startDate }: RecurrenceFieldsProps) => {
+  const rule = ruleFromInput(value);
+  const occurrences = startDate ? expandOccurrenceDates(format(startDate, 'yyyy-MM-dd'), rule) : [];
+  const tooMany = !!startDate && exceedsOccurrenceLimit(format(startDate, 'yyyy-MM-dd'), rule);
+
+  const toggleDay = (day: number, pressed: boolean) => {
+    onChange({
+      ...value,
+      byDay: pressed ? [...value.byDay, day] : value.byDay.filter(d => d !== day),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="spanDays">Runs for (days)</Label>
+          <Input
+            id="spanDays"
+            type="number"
+            min={1}
+            max={14}
+            value={spanDays}
+            onChange={(e) => onSpanDaysChange(Math.min(14, Math.max(1, parseInt(e.target.value) || 1)))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Repeats</Label>
+          <Select
+            value={value.freq}
+            onValueChange={(freq) => onChange({ ...value, freq: freq as RecurrenceFrequency | 'NONE' })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="NONE">Does not repeat</SelectItem>
+              <SelectItem value="DAILY">Daily</SelectItem>
+              <SelectItem value="WEEKLY">Weekly</SelectItem>
+              <SelectItem value="MONTHLY">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {value.freq !== 'NONE' && (
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="repeatInterval">Every</Label>
+            <Input
+              id="repeatInterval"
+              type="number"
+              min={1}
+              className="w-20"
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: parseInt(e.target.value) || 1 })}
+            />
+            <span className="text-sm text-muted-foreground">
+              {value.freq === 'DAILY' ? "day(s)" : value.freq === 'WEEKLY' ? "week(s)" : "month(s)"}
+            </span>
+          </div>
+
+          {value.freq === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map(({ day, label }) => (
+                <Toggle
+                  key={day}
+                  size="sm"
+                  variant="outline"
+                  pressed={value.byDay.includes(day)}
+                  onPressedChange={(pressed) => toggleDay(day, pressed)}
+                >
+                  {label}
+                </Toggle>
+              ))}
+            </div>
+          )}
+
+          <RadioGroup
+            value={value.ends}
+            onValueChange={(ends) => onChange({ ...value, ends: ends as RecurrenceInput['ends'] })}
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="count" id="endsCount" />
+              <Label htmlFor="endsCount">Ends after</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_OCCURRENCES}
+                className="w-20"
+                aria-label="Number of occurrences"
+                value={value.count}
+                disabled={value.ends !== 'count'}
+                onChange={(e) => onChange({ ...value, count: parseInt(e.target.value) || 1 })}
+              />
+              <span className="text-sm text-muted-foreground">occurrences</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="until" id="endsUntil" />
+              <Label htmlFor="endsUntil">Ends on</Label>
+              <Input
+                type="date"
+                className="w-44"
+                aria-label="Last date"
+                value={value.until}
+                disabled={value.ends !== 'until'}
+                onChange={(e) => onChange({ ...value, until: e.target.value })}
+              />
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+
+      {(rule || spanDays > 1) && occurrences.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          <p>
+            {occurrences.length} occurrence{occurrences.length === 1 ? "" : "s"}
+            {spanDays > 1 && `, each running ${spanDays} days`}
+            {tooMany && " or more"}:
+          </p>
+          <p>
+            {occurrences.slice(0, PREVIEW_LENGTH).map(date => format(new Date(`${date}T00:00`), 'EEE d MMM')).join(', ')}
+            {occurrences.length > PREVIEW_LENGTH && ", …"}
+          </p>
+          {tooMany && (
+            <p className="text-destructive">
+              Series can have at most {MAX_OCCURRENCES} occurrences. End this one sooner.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
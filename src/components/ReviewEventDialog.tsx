@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useReviewEvent } from "@/hooks/useEvents";
+import { z } from "zod";
+
+export type ReviewDecision = 'rejected' | 'changes_requested';
+
+interface ReviewEventDialogProps {
+  event: { id: string; title: string } | null;
+  decision: ReviewDecision;
+  onOpenChange: (open: boolean) => void;
+  onReviewed?: () => void;
+}
+
+const commentSchema = z.string().trim().min(3, "Please tell the organiser why");
+
+const COPY: Record<ReviewDecision, { title: string; description: string; action: string; done: string }> = {
+  rejected: {
+    title: "Reject",
+    description: "The organiser sees your comment on their dashboard. Rejected events cannot be resubmitted.",
+    action: "Reject Event",
+    done: "The event has been rejected and the organiser notified.",
+  },
+  changes_requested: {
+    title: "Request changes to",
+    description: "The organiser can edit the event and resubmit it once they have addressed your comment.",
+    action: "Request Changes",
+    done: "The event has been sent back to its organiser.",
+  },
+};
+
+/** Reject an event or send it back for changes, with a comment the organiser will see */
+const ReviewEventDialog = ({ event, decision, onOpenChange, onReviewed }: ReviewEventDialogProps) => {
+  const [comment, setComment] = useState("");
+  const reviewEvent = useReviewEvent();
+  const { toast } = useToast();
+  const copy = COPY[decision];
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setComment("");
+    onOpenChange(open);
+  };
+
+  const handleReview = async () => {
+    if (!event) return;
+
+    const validation = commentSchema.safeParse(comment);
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await reviewEvent.mutateAsync({ eventId: event.id, decision, comment: validation.data });
+
+      toast({
+        title: decision === 'rejected' ? "Event rejected" : "Changes requested",
+        description: copy.done,
+      });
+      handleOpenChange(false);
+      onReviewed?.();
+    } catch (error) {
+      toast({
+        title: "Error reviewing event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saving = reviewEvent.isPending;
+
+  return (
+    <Dialog open={!!event} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy.title} "{event?.title}"</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="reviewComment">Comment for the organiser</Label>
+          <Textarea
+            id="reviewComment"
+            placeholder={decision === 'rejected' ? "Why is the event being rejected?" : "What needs to change?"}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+            Back
+          </Button>
+          <Button
+            variant={decision === 'rejected' ? "destructive" : "default"}
+            onClick={handleReview}
+            disabled={saving}
+          >
+            {saving ? "Saving..." : copy.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewEventDialog;
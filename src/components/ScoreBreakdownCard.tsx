@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { ChevronDown, Check, X } from "lucide-react";
+import { VenueMatch } from "@/utils/venueSelection";
+
+interface ScoreBreakdownCardProps {
+  match: Pick<VenueMatch, 'score' | 'breakdown'>;
+}
+
+/** Expandable per-criterion explanation of a venue's match score */
+const ScoreBreakdownCard = ({ match }: ScoreBreakdownCardProps) => {
+  const [open, setOpen] = useState(false);
+  const { criteria, facilities, policyVersion } = match.breakdown;
+  const maxScore = criteria.reduce((total, criterion) => total + criterion.maxPoints, 0);
+
+  return (
+    // Expanding the explanation should not select the venue card it sits in
+    <Collapsible open={open} onOpenChange={setOpen} onClick={(e) => e.stopPropagation()}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          Why this score?
+          <ChevronDown className={cn("ml-1 h-3 w-3 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-3 rounded-md border bg-background p-3">
+        {criteria.map((criterion) => (
+          <div key={criterion.key} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="flex items-center gap-1 font-medium">
+                {criterion.passed
+                  ? <Check className="h-3 w-3 text-green-600" />
+                  : <X className="h-3 w-3 text-destructive" />}
+                {criterion.label}
+              </span>
+              <span className="text-muted-foreground">
+                {criterion.maxPoints > 0 ? `${Math.round(criterion.points)}/${criterion.maxPoints}` : "required"}
+              </span>
+            </div>
+            {criterion.maxPoints > 0 && (
+              <Progress value={(criterion.points / criterion.maxPoints) * 100} className="h-1.5" />
+            )}
+            <p className="text-xs text-muted-foreground">{criterion.detail}</p>
+          </div>
+        ))}
+
+        {facilities.length > 0 && (
+          <div className="flex flex-wrap gap-1 border-t pt-2">
+            {facilities.map((check) => (
+              <span
+                key={check.facilityId}
+                className={cn(
+                  "px-2 py-1 text-xs rounded",
+                  !check.matched
+                    ? "bg-red-100 text-red-700"
+                    : check.status === 'on_request'
+                      ? "bg-amber-100 text-amber-700"
+                      : "bg-green-100 text-green-700"
+                )}
+                title={`Needs ${check.required}, venue has ${check.available}`}
+              >
+                {check.required > 1 && `${check.required} × `}{check.facility}
+                {check.status === 'on_request' && " (on request)"}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between border-t pt-2 text-xs font-semibold">
+          <span>Total{policyVersion !== null && ` (policy v${policyVersion})`}</span>
+          <span>{Math.round(match.score)}/{maxScore}</span>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ScoreBreakdownCard;
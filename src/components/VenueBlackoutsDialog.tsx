@@ -0,0 +1,421 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import { format, startOfMonth, addMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { Database, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { expandBlackout, toDateTime } from "@/utils/venueSelection";
+
+type Venue = Tables<'venues'>;
+type VenueBlackout = Tables<'venue_blackouts'>;
+type BlackoutConflict = Database['public']['Functions']['blackout_event_conflicts']['Returns'][number];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const reasonSchema = z.string().trim().min(3, "Please give a reason for the blackout");
+
+const oneOffSchema = z.object({
+  reason: reasonSchema,
+  startDate: z.string().min(1, "Please pick a start date"),
+  startTime: z.string().min(1, "Please pick a start time"),
+  endDate: z.string().min(1, "Please pick an end date"),
+  endTime: z.string().min(1, "Please pick an end time"),
+}).refine(
+  (data) => `${data.endDate}T${data.endTime}` > `${data.startDate}T${data.startTime}`,
+  "Blackout must end after it starts"
+);
+
+const weeklySchema = z.object({
+  reason: reasonSchema,
+  weekdays: z.array(z.number()).min(1, "Please pick at least one weekday"),
+  startTime: z.string().min(1, "Please pick a start time"),
+  endTime: z.string().min(1, "Please pick an end time"),
+  validFrom: z.string().min(1, "Please pick the first date this applies"),
+  validUntil: z.string().optional(),
+}).refine((data) => data.endTime > data.startTime, "Blackout must end after it starts")
+  .refine((data) => !data.validUntil || data.validUntil >= data.validFrom, "End date must be after the start date");
+
+const emptyForm = {
+  reason: "",
+  recurrence: "none",
+  startDate: "",
+  startTime: "",
+  endDate: "",
+  endTime: "",
+  weekdays: [] as number[],
+  validFrom: "",
+  validUntil: "",
+};
+
+/**
+ * Human readable summary of when a blackout applies
+ */
+const describeBlackout = (blackout: VenueBlackout) => {
+  if (blackout.recurrence === 'weekly') {
+    const days = (blackout.weekdays || []).map(day => WEEKDAYS[day]).join(", ");
+    const until = blackout.valid_until ? ` until ${blackout.valid_until}` : "";
+    return `Every ${days}, ${blackout.start_time?.slice(0, 5)}–${blackout.end_time?.slice(0, 5)} from ${blackout.valid_from}${until}`;
+  }
+  return `${format(new Date(blackout.starts_at!), "PPP p")} – ${format(new Date(blackout.ends_at!), "PPP p")}`;
+};
+
+interface VenueBlackoutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  venue: Venue | null;
+}
+
+const VenueBlackoutsDialog = ({ open, onOpenChange, venue }: VenueBlackoutsDialogProps) => {
+  const [blackouts, setBlackouts] = useState<VenueBlackout[]>([]);
+  const [collisions, setCollisions] = useState<BlackoutConflict[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchBlackouts = useCallback(async (venueId: string) => {
+    const { data, error } = await supabase
+      .from('venue_blackouts')
+      .select('*')
+      .eq('venue_id', venueId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Error fetching blackouts",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setBlackouts(data || []);
+    }
+  }, [toast]);
+
+  const fetchCollisions = useCallback(async (venueId: string) => {
+    const { data, error } = await supabase.rpc('blackout_event_conflicts');
+
+    if (error) {
+      toast({
+        title: "Error checking approved events",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setCollisions((data || []).filter(conflict => conflict.venue_id === venueId));
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!open || !venue) return;
+    setFormData(emptyForm);
+    fetchBlackouts(venue.id);
+    fetchCollisions(venue.id);
+  }, [open, venue, fetchBlackouts, fetchCollisions]);
+
+  const handleAdd = async () => {
+    if (!venue) return;
+    setSaving(true);
+
+    try {
+      let blackoutData: TablesInsert<'venue_blackouts'>;
+      if (formData.recurrence === 'weekly') {
+        const validation = weeklySchema.parse({
+          ...formData,
+          validUntil: formData.validUntil || undefined,
+        });
+        blackoutData = {
+          venue_id: venue.id,
+          reason: validation.reason,
+          recurrence: 'weekly',
+          weekdays: validation.weekdays,
+          start_time: validation.startTime,
+          end_time: validation.endTime,
+          valid_from: validation.validFrom,
+          valid_until: validation.validUntil || null,
+          created_by: user?.id,
+        };
+      } else {
+        const validation = oneOffSchema.parse(formData);
+        blackoutData = {
+          venue_id: venue.id,
+          reason: validation.reason,
+          recurrence: 'none',
+          starts_at: toDateTime(validation.startDate, validation.startTime).toISOString(),
+          ends_at: toDateTime(validation.endDate, validation.endTime).toISOString(),
+          created_by: user?.id,
+        };
+      }
+
+      const { error } = await supabase
+        .from('venue_blackouts')
+        .insert([blackoutData]);
+
+      if (error) {
+        toast({
+          title: "Error adding blackout",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Blackout added",
+          description: `${venue.name} will not be offered during this window.`,
+        });
+        setFormData(emptyForm);
+        await Promise.all([fetchBlackouts(venue.id), fetchCollisions(venue.id)]);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (blackout: VenueBlackout) => {
+    const { error } = await supabase
+      .from('venue_blackouts')
+      .delete()
+      .eq('id', blackout.id);
+
+    if (error) {
+      toast({
+        title: "Error removing blackout",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setBlackouts(blackouts.filter(b => b.id !== blackout.id));
+      setCollisions(collisions.filter(c => c.blackout_id !== blackout.id));
+    }
+  };
+
+  // Days of the visible month touched by any blackout
+  const monthRange = { start: month, end: addMonths(month, 1) };
+  const blackoutDays = blackouts
+    .flatMap(blackout => expandBlackout(blackout, monthRange))
+    .flatMap(window => {
+      const days: Date[] = [];
+      const day = new Date(window.start);
+      day.setHours(0, 0, 0, 0);
+      for (; day < window.end; day.setDate(day.getDate() + 1)) {
+        days.push(new Date(day));
+      }
+      return days;
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Blackouts · {venue?.name}</DialogTitle>
+          <DialogDescription>
+            The venue is never offered for events during these windows.
+          </DialogDescription>
+        </DialogHeader>
+
+        {collisions.length > 0 && (
+          <div className="space-y-2 rounded-lg border border-destructive p-3">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Approved events that need to be moved
+            </h4>
+            {collisions.map((collision) => (
+              <div key={`${collision.event_id}-${collision.blackout_id}`} className="text-sm">
+                <span className="font-medium">{collision.event_title}</span>
+                <span className="text-muted-foreground">
+                  {" "}· {format(new Date(collision.starts_at), "PPP p")} · {collision.reason}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Calendar
+            mode="single"
+            month={month}
+            onMonthChange={setMonth}
+            modifiers={{ blackout: blackoutDays }}
+            modifiersClassNames={{ blackout: "bg-destructive/20 text-destructive" }}
+            className="rounded-md border pointer-events-auto"
+          />
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Current blackouts</h4>
+            {blackouts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No blackouts for this venue</p>
+            ) : (
+              blackouts.map((blackout) => (
+                <div key={blackout.id} className="flex justify-between items-start gap-2 rounded border p-2 text-sm">
+                  <div>
+                    <p className="font-medium">{blackout.reason}</p>
+                    <p className="text-xs text-muted-foreground">{describeBlackout(blackout)}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {blackout.recurrence === 'weekly' && <Badge variant="secondary">weekly</Badge>}
+                    <Button size="icon" variant="ghost" onClick={() => handleDelete(blackout)} aria-label="Remove blackout">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-semibold">Add blackout</h4>
+
+          <div className="space-y-2">
+            <Label htmlFor="blackoutReason">Reason</Label>
+            <Input
+              id="blackoutReason"
+              placeholder="e.g., End-semester exams, deep cleaning"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+            />
+          </div>
+
+          <RadioGroup
+            value={formData.recurrence}
+            onValueChange={(value) => setFormData({ ...formData, recurrence: value })}
+            className="flex gap-6"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="none" id="blackoutOneOff" />
+              <Label htmlFor="blackoutOneOff">One-off</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="weekly" id="blackoutWeekly" />
+              <Label htmlFor="blackoutWeekly">Weekly</Label>
+            </div>
+          </RadioGroup>
+
+          {formData.recurrence === 'weekly' ? (
+            <div className="space-y-4">
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start"
+                value={formData.weekdays.map(String)}
+                onValueChange={(value) => setFormData({ ...formData, weekdays: value.map(Number) })}
+              >
+                {WEEKDAYS.map((day, idx) => (
+                  <ToggleGroupItem key={day} value={String(idx)} size="sm">
+                    {day}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="blackoutStartTime">From</Label>
+                  <Input
+                    id="blackoutStartTime"
+                    type="time"
+                    value={formData.startTime}
+                    onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="blackoutEndTime">To</Label>
+                  <Input
+                    id="blackoutEndTime"
+                    type="time"
+                    value={formData.endTime}
+                    onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="blackoutValidFrom">Starting</Label>
+                  <Input
+                    id="blackoutValidFrom"
+                    type="date"
+                    value={formData.validFrom}
+                    onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="blackoutValidUntil">Until (optional)</Label>
+                  <Input
+                    id="blackoutValidUntil"
+                    type="date"
+                    value={formData.validUntil}
+                    onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="blackoutStartDate">Start date</Label>
+                <Input
+                  id="blackoutStartDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value, endDate: formData.endDate || e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blackoutStartTime">Start time</Label>
+                <Input
+                  id="blackoutStartTime"
+                  type="time"
+                  value={formData.startTime}
+                  onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blackoutEndDate">End date</Label>
+                <Input
+                  id="blackoutEndDate"
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blackoutEndTime">End time</Label>
+                <Input
+                  id="blackoutEndTime"
+                  type="time"
+                  value={formData.endTime}
+                  onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <Button onClick={handleAdd} disabled={saving} className="w-full">
+            {saving ? "Saving..." : "Add Blackout"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VenueBlackoutsDialog;
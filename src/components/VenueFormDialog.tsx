@@ -0,0 +1,443 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { X, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { Tables } from "@/integrations/supabase/types";
+import { VENUE_TYPES, VenueWithFacilities } from "@/utils/venueSelection";
+
+type Venue = VenueWithFacilities;
+type Facility = Tables<'facilities'>;
+
+interface VenueFacilityForm {
+  facilityId: string;
+  quantity: string;
+  status: 'installed' | 'on_request';
+}
+
+const optionalUrl = (message: string) => z.string().url(message).optional().or(z.literal(""));
+
+const venueSchema = z.object({
+  name: z.string().trim().min(2, "Venue name must be at least 2 characters"),
+  type: z.string().min(1, "Please select a venue type"),
+  capacity: z.number().int().min(1, "Capacity must be at least 1"),
+  areaSqft: z.number().int().min(1, "Area must be at least 1 sq ft"),
+  building: z.string().optional(),
+  floor: z.number().int().optional(),
+  facilities: z.array(z.object({
+    facilityId: z.string(),
+    quantity: z.number().int().min(1, "Facility quantities must be at least 1"),
+    status: z.enum(['installed', 'on_request']),
+  })),
+  description: z.string().optional(),
+  photoUrl: optionalUrl("Photo must be a valid URL"),
+  floorPlanUrl: optionalUrl("Floor plan must be a valid URL"),
+});
+
+const emptyForm = {
+  name: "",
+  type: "",
+  capacity: "",
+  areaSqft: "",
+  building: "",
+  floor: "",
+  facilities: [] as VenueFacilityForm[],
+  description: "",
+  photoUrl: "",
+  floorPlanUrl: "",
+};
+
+interface VenueFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  venue: Venue | null;
+  facilityCatalogue: Facility[];
+  /** Called after a facility is added to the shared catalogue */
+  onCatalogueChanged: () => void;
+  onSaved: () => void;
+}
+
+// Catalogue IDs are lower-case slugs of the display name
+const facilitySlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const VenueFormDialog = ({
+  open,
+  onOpenChange,
+  venue,
+  facilityCatalogue,
+  onCatalogueChanged,
+  onSaved,
+}: VenueFormDialogProps) => {
+  const [formData, setFormData] = useState(emptyForm);
+  const [facilityInput, setFacilityInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setFacilityInput("");
+    setFormData(venue ? {
+      name: venue.name,
+      type: venue.type,
+      capacity: String(venue.capacity),
+      areaSqft: String(venue.area_sqft),
+      building: venue.building || "",
+      floor: venue.floor === null ? "" : String(venue.floor),
+      facilities: venue.venue_facilities.map(facility => ({
+        facilityId: facility.facility_id,
+        quantity: String(facility.quantity),
+        status: facility.status === 'on_request' ? 'on_request' : 'installed',
+      })),
+      description: venue.description || "",
+      photoUrl: venue.photo_url || "",
+      floorPlanUrl: venue.floor_plan_url || "",
+    } : emptyForm);
+  }, [open, venue]);
+
+  const facilityName = (facilityId: string) =>
+    facilityCatalogue.find(facility => facility.id === facilityId)?.name ?? facilityId;
+
+  const addFacility = async (label: string) => {
+    const value = label.trim();
+    if (!value) return;
+
+    // Reuse a catalogue entry when the label is its name or a known synonym
+    let facility = facilityCatalogue.find(f =>
+      f.name.toLowerCase() === value.toLowerCase() || f.synonyms.includes(value.toLowerCase())
+    );
+
+    if (!facility) {
+      const id = facilitySlug(value);
+      if (!id) return;
+
+      const { data, error } = await supabase
+        .from('facilities')
+        .insert([{ id, name: value }])
+        .select()
+        .single();
+
+      if (error) {
+        toast({
+          title: "Error adding facility",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      facility = data;
+      onCatalogueChanged();
+    }
+
+    setFacilityInput("");
+    if (formData.facilities.some(f => f.facilityId === facility.id)) return;
+    setFormData(current => ({
+      ...current,
+      facilities: [...current.facilities, { facilityId: facility.id, quantity: "1", status: 'installed' }],
+    }));
+  };
+
+  const updateFacility = (facilityId: string, changes: Partial<VenueFacilityForm>) => {
+    setFormData({
+      ...formData,
+      facilities: formData.facilities.map(f => f.facilityId === facilityId ? { ...f, ...changes } : f),
+    });
+  };
+
+  const removeFacility = (facilityId: string) => {
+    setFormData({ ...formData, facilities: formData.facilities.filter(f => f.facilityId !== facilityId) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const validation = venueSchema.parse({
+        ...formData,
+        capacity: parseInt(formData.capacity),
+        areaSqft: parseInt(formData.areaSqft),
+        building: formData.building.trim() || undefined,
+        floor: formData.floor === "" ? undefined : parseInt(formData.floor),
+        facilities: formData.facilities.map(f => ({ ...f, quantity: parseInt(f.quantity) })),
+        description: formData.description.trim() || undefined,
+      });
+
+      const venueData = {
+        name: validation.name,
+        type: validation.type,
+        capacity: validation.capacity,
+        area_sqft: validation.areaSqft,
+        building: validation.building || null,
+        floor: validation.floor ?? null,
+        description: validation.description || null,
+        photo_url: validation.photoUrl || null,
+        floor_plan_url: validation.floorPlanUrl || null,
+      };
+
+      const { data: saved, error: venueError } = venue
+        ? await supabase.from('venues').update(venueData).eq('id', venue.id).select('id').single()
+        : await supabase.from('venues').insert([venueData]).select('id').single();
+
+      // Facilities are replaced wholesale; the list is short and has no history worth keeping
+      let error = venueError;
+      if (saved) {
+        const { error: deleteError } = await supabase
+          .from('venue_facilities')
+          .delete()
+          .eq('venue_id', saved.id);
+
+        error = deleteError;
+        if (!error && validation.facilities.length > 0) {
+          const { error: insertError } = await supabase
+            .from('venue_facilities')
+            .insert(validation.facilities.map(facility => ({
+              venue_id: saved.id,
+              facility_id: facility.facilityId,
+              quantity: facility.quantity,
+              status: facility.status,
+            })));
+          error = insertError;
+        }
+      }
+
+      if (error) {
+        toast({
+          title: venue ? "Error updating venue" : "Error creating venue",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: venue ? "Venue updated" : "Venue created",
+          description: `${validation.name} has been saved.`,
+        });
+        onSaved();
+        onOpenChange(false);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unusedSuggestions = facilityCatalogue.filter(facility =>
+    !formData.facilities.some(f => f.facilityId === facility.id)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{venue ? "Edit Venue" : "Add Venue"}</DialogTitle>
+          <DialogDescription>
+            Venue details are used by the smart venue selection when matching events.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="venueName">Name</Label>
+            <Input
+              id="venueName"
+              placeholder="e.g., Seminar Hall C"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {VENUE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type} className="capitalize">
+                      {type.replace('_', ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="venueCapacity">Capacity</Label>
+              <Input
+                id="venueCapacity"
+                type="number"
+                value={formData.capacity}
+                onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="venueArea">Area (sq ft)</Label>
+              <Input
+                id="venueArea"
+                type="number"
+                value={formData.areaSqft}
+                onChange={(e) => setFormData({ ...formData, areaSqft: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="venueBuilding">Building</Label>
+              <Input
+                id="venueBuilding"
+                placeholder="e.g., Main Block"
+                value={formData.building}
+                onChange={(e) => setFormData({ ...formData, building: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="venueFloor">Floor</Label>
+              <Input
+                id="venueFloor"
+                type="number"
+                value={formData.floor}
+                onChange={(e) => setFormData({ ...formData, floor: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="facilityInput">Facilities</Label>
+            <div className="flex gap-2">
+              <Input
+                id="facilityInput"
+                placeholder="Add a facility, or name a new one"
+                value={facilityInput}
+                onChange={(e) => setFacilityInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addFacility(facilityInput);
+                  }
+                }}
+              />
+              <Button type="button" variant="outline" onClick={() => addFacility(facilityInput)}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {formData.facilities.length > 0 && (
+              <div className="space-y-2">
+                {formData.facilities.map((facility) => (
+                  <div key={facility.facilityId} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1">{facilityName(facility.facilityId)}</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="h-8 w-20"
+                      aria-label={`${facilityName(facility.facilityId)} quantity`}
+                      value={facility.quantity}
+                      onChange={(e) => updateFacility(facility.facilityId, { quantity: e.target.value })}
+                    />
+                    <Select
+                      value={facility.status}
+                      onValueChange={(value) => updateFacility(facility.facilityId, {
+                        status: value as VenueFacilityForm['status'],
+                      })}
+                    >
+                      <SelectTrigger className="h-8 w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="installed">Installed</SelectItem>
+                        <SelectItem value="on_request">On request</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <button
+                      type="button"
+                      onClick={() => removeFacility(facility.facilityId)}
+                      aria-label={`Remove ${facilityName(facility.facilityId)}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {unusedSuggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {unusedSuggestions.map((facility) => (
+                  <button
+                    key={facility.id}
+                    type="button"
+                    className="px-2 py-1 border text-xs rounded text-muted-foreground hover:bg-accent"
+                    onClick={() => addFacility(facility.name)}
+                  >
+                    + {facility.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="venueDescription">Description</Label>
+            <Textarea
+              id="venueDescription"
+              placeholder="Location, access notes, restrictions"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="venuePhoto">Photo URL</Label>
+              <Input
+                id="venuePhoto"
+                placeholder="https://"
+                value={formData.photoUrl}
+                onChange={(e) => setFormData({ ...formData, photoUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="venueFloorPlan">Floor Plan URL</Label>
+              <Input
+                id="venueFloorPlan"
+                placeholder="https://"
+                value={formData.floorPlanUrl}
+                onChange={(e) => setFormData({ ...formData, floorPlanUrl: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Venue"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VenueFormDialog;
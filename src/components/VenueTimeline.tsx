@@ -0,0 +1,155 @@
+import { DragEvent, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  BLOCKED_STYLE,
+  CalendarItem,
+  OPEN_HOURS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  VenueBlock,
+  getDayWindow,
+  positionInWindow,
+} from "@/utils/calendar";
+import { SLOT_SEARCH_DAY, TimeRange } from "@/utils/venueSelection";
+import { Tables } from "@/integrations/supabase/types";
+
+const MINUTE_MS = 60 * 1000;
+const STEP_MS = SLOT_SEARCH_DAY.stepMinutes * MINUTE_MS;
+
+interface VenueTimelineProps {
+  date: Date;
+  venues: Pick<Tables<'venues'>, 'id' | 'name' | 'capacity'>[];
+  items: CalendarItem[];
+  blocks: VenueBlock[];
+  /** Dragging is offered only when set */
+  onMove?: (item: CalendarItem, venueId: string, start: Date) => void;
+}
+
+interface DragState {
+  item: CalendarItem;
+  // How far into the bar it was grabbed, so the bar keeps its place under the pointer
+  grabOffsetMs: number;
+}
+
+/**
+ * One row per venue across the open hours of a day, with a bar for every booking
+ */
+const VenueTimeline = ({ date, venues, items, blocks, onMove }: VenueTimelineProps) => {
+  const dragging = useRef<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const dayWindow = getDayWindow(date);
+  const windowMs = dayWindow.end.getTime() - dayWindow.start.getTime();
+
+  const visible = (range: TimeRange) => positionInWindow(range, dayWindow).size > 0;
+
+  const timeAtPointer = (e: DragEvent<HTMLDivElement>) => {
+    const track = e.currentTarget.getBoundingClientRect();
+    return dayWindow.start.getTime() + ((e.clientX - track.left) / track.width) * windowMs;
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLAnchorElement>, item: CalendarItem) => {
+    const track = e.currentTarget.parentElement!.getBoundingClientRect();
+    const pointer = dayWindow.start.getTime() + ((e.clientX - track.left) / track.width) * windowMs;
+    dragging.current = { item, grabOffsetMs: pointer - Math.max(item.start.getTime(), dayWindow.start.getTime()) };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', item.occurrenceId);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, venueId: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const drag = dragging.current;
+    dragging.current = null;
+    if (!drag || !onMove) return;
+
+    // Snap to the same steps the slot search offers
+    const fromOpening = timeAtPointer(e) - drag.grabOffsetMs - dayWindow.start.getTime();
+    const start = dayWindow.start.getTime() + Math.round(fromOpening / STEP_MS) * STEP_MS;
+    if (start === drag.item.start.getTime() && drag.item.venueIds.includes(venueId)) return;
+    onMove(drag.item, venueId, new Date(start));
+  };
+
+  return (
+    <div className="overflow-x-auto text-sm">
+      <div className="min-w-[48rem]">
+        <div className="flex border-b">
+          <div className="w-48 shrink-0" />
+          <div className="relative h-6 flex-1">
+            {OPEN_HOURS.map((hour, index) => (
+              <div
+                key={hour}
+                className="absolute text-xs text-muted-foreground"
+                style={{ left: `${(index / OPEN_HOURS.length) * 100}%` }}
+              >
+                {String(hour).padStart(2, '0')}:00
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {venues.map((venue) => (
+          <div key={venue.id} className="flex border-b">
+            <div className="w-48 shrink-0 truncate py-2 pr-2">
+              <div className="truncate font-medium">{venue.name}</div>
+              <div className="text-xs text-muted-foreground">Capacity {venue.capacity}</div>
+            </div>
+            <div
+              className={cn("relative h-14 flex-1 border-l", dropTarget === venue.id && "bg-accent")}
+              onDragOver={onMove ? (e) => { e.preventDefault(); setDropTarget(venue.id); } : undefined}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, venue.id)}
+            >
+              {OPEN_HOURS.map((hour, index) => (
+                <div
+                  key={hour}
+                  className="absolute inset-y-0 border-l border-dashed"
+                  style={{ left: `${(index / OPEN_HOURS.length) * 100}%` }}
+                />
+              ))}
+
+              {blocks.filter(block => block.venueId === venue.id && visible(block)).map((block, index) => {
+                const { offset, size } = positionInWindow(block, dayWindow);
+                return (
+                  <div
+                    key={`${block.start.toISOString()}-${index}`}
+                    title={`${block.label} · ${format(block.start, 'p')}–${format(block.end, 'p')}`}
+                    className={cn("absolute inset-y-1 overflow-hidden rounded border px-1 text-xs", BLOCKED_STYLE)}
+                    style={{ left: `${offset}%`, width: `${size}%` }}
+                  >
+                    {block.label}
+                  </div>
+                );
+              })}
+
+              {items.filter(item => item.venueIds.includes(venue.id) && visible(item)).map((item) => {
+                const { offset, size } = positionInWindow(item, dayWindow);
+                return (
+                  <Link
+                    key={item.occurrenceId}
+                    to={`/events/${item.eventId}`}
+                    draggable={!!onMove}
+                    onDragStart={(e) => handleDragStart(e, item)}
+                    title={`${item.title} · ${format(item.start, 'p')}–${format(item.end, 'p')} · ${STATUS_LABELS[item.status]}`}
+                    className={cn(
+                      "absolute inset-y-1 overflow-hidden rounded border px-1 text-xs",
+                      STATUS_STYLES[item.status],
+                      onMove && "cursor-grab"
+                    )}
+                    style={{ left: `${offset}%`, width: `${size}%` }}
+                  >
+                    <div className="truncate font-medium">{item.title}</div>
+                    <div className="truncate">{format(item.start, 'HH:mm')}–{format(item.end, 'HH:mm')}</div>
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VenueTimeline;
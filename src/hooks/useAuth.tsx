@@ -1,20 +1,47 @@
 import { useState, useEffect } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<'app_role'>;
 
 export interface Profile {
   id: string;
   user_id: string;
   name: string;
-  role: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface RoleCapabilities {
+  canApproveEvents: boolean;
+  canManageVenues: boolean;
+  canManageRoles: boolean;
+  canManagePolicy: boolean;
+  canManageApprovalChains: boolean;
+  canViewAuditLog: boolean;
+}
+
+/**
+ * Map server-side roles to what the UI may offer; RLS enforces the same rules
+ */
+export const getCapabilities = (roles: AppRole[]): RoleCapabilities => {
+  const isAdmin = roles.includes('admin');
+  return {
+    canApproveEvents: isAdmin || roles.includes('faculty_approver'),
+    canManageVenues: isAdmin || roles.includes('venue_manager'),
+    canManageRoles: isAdmin,
+    canManagePolicy: isAdmin,
+    canManageApprovalChains: isAdmin,
+    canViewAuditLog: isAdmin,
+  };
+};
+
 export const useAuth = () => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -23,21 +50,30 @@ export const useAuth = () => {
       async (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        
+
         if (session?.user) {
-          // Fetch user profile
+          // Fetch user profile and roles before reporting ready
           setTimeout(async () => {
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('*')
-              .eq('user_id', session.user.id)
-              .single();
+            const [{ data: profileData }, { data: rolesData }] = await Promise.all([
+              supabase
+                .from('profiles')
+                .select('*')
+                .eq('user_id', session.user.id)
+                .single(),
+              supabase
+                .from('user_roles')
+                .select('role')
+                .eq('user_id', session.user.id),
+            ]);
             setProfile(profileData);
+            setRoles((rolesData || []).map(r => r.role));
+            setLoading(false);
           }, 0);
         } else {
           setProfile(null);
+          setRoles([]);
+          setLoading(false);
         }
-        setLoading(false);
       }
     );
 
@@ -45,7 +81,7 @@ export const useAuth = () => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      if (!session) setLoading(false);
     });
 
     return () => subscription.unsubscribe();
@@ -57,17 +93,23 @@ export const useAuth = () => {
       setUser(null);
       setSession(null);
       setProfile(null);
+      setRoles([]);
     }
     return { error };
   };
 
+  const hasRole = (role: AppRole) => roles.includes(role);
+
   return {
     user,
     session,
     profile,
+    roles,
+    hasRole,
+    capabilities: getCapabilities(roles),
     loading,
     signOut,
     isAuthenticated: !!session,
-    isAdmin: profile?.role === 'admin',
+    isAdmin: hasRole('admin'),
   };
-};
\ No newline at end of file
+};
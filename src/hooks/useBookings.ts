@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchBlackoutConflicts } from "@/repositories/bookings";
+
+export const bookingKeys = {
+  all: ['bookings'] as const,
+  blackoutConflicts: () => [...bookingKeys.all, 'blackout-conflicts'] as const,
+};
+
+/** Approved events whose bookings collide with a venue blackout */
+export const useBlackoutConflicts = (enabled: boolean) =>
+  useQuery({
+    queryKey: bookingKeys.blackoutConflicts(),
+    queryFn: fetchBlackoutConflicts,
+    enabled,
+    meta: { errorTitle: "Error fetching blackout conflicts" },
+  });
@@ -0,0 +1,180 @@
+import { QueryClient, keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ReviewQueue,
+  approveEvent,
+  cancelEvent,
+  cancelEventOccurrences,
+  discardDraft,
+  fetchChangesRequested,
+  fetchDrafts,
+  fetchEventCounts,
+  fetchEventSummaryPage,
+  fetchReviewQueue,
+  fetchUpcomingEvents,
+  proposePreemption,
+  resubmitEvent,
+  reviewEvent,
+  signOffEvent,
+  submitEvent,
+} from "@/repositories/events";
+import { EventCursor, EventFilters } from "@/utils/eventQuery";
+import { bookingKeys } from "@/hooks/useBookings";
+
+/**
+ * Cache keys for event queries. Everything sits under `all`, which mutations invalidate: a change to one
+ * event can move it between lists, counts and tabs anywhere.
+ */
+export const eventKeys = {
+  all: ['events'] as const,
+  summaries: (filters: EventFilters, cursor: EventCursor | null, anyOf: string[]) =>
+    [...eventKeys.all, 'summaries', { filters, cursor, anyOf }] as const,
+  upcoming: (organiserId: string | null, today: string, limit: number) =>
+    [...eventKeys.all, 'upcoming', { organiserId, today, limit }] as const,
+  changesRequested: (organiserId: string) => [...eventKeys.all, 'changes-requested', organiserId] as const,
+  drafts: (organiserId: string) => [...eventKeys.all, 'drafts', organiserId] as const,
+  counts: (organiserId: string | null, today: string) => [...eventKeys.all, 'counts', { organiserId, today }] as const,
+  reviewQueues: () => [...eventKeys.all, 'review-queue'] as const,
+  reviewQueue: (params: Parameters<typeof fetchReviewQueue>[0]) => [...eventKeys.reviewQueues(), params] as const,
+};
+
+// Approvals and cancellations book and release venue slots as well
+const invalidateEvents = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: eventKeys.all }),
+    queryClient.invalidateQueries({ queryKey: bookingKeys.all }),
+  ]);
+
+export const useEventSummaries = (filters: EventFilters, cursor: EventCursor | null, anyOf: string[] = []) =>
+  useQuery({
+    queryKey: eventKeys.summaries(filters, cursor, anyOf),
+    queryFn: () => fetchEventSummaryPage(filters, cursor, anyOf),
+    // Keep showing the current page while the next one loads
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error fetching events" },
+  });
+
+export const useUpcomingEvents = (organiserId: string | null, today: string, limit: number) =>
+  useQuery({
+    queryKey: eventKeys.upcoming(organiserId, today, limit),
+    queryFn: () => fetchUpcomingEvents(organiserId, today, limit),
+    meta: { errorTitle: "Error fetching upcoming events" },
+  });
+
+export const useChangesRequested = (organiserId: string | undefined) =>
+  useQuery({
+    queryKey: eventKeys.changesRequested(organiserId ?? ''),
+    queryFn: () => fetchChangesRequested(organiserId!),
+    enabled: !!organiserId,
+    meta: { errorTitle: "Error fetching events" },
+  });
+
+export const useDrafts = (organiserId: string | undefined) =>
+  useQuery({
+    queryKey: eventKeys.drafts(organiserId ?? ''),
+    queryFn: () => fetchDrafts(organiserId!),
+    enabled: !!organiserId,
+    meta: { errorTitle: "Error fetching drafts" },
+  });
+
+export const useEventCounts = (organiserId: string | null, today: string) =>
+  useQuery({
+    queryKey: eventKeys.counts(organiserId, today),
+    queryFn: () => fetchEventCounts(organiserId, today),
+    meta: { errorTitle: "Error counting events" },
+  });
+
+export const useReviewQueue = (params: Parameters<typeof fetchReviewQueue>[0], enabled: boolean) =>
+  useQuery({
+    queryKey: eventKeys.reviewQueue(params),
+    queryFn: () => fetchReviewQueue(params),
+    enabled,
+    placeholderData: keepPreviousData,
+    meta: { errorTitle: "Error fetching events" },
+  });
+
+type ReviewQueueSnapshot = [readonly unknown[], ReviewQueue | undefined][];
+
+/**
+ * Move a pending event out of every cached approvers' list straight away, as if the server had already
+ * given it its new status; the snapshot puts the lists back if it does not
+ */
+const moveOutOfPending = async (queryClient: QueryClient, eventId: string, status: string) => {
+  await queryClient.cancelQueries({ queryKey: eventKeys.reviewQueues() });
+  const snapshot: ReviewQueueSnapshot = queryClient.getQueriesData<ReviewQueue>({ queryKey: eventKeys.reviewQueues() });
+
+  queryClient.setQueriesData<ReviewQueue>({ queryKey: eventKeys.reviewQueues() }, queue => {
+    if (!queue?.page.rows.some(event => event.id === eventId)) return queue;
+    return {
+      page: { ...queue.page, rows: queue.page.rows.filter(event => event.id !== eventId) },
+      counts: {
+        ...queue.counts,
+        pending: Math.max((queue.counts.pending ?? 0) - 1, 0),
+        [status]: (queue.counts[status] ?? 0) + 1,
+      },
+    };
+  });
+
+  return snapshot;
+};
+
+const restore = (queryClient: QueryClient, snapshot: ReviewQueueSnapshot | undefined) =>
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+
+/**
+ * Approve an event. A pending event leaves the approvers' list at once; it comes back if the approval
+ * fails or runs into a clash.
+ */
+export const useApproveEvent = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ event, ...options }: {
+      event: { id: string; status: string };
+      venueId?: string;
+      occurrenceIds?: string[];
+      startTime?: string;
+    }) => approveEvent({ eventId: event.id, ...options }),
+    onMutate: async ({ event }) =>
+      event.status === 'pending' ? moveOutOfPending(queryClient, event.id, 'approved') : undefined,
+    onSuccess: (result, _variables, snapshot) => {
+      if (!result.approved) restore(queryClient, snapshot);
+    },
+    onError: (_error, _variables, snapshot) => restore(queryClient, snapshot),
+    onSettled: () => invalidateEvents(queryClient),
+  });
+};
+
+/**
+ * Reject a pending event or send it back for changes, taking it off the approvers' list at once
+ */
+export const useReviewEvent = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: reviewEvent,
+    onMutate: ({ eventId, decision }) => moveOutOfPending(queryClient, eventId, decision),
+    onError: (_error, _variables, snapshot) => restore(queryClient, snapshot),
+    onSettled: () => invalidateEvents(queryClient),
+  });
+};
+
+// Writes whose effect on the lists is left to the refetch
+const useEventMutation = <TVariables, TData>(mutationFn: (variables: TVariables) => Promise<TData>) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSettled: () => invalidateEvents(queryClient),
+  });
+};
+
+export const useSignOffEvent = () => useEventMutation(signOffEvent);
+export const useCancelEvent = () => useEventMutation(cancelEvent);
+export const useCancelEventOccurrences = () => useEventMutation(cancelEventOccurrences);
+export const useSubmitEvent = () => useEventMutation(submitEvent);
+export const useResubmitEvent = () => useEventMutation(resubmitEvent);
+export const useDiscardDraft = () => useEventMutation(discardDraft);
+export const useProposePreemption = () => useEventMutation(proposePreemption);
+
+/** Refetch every event query, for changes made outside these hooks */
+export const useInvalidateEvents = () => {
+  const queryClient = useQueryClient();
+  return () => invalidateEvents(queryClient);
+};
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchProfileOptions } from "@/repositories/profiles";
+
+export const profileKeys = {
+  all: ['profiles'] as const,
+  options: () => [...profileKeys.all, 'options'] as const,
+};
+
+export const useProfileOptions = () =>
+  useQuery({
+    queryKey: profileKeys.options(),
+    queryFn: fetchProfileOptions,
+    meta: { errorTitle: "Error fetching organisers" },
+  });
@@ -0,0 +1,56 @@
+import { useEffect, useId, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { eventKeys } from "@/hooks/useEvents";
+import { bookingKeys } from "@/hooks/useBookings";
+
+// Tables published to realtime
+type RealtimeTable = 'events' | 'venue_bookings' | 'event_status_history' | 'event_approvals';
+
+interface RealtimeOptions {
+  event?: 'INSERT' | 'UPDATE' | 'DELETE' | '*';
+  enabled?: boolean;
+}
+
+/**
+ * Call `onChange` for every change to a table made by anyone, while the component is mounted. The latest
+ * `onChange` is always the one called, so it can read current state without resubscribing.
+ */
+export const useRealtimeChanges = <T extends RealtimeTable>(
+  table: T,
+  onChange: (payload: RealtimePostgresChangesPayload<Tables<T>>) => void,
+  { event = '*', enabled = true }: RealtimeOptions = {}
+) => {
+  const channelId = useId();
+  const handler = useRef(onChange);
+  handler.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // supabase-js overloads `on` per event kind; the payload union is the same for each
+    const channel = supabase
+      .channel(`${table}-${channelId}`)
+      .on<Tables<T>>('postgres_changes', { event: event as '*', schema: 'public', table }, (payload) => handler.current(payload))
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, event, enabled, channelId]);
+};
+
+/**
+ * Refetch cached event and booking queries whenever anyone changes an event or a booking, so open lists,
+ * counts and tabs follow approvals made elsewhere
+ */
+export const useRealtimeSync = () => {
+  const queryClient = useQueryClient();
+
+  useRealtimeChanges('events', () => queryClient.invalidateQueries({ queryKey: eventKeys.all }));
+  // Sign-offs move events between approvers without changing their status
+  useRealtimeChanges('event_approvals', () => queryClient.invalidateQueries({ queryKey: eventKeys.all }));
+  useRealtimeChanges('venue_bookings', () => queryClient.invalidateQueries({ queryKey: bookingKeys.all }));
+};
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchVenueOptions } from "@/repositories/venues";
+
+export const venueKeys = {
+  all: ['venues'] as const,
+  options: () => [...venueKeys.all, 'options'] as const,
+};
+
+export const useVenueOptions = () =>
+  useQuery({
+    queryKey: venueKeys.options(),
+    queryFn: fetchVenueOptions,
+    meta: { errorTitle: "Error fetching venues" },
+  });
@@ -14,22 +14,454 @@ export type Database = {
   }
   public: {
     Tables: {
+      approval_chains: {
+        Row: {
+          active: boolean
+          created_at: string
+          event_type: string | null
+          id: string
+          min_participants: number | null
+          name: string
+          position: number
+          updated_at: string
+          venue_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          event_type?: string | null
+          id?: string
+          min_participants?: number | null
+          name: string
+          position?: number
+          updated_at?: string
+          venue_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          event_type?: string | null
+          id?: string
+          min_participants?: number | null
+          name?: string
+          position?: number
+          updated_at?: string
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chains_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_stage_approvers: {
+        Row: {
+          stage_id: string
+          user_id: string
+        }
+        Insert: {
+          stage_id: string
+          user_id: string
+        }
+        Update: {
+          stage_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_stage_approvers_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "approval_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_stages: {
+        Row: {
+          chain_id: string
+          created_at: string
+          id: string
+          name: string
+          position: number
+        }
+        Insert: {
+          chain_id: string
+          created_at?: string
+          id?: string
+          name: string
+          position: number
+        }
+        Update: {
+          chain_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_stages_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[]
+          created_at: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      event_approvals: {
+        Row: {
+          approved_by: string | null
+          comment: string | null
+          created_at: string
+          event_id: string
+          id: string
+          stage_id: string | null
+          stage_name: string
+        }
+        Insert: {
+          approved_by?: string | null
+          comment?: string | null
+          created_at?: string
+          event_id: string
+          id?: string
+          stage_id?: string | null
+          stage_name: string
+        }
+        Update: {
+          approved_by?: string | null
+          comment?: string | null
+          created_at?: string
+          event_id?: string
+          id?: string
+          stage_id?: string | null
+          stage_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_approvals_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_approvals_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "approval_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_comments: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          event_id: string
+          id: string
+          kind: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          event_id: string
+          id?: string
+          kind?: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          event_id?: string
+          id?: string
+          kind?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_comments_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_facilities: {
+        Row: {
+          event_id: string
+          facility_id: string
+          quantity: number
+        }
+        Insert: {
+          event_id: string
+          facility_id: string
+          quantity?: number
+        }
+        Update: {
+          event_id?: string
+          facility_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_facilities_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_facilities_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_occurrences: {
+        Row: {
+          created_at: string
+          ends_at: string
+          event_id: string
+          id: string
+          starts_at: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          event_id: string
+          id?: string
+          starts_at: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          event_id?: string
+          id?: string
+          starts_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_occurrences_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_preemptions: {
+        Row: {
+          created_at: string
+          displaced_event_id: string
+          id: string
+          note: string | null
+          proposed_by: string | null
+          proposed_time_slot: string
+          proposed_venue_id: string
+          requesting_event_id: string
+          responded_at: string | null
+          response_note: string | null
+          status: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          displaced_event_id: string
+          id?: string
+          note?: string | null
+          proposed_by?: string | null
+          proposed_time_slot: string
+          proposed_venue_id: string
+          requesting_event_id: string
+          responded_at?: string | null
+          response_note?: string | null
+          status?: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          displaced_event_id?: string
+          id?: string
+          note?: string | null
+          proposed_by?: string | null
+          proposed_time_slot?: string
+          proposed_venue_id?: string
+          requesting_event_id?: string
+          responded_at?: string | null
+          response_note?: string | null
+          status?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_preemptions_displaced_event_id_fkey"
+            columns: ["displaced_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_preemptions_proposed_venue_id_fkey"
+            columns: ["proposed_venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_preemptions_requesting_event_id_fkey"
+            columns: ["requesting_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_preemptions_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          event_id: string
+          id: string
+          note: string | null
+          status: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          event_id: string
+          id?: string
+          note?: string | null
+          status: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          event_id?: string
+          id?: string
+          note?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_status_history_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_venues: {
+        Row: {
+          created_at: string
+          event_id: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_venues_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_venues_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
+          approval_chain_id: string | null
+          approval_stage_id: string | null
           audience_participation: boolean | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           computing_requirement: string[] | null
           created_at: string
           duration_hours: number | null
           evaluation_setup: boolean | null
           event_category: string | null
           event_date: string
-          facilities_required: string[] | null
           id: string
           is_group_event: boolean | null
           number_of_teams: number | null
           priority: string | null
+          recurrence_rule: string | null
+          selection_policy_id: string | null
           sound_requirement: boolean | null
           space_type: string | null
+          span_days: number
           stage_requirement: boolean | null
           stalls_needed: number | null
           status: string
@@ -41,22 +473,30 @@ export type Database = {
           updated_at: string
           user_id: string
           venue_id: string
+          venue_match: Json | null
         }
         Insert: {
+          approval_chain_id?: string | null
+          approval_stage_id?: string | null
           audience_participation?: boolean | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           computing_requirement?: string[] | null
           created_at?: string
           duration_hours?: number | null
           evaluation_setup?: boolean | null
           event_category?: string | null
           event_date: string
-          facilities_required?: string[] | null
           id?: string
           is_group_event?: boolean | null
           number_of_teams?: number | null
           priority?: string | null
+          recurrence_rule?: string | null
+          selection_policy_id?: string | null
           sound_requirement?: boolean | null
           space_type?: string | null
+          span_days?: number
           stage_requirement?: boolean | null
           stalls_needed?: number | null
           status?: string
@@ -68,22 +508,30 @@ export type Database = {
           updated_at?: string
           user_id: string
           venue_id: string
+          venue_match?: Json | null
         }
         Update: {
+          approval_chain_id?: string | null
+          approval_stage_id?: string | null
           audience_participation?: boolean | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           computing_requirement?: string[] | null
           created_at?: string
           duration_hours?: number | null
           evaluation_setup?: boolean | null
           event_category?: string | null
           event_date?: string
-          facilities_required?: string[] | null
           id?: string
           is_group_event?: boolean | null
           number_of_teams?: number | null
           priority?: string | null
+          recurrence_rule?: string | null
+          selection_policy_id?: string | null
           sound_requirement?: boolean | null
           space_type?: string | null
+          span_days?: number
           stage_requirement?: boolean | null
           stalls_needed?: number | null
           status?: string
@@ -95,8 +543,30 @@ export type Database = {
           updated_at?: string
           user_id?: string
           venue_id?: string
+          venue_match?: Json | null
         }
         Relationships: [
+          {
+            foreignKeyName: "events_approval_chain_id_fkey"
+            columns: ["approval_chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_approval_stage_id_fkey"
+            columns: ["approval_stage_id"]
+            isOneToOne: false
+            referencedRelation: "approval_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "events_selection_policy_id_fkey"
+            columns: ["selection_policy_id"]
+            isOneToOne: false
+            referencedRelation: "selection_policies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "events_venue_id_fkey"
             columns: ["venue_id"]
@@ -106,12 +576,46 @@ export type Database = {
           },
         ]
       }
+      facilities: {
+        Row: {
+          countable: boolean
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          synonyms: string[]
+        }
+        Insert: {
+          countable?: boolean
+          created_at?: string
+          id: string
+          name: string
+          parent_id?: string | null
+          synonyms?: string[]
+        }
+        Update: {
+          countable?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          synonyms?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "facilities_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           id: string
           name: string
-          role: string
           updated_at: string
           user_id: string
         }
@@ -119,7 +623,6 @@ export type Database = {
           created_at?: string
           id?: string
           name: string
-          role?: string
           updated_at?: string
           user_id: string
         }
@@ -127,42 +630,350 @@ export type Database = {
           created_at?: string
           id?: string
           name?: string
-          role?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      selection_policies: {
+        Row: {
+          area_weight: number
+          availability_weight: number
+          capacity_weight: number
+          created_at: string
+          created_by: string | null
+          facilities_weight: number
+          id: string
+          max_alternatives: number
+          name: string
+          notes: string | null
+          oversize_penalty: number
+          priority_weight: number
+          sqft_per_person: number
+          venue_type_bonuses: Json
+          version: number
+        }
+        Insert: {
+          area_weight?: number
+          availability_weight?: number
+          capacity_weight?: number
+          created_at?: string
+          created_by?: string | null
+          facilities_weight?: number
+          id?: string
+          max_alternatives?: number
+          name: string
+          notes?: string | null
+          oversize_penalty?: number
+          priority_weight?: number
+          sqft_per_person?: number
+          venue_type_bonuses?: Json
+          version?: number
+        }
+        Update: {
+          area_weight?: number
+          availability_weight?: number
+          capacity_weight?: number
+          created_at?: string
+          created_by?: string | null
+          facilities_weight?: number
+          id?: string
+          max_alternatives?: number
+          name?: string
+          notes?: string | null
+          oversize_penalty?: number
+          priority_weight?: number
+          sqft_per_person?: number
+          venue_type_bonuses?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      venue_blackouts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_time: string | null
+          ends_at: string | null
+          id: string
+          reason: string
+          recurrence: string
+          start_time: string | null
+          starts_at: string | null
+          valid_from: string | null
+          valid_until: string | null
+          venue_id: string
+          weekdays: number[] | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_time?: string | null
+          ends_at?: string | null
+          id?: string
+          reason: string
+          recurrence?: string
+          start_time?: string | null
+          starts_at?: string | null
+          valid_from?: string | null
+          valid_until?: string | null
+          venue_id: string
+          weekdays?: number[] | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_time?: string | null
+          ends_at?: string | null
+          id?: string
+          reason?: string
+          recurrence?: string
+          start_time?: string | null
+          starts_at?: string | null
+          valid_from?: string | null
+          valid_until?: string | null
+          venue_id?: string
+          weekdays?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_blackouts_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_booking_backfill_issues: {
+        Row: {
+          created_at: string
+          ends_at: string | null
+          event_id: string | null
+          id: string
+          reason: string
+          source: string
+          starts_at: string | null
+          venue_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          ends_at?: string | null
+          event_id?: string | null
+          id?: string
+          reason: string
+          source: string
+          starts_at?: string | null
+          venue_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string | null
+          event_id?: string | null
+          id?: string
+          reason?: string
+          source?: string
+          starts_at?: string | null
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_booking_backfill_issues_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_booking_backfill_issues_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_bookings: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          event_id: string | null
+          id: string
+          kind: string
+          notes: string | null
+          occurrence_id: string | null
+          starts_at: string
+          venue_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          event_id?: string | null
+          id?: string
+          kind?: string
+          notes?: string | null
+          occurrence_id?: string | null
+          starts_at: string
+          venue_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          event_id?: string | null
+          id?: string
+          kind?: string
+          notes?: string | null
+          occurrence_id?: string | null
+          starts_at?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_bookings_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_bookings_occurrence_id_fkey"
+            columns: ["occurrence_id"]
+            isOneToOne: false
+            referencedRelation: "event_occurrences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_bookings_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_facilities: {
+        Row: {
+          facility_id: string
+          quantity: number
+          status: string
+          venue_id: string
+        }
+        Insert: {
+          facility_id: string
+          quantity?: number
+          status?: string
+          venue_id: string
+        }
+        Update: {
+          facility_id?: string
+          quantity?: number
+          status?: string
+          venue_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "venue_facilities_facility_id_fkey"
+            columns: ["facility_id"]
+            isOneToOne: false
+            referencedRelation: "facilities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "venue_facilities_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      venue_type_buffers: {
+        Row: {
+          setup_minutes: number
+          teardown_minutes: number
+          venue_type: string
+        }
+        Insert: {
+          setup_minutes: number
+          teardown_minutes: number
+          venue_type: string
+        }
+        Update: {
+          setup_minutes?: number
+          teardown_minutes?: number
+          venue_type?: string
+        }
+        Relationships: []
+      }
       venues: {
         Row: {
+          archived_at: string | null
           area_sqft: number
-          booked_slots: string[] | null
+          building: string | null
           capacity: number
           created_at: string
-          facilities: string[] | null
+          description: string | null
+          floor: number | null
+          floor_plan_url: string | null
           id: string
           name: string
+          photo_url: string | null
           type: string
+          updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           area_sqft?: number
-          booked_slots?: string[] | null
+          building?: string | null
           capacity: number
           created_at?: string
-          facilities?: string[] | null
+          description?: string | null
+          floor?: number | null
+          floor_plan_url?: string | null
           id?: string
           name: string
+          photo_url?: string | null
           type: string
+          updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           area_sqft?: number
-          booked_slots?: string[] | null
+          building?: string | null
           capacity?: number
           created_at?: string
-          facilities?: string[] | null
+          description?: string | null
+          floor?: number | null
+          floor_plan_url?: string | null
           id?: string
           name?: string
+          photo_url?: string | null
           type?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -171,10 +982,133 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      approve_event: {
+        Args: {
+          _event_id: string
+          _occurrence_ids?: string[]
+          _start_time?: string
+          _venue_id?: string
+        }
+        Returns: Json
+      }
+      blackout_event_conflicts: {
+        Args: never
+        Returns: {
+          blackout_id: string
+          ends_at: string
+          event_id: string
+          event_title: string
+          organiser_id: string
+          reason: string
+          starts_at: string
+          venue_id: string
+        }[]
+      }
+      can_review_event: {
+        Args: { _event: Database["public"]["Tables"]["events"]["Row"] }
+        Returns: boolean
+      }
+      cancel_event: {
+        Args: { _event_id: string; _reason: string }
+        Returns: undefined
+      }
+      cancel_event_occurrences: {
+        Args: { _event_id: string; _occurrence_ids?: string[] }
+        Returns: Json
+      }
+      event_time_range: {
+        Args: { _event: Database["public"]["Tables"]["events"]["Row"] }
+        Returns: unknown
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: { _user_id?: string }
+        Returns: boolean
+      }
+      match_approval_chain: {
+        Args: { _event: Database["public"]["Tables"]["events"]["Row"] }
+        Returns: string
+      }
+      priority_rank: {
+        Args: { _priority: string }
+        Returns: number
+      }
+      propose_preemption: {
+        Args: {
+          _displaced_event_id: string
+          _event_id: string
+          _note?: string
+          _proposed_time_slot: string
+          _proposed_venue_id: string
+        }
+        Returns: string
+      }
+      reopen_event: {
+        Args: { _event_id: string }
+        Returns: undefined
+      }
+      reschedule_occurrence: {
+        Args: { _occurrence_id: string; _starts_at: string; _venue_id?: string }
+        Returns: Json
+      }
+      respond_to_preemption: {
+        Args: { _accept: boolean; _note?: string; _preemption_id: string }
+        Returns: Json
+      }
+      resubmit_event: {
+        Args: { _comment?: string; _event_id: string }
+        Returns: undefined
+      }
+      review_event: {
+        Args: { _comment: string; _decision: string; _event_id: string }
+        Returns: undefined
+      }
+      save_event: {
+        Args: {
+          _details: Json
+          _event_id?: string
+          _facilities: Json
+          _occurrences: Json
+          _reschedule?: boolean
+          _submit?: boolean
+          _venue_ids: string[]
+        }
+        Returns: string
+      }
+      sign_off_event: {
+        Args: { _comment?: string; _event_id: string }
+        Returns: undefined
+      }
+      slot_conflicts: {
+        Args: {
+          _ignore_event_ids?: string[]
+          _range: unknown
+          _venue_id: string
+        }
+        Returns: Json
+      }
+      submit_event: {
+        Args: { _event_id: string }
+        Returns: undefined
+      }
+      venue_blackout_ranges: {
+        Args: { _range: unknown; _venue_id: string }
+        Returns: {
+          blackout_id: string
+          ends_at: string
+          reason: string
+          starts_at: string
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "coordinator" | "faculty_approver" | "venue_manager" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -301,6 +1235,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["coordinator", "faculty_approver", "venue_manager", "admin"],
+    },
   },
 } as const
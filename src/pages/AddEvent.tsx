@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,36 +10,56 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
-import { CalendarIcon, ArrowLeft, ArrowRight, Users, MapPin, Clock, Zap, CheckCircle } from "lucide-react";
-import { format } from "date-fns";
+import { CalendarIcon, ArrowLeft, ArrowRight, Users, MapPin, Clock, Zap, CheckCircle, Layers, Search } from "lucide-react";
+import { format, addDays } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { useNavigate } from "react-router-dom";
+import { useRealtimeChanges } from "@/hooks/useRealtime";
+import { useNavigate, useParams } from "react-router-dom";
 import { z } from "zod";
-import { VenueSelectionAlgorithm, VenueMatch } from "@/utils/venueSelection";
-import { Tables } from "@/integrations/supabase/types";
+import {
+  VenueSelectionAlgorithm,
+  VenueMatch,
+  SelectionPolicy,
+  DEFAULT_SELECTION_POLICY,
+  policyFromRow,
+  FacilityRequirement,
+  EventRequirements,
+  VenueSplit,
+  SlotSuggestion,
+  STANDARD_START_TIMES,
+  VenueWithFacilities,
+  VENUE_WITH_FACILITIES_SELECT,
+  EVENT_FACILITIES_SELECT,
+  EventWithFacilities,
+  getRequestedRanges,
+  findOverlappingRange,
+  snapshotMatch,
+} from "@/utils/venueSelection";
+import {
+  MAX_OCCURRENCES,
+  NO_RECURRENCE,
+  exceedsOccurrenceLimit,
+  inputFromRule,
+  ruleFromInput,
+} from "@/utils/recurrence";
+import { Json, Tables } from "@/integrations/supabase/types";
+import ScoreBreakdownCard from "@/components/ScoreBreakdownCard";
+import RecurrenceFields from "@/components/RecurrenceFields";
+import { COMPUTING_REQUIREMENTS, EVENT_CATEGORIES, SPACE_TYPES } from "@/utils/eventOptions";
 
-type Venue = Tables<'venues'>;
+type Venue = VenueWithFacilities;
+type Facility = Tables<'facilities'>;
+type VenueBooking = Tables<'venue_bookings'>;
+type VenueBlackout = Tables<'venue_blackouts'>;
+type EditedEvent = EventWithFacilities & { event_venues: { venue_id: string }[] };
 
-const FACILITY_OPTIONS = [
-  "Projector", "Sound System", "AC", "Whiteboard", "Internet", "Stage", 
-  "Seating", "Open Ground", "Computers", "High-Speed WiFi", "Lighting", 
-  "Food Stalls", "Temporary Stalls"
-];
+// How far ahead the slot search looks by default, and how many slots it offers
+const SLOT_SEARCH_DAYS = 14;
+const SLOT_SUGGESTION_LIMIT = 5;
 
-const COMPUTING_REQUIREMENTS = [
-  "Computer Lab", "High-speed WiFi", "Projector", "Extra Power Outlets"
-];
-
-const EVENT_CATEGORIES = [
-  "Cultural", "Sports", "Fun Activity", "Debate", "Performance", 
-  "Food Stall", "Treasure Hunt", "Fashion Show"
-];
-
-const SPACE_TYPES = [
-  "Indoor Hall", "Outdoor Ground", "Stage", "Classroom"
-];
+const formatTime = (time: string) => format(new Date(`2000-01-01T${time}`), 'h:mm a');
 
 const eventSchema = z.object({
   title: z.string().min(3, "Event title must be at least 3 characters"),
@@ -49,9 +69,16 @@ const eventSchema = z.object({
   date: z.date(),
   timeSlot: z.string().min(1, "Please select a time slot"),
   duration: z.number().min(1, "Duration must be at least 1 hour"),
-  facilitiesRequired: z.array(z.string()),
+  spanDays: z.number().int().min(1).max(14, "Events can run for at most 14 days"),
+  recurrenceRule: z.string().nullable(),
+  facilitiesRequired: z.array(z.object({
+    facilityId: z.string(),
+    name: z.string(),
+    quantity: z.number().int().min(1, "Facility quantities must be at least 1"),
+  })),
   priority: z.enum(["high", "medium", "low"]),
   venueId: z.string().min(1, "Please select a venue"),
+  additionalVenueIds: z.array(z.string()),
   // Technical specific
   computingRequirement: z.array(z.string()).optional(),
   isGroupEvent: z.boolean().optional(),
@@ -66,12 +93,41 @@ const eventSchema = z.object({
   audienceParticipation: z.boolean().optional(),
 });
 
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * Whether saving would change what an approved event's bookings were approved for: its schedule,
+ * venues, headcount or facilities
+ */
+const isMaterialChange = (event: EditedEvent, changes: z.infer<typeof eventSchema>) =>
+  event.event_date !== format(changes.date, 'yyyy-MM-dd') ||
+  event.time_slot?.slice(0, 5) !== changes.timeSlot ||
+  event.duration_hours !== changes.duration ||
+  event.span_days !== changes.spanDays ||
+  event.recurrence_rule !== changes.recurrenceRule ||
+  event.venue_id !== changes.venueId ||
+  !sameIds(event.event_venues.map(extra => extra.venue_id), changes.additionalVenueIds) ||
+  event.student_count !== changes.studentCount ||
+  event.event_facilities.length !== changes.facilitiesRequired.length ||
+  !changes.facilitiesRequired.every(facility => event.event_facilities.some(required =>
+    required.facility_id === facility.facilityId && required.quantity === facility.quantity
+  ));
+
 const AddEvent = () => {
   const [step, setStep] = useState(1);
   const [venues, setVenues] = useState<Venue[]>([]);
+  const [facilityCatalogue, setFacilityCatalogue] = useState<Facility[]>([]);
+  const [bookings, setBookings] = useState<VenueBooking[]>([]);
+  const [blackouts, setBlackouts] = useState<VenueBlackout[]>([]);
+  const [policy, setPolicy] = useState<SelectionPolicy>(DEFAULT_SELECTION_POLICY);
   const [loading, setLoading] = useState(false);
   const [venueMatches, setVenueMatches] = useState<VenueMatch[]>([]);
   const [alternatives, setAlternatives] = useState<VenueMatch[]>([]);
+  const [splits, setSplits] = useState<VenueSplit[]>([]);
+  const [slotRange, setSlotRange] = useState({ from: "", to: "" });
+  const [slotSuggestions, setSlotSuggestions] = useState<SlotSuggestion[] | null>(null);
+  // Set when the wizard edits an existing event rather than creating one
+  const [editedEvent, setEditedEvent] = useState<EditedEvent | null>(null);
   const [formData, setFormData] = useState({
     // Basic fields
     title: "",
@@ -81,9 +137,14 @@ const AddEvent = () => {
     date: null as Date | null,
     timeSlot: "",
     duration: 2,
-    facilitiesRequired: [] as string[],
+    // Multi-day and repeating events
+    spanDays: 1,
+    recurrence: NO_RECURRENCE,
+    facilitiesRequired: [] as FacilityRequirement[],
     priority: "medium",
     venueId: "",
+    // Further venues when the event is split across several
+    additionalVenueIds: [] as string[],
     // Technical specific
     computingRequirement: [] as string[],
     isGroupEvent: false,
@@ -98,18 +159,78 @@ const AddEvent = () => {
     audienceParticipation: false,
   });
 
-  const { user } = useAuth();
+  const { id: editedEventId } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchVenues();
-  }, []);
+  const fetchEditedEvent = useCallback(async (eventId: string, userId: string | undefined) => {
+    const { data, error } = await supabase
+      .from('events')
+      .select(`*, ${EVENT_FACILITIES_SELECT}, event_venues (venue_id)`)
+      .eq('id', eventId)
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error fetching event",
+        description: error.message,
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+
+    if (data.user_id !== userId || !['draft', 'pending', 'changes_requested', 'approved'].includes(data.status)) {
+      toast({
+        title: "Event cannot be edited",
+        description: data.user_id !== userId
+          ? "Only the organiser can edit this event"
+          : `This event has been ${data.status}`,
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+
+    setEditedEvent(data);
+    setFormData(current => ({
+      ...current,
+      title: data.title,
+      type: data.type,
+      topic: data.topic ?? "",
+      studentCount: data.student_count?.toString() ?? "",
+      date: new Date(`${data.event_date}T00:00`),
+      timeSlot: (data.time_slot ?? "").slice(0, 5),
+      duration: data.duration_hours ?? 2,
+      spanDays: data.span_days,
+      recurrence: inputFromRule(data.recurrence_rule),
+      facilitiesRequired: data.event_facilities.map(required => ({
+        facilityId: required.facility_id,
+        name: required.facilities?.name ?? required.facility_id,
+        quantity: required.quantity,
+      })),
+      priority: data.priority ?? "medium",
+      venueId: data.venue_id,
+      additionalVenueIds: data.event_venues.map(extra => extra.venue_id),
+      computingRequirement: data.computing_requirement ?? [],
+      isGroupEvent: data.is_group_event ?? false,
+      numberOfTeams: data.number_of_teams ?? 0,
+      evaluationSetup: data.evaluation_setup ?? false,
+      eventCategory: data.event_category ?? "",
+      spaceType: data.space_type ?? "",
+      stageRequirement: data.stage_requirement ?? false,
+      soundRequirement: data.sound_requirement ?? false,
+      stallsNeeded: data.stalls_needed ?? 0,
+      audienceParticipation: data.audience_participation ?? false,
+    }));
+  }, [navigate, toast]);
 
-  const fetchVenues = async () => {
+  const fetchVenues = useCallback(async () => {
     const { data, error } = await supabase
       .from('venues')
-      .select('*')
+      .select(VENUE_WITH_FACILITIES_SELECT)
+      .is('archived_at', null)
       .order('area_sqft', { ascending: true });
 
     if (error) {
@@ -121,27 +242,221 @@ const AddEvent = () => {
     } else {
       setVenues(data || []);
     }
-  };
+  }, [toast]);
 
-  const runVenueAlgorithm = () => {
-    if (!formData.date || !formData.timeSlot || !formData.studentCount) return;
+  const fetchFacilityCatalogue = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('facilities')
+      .select('*')
+      .order('name', { ascending: true });
 
-    const algorithm = new VenueSelectionAlgorithm(venues);
-    const dateTimeString = `${format(formData.date, 'yyyy-MM-dd')} ${formData.timeSlot}`;
-    
-    const results = algorithm.findBestVenues({
-      participants: parseInt(formData.studentCount),
-      facilitiesRequired: formData.facilitiesRequired,
-      preferredDateTime: dateTimeString,
-      priority: formData.priority as 'high' | 'medium' | 'low',
-      eventType: formData.type as 'technical' | 'non-technical',
-      spaceType: formData.spaceType,
+    if (error) {
+      toast({
+        title: "Error fetching facilities",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setFacilityCatalogue(data || []);
+    }
+  }, [toast]);
+
+  const fetchBookings = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('venue_bookings')
+      .select('*')
+      .gte('ends_at', new Date().toISOString());
+
+    if (error) {
+      toast({
+        title: "Error fetching venue bookings",
+        description: error.message,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    // An edited event must not clash with the slots it already holds
+    const relevant = (data || []).filter(booking => !editedEventId || booking.event_id !== editedEventId);
+    setBookings(relevant);
+    return relevant;
+  }, [editedEventId, toast]);
+
+  const fetchBlackouts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('venue_blackouts')
+      .select('*');
+
+    if (error) {
+      toast({
+        title: "Error fetching venue blackouts",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setBlackouts(data || []);
+    }
+  }, [toast]);
+
+  const fetchPolicy = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('selection_policies')
+      .select('*')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      toast({
+        title: "Error fetching selection policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPolicy(policyFromRow(data));
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchVenues();
+    fetchFacilityCatalogue();
+    fetchBookings();
+    fetchBlackouts();
+    fetchPolicy();
+  }, [fetchVenues, fetchFacilityCatalogue, fetchBookings, fetchBlackouts, fetchPolicy]);
+
+  // Ownership can only be checked once the session has been restored
+  useEffect(() => {
+    if (editedEventId && !authLoading) fetchEditedEvent(editedEventId, user?.id);
+  }, [editedEventId, authLoading, user?.id, fetchEditedEvent]);
+
+  const toggleFacility = (facility: Facility, checked: boolean) => {
+    setFormData({
+      ...formData,
+      facilitiesRequired: checked
+        ? [...formData.facilitiesRequired, { facilityId: facility.id, name: facility.name, quantity: 1 }]
+        : formData.facilitiesRequired.filter(f => f.facilityId !== facility.id),
     });
+  };
+
+  const setFacilityQuantity = (facilityId: string, quantity: number) => {
+    setFormData({
+      ...formData,
+      facilitiesRequired: formData.facilitiesRequired.map(f => f.facilityId === facilityId ? { ...f, quantity } : f),
+    });
+  };
+
+  const formatVenueFacility = (facility: Venue['venue_facilities'][number]) =>
+    `${facility.quantity > 1 ? `${facility.quantity} × ` : ''}${facility.facilities?.name ?? facility.facility_id}` +
+    (facility.status === 'on_request' ? ' (on request)' : '');
+
+  const buildRequirements = (data: typeof formData, dateTimeString: string): EventRequirements => ({
+    participants: parseInt(data.studentCount),
+    facilitiesRequired: data.facilitiesRequired,
+    preferredDateTime: dateTimeString,
+    durationHours: data.duration,
+    spanDays: data.spanDays,
+    recurrenceRule: ruleFromInput(data.recurrence),
+    priority: data.priority as 'high' | 'medium' | 'low',
+    eventType: data.type as 'technical' | 'non-technical',
+    eventCategory: data.eventCategory || undefined,
+    spaceType: data.spaceType,
+    computingRequirement: data.computingRequirement,
+    isGroupEvent: data.isGroupEvent,
+    numberOfTeams: data.numberOfTeams,
+    evaluationSetup: data.evaluationSetup,
+    stageRequirement: data.stageRequirement,
+    soundRequirement: data.soundRequirement,
+    stallsNeeded: data.stallsNeeded,
+    audienceParticipation: data.audienceParticipation,
+  });
+
+  const runVenueAlgorithm = (data = formData, currentBookings = bookings) => {
+    if (!data.date || !data.timeSlot || !data.studentCount) return;
+
+    const algorithm = new VenueSelectionAlgorithm(venues, currentBookings, blackouts, policy);
+    const date = format(data.date, 'yyyy-MM-dd');
+    const requirements = buildRequirements(data, `${date} ${data.timeSlot}`);
+    const results = algorithm.findBestVenues(requirements);
 
     setVenueMatches(results.exactMatches);
     setAlternatives(results.alternatives);
+    // Only offer splitting the event when no single venue can hold it
+    const nextSplits = results.exactMatches.length === 0 ? algorithm.findVenueSplits(requirements) : [];
+    setSplits(nextSplits);
+    setSlotRange({ from: date, to: format(addDays(data.date, SLOT_SEARCH_DAYS), 'yyyy-MM-dd') });
+    setSlotSuggestions(null);
+    // A split picked for earlier answers may no longer fit
+    if (data.additionalVenueIds.length > 0 && !nextSplits.some(split => isSplitSelected(split, data))) {
+      setFormData({ ...data, venueId: "", additionalVenueIds: [] });
+    }
+    return { matches: results.exactMatches, splits: nextSplits };
   };
 
+  /**
+   * Someone else's event was approved or moved while this one is being planned: re-score the venues on
+   * step 2 and let the organiser know if the venue they picked has just been taken
+   */
+  const handleBookingsChanged = async () => {
+    const latest = await fetchBookings();
+    if (!latest || step !== 2) return;
+
+    const pickedSplit = splits.find(split => isSplitSelected(split));
+    const wasFree = !!pickedSplit || venueMatches.some(match => match.venue.id === formData.venueId);
+    const results = runVenueAlgorithm(formData, latest);
+    if (!results || !wasFree) return;
+
+    const stillFree = pickedSplit
+      ? results.splits.some(split => isSplitSelected(split))
+      : results.matches.some(match => match.venue.id === formData.venueId);
+    if (!stillFree) {
+      setFormData(current => ({ ...current, venueId: "", additionalVenueIds: [] }));
+      toast({
+        title: "Venue just booked",
+        description: `${venues.find(venue => venue.id === formData.venueId)?.name ?? "The venue you picked"} was booked for this time while you were choosing. Please pick another venue or time.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useRealtimeChanges('venue_bookings', handleBookingsChanged);
+
+  const findSlots = () => {
+    if (!slotRange.from || !slotRange.to) return;
+
+    const algorithm = new VenueSelectionAlgorithm(venues, bookings, blackouts, policy);
+    const requirements = buildRequirements(formData, `${slotRange.from} ${formData.timeSlot}`);
+    setSlotSuggestions(
+      algorithm.findAvailableSlots(requirements, slotRange.from, slotRange.to, SLOT_SUGGESTION_LIMIT)
+    );
+  };
+
+  const applySlot = (suggestion: SlotSuggestion) => {
+    const next = {
+      ...formData,
+      date: new Date(`${suggestion.date}T00:00`),
+      timeSlot: suggestion.startTime,
+      venueId: suggestion.venue.id,
+      additionalVenueIds: [],
+    };
+    setFormData(next);
+    runVenueAlgorithm(next);
+  };
+
+  const selectVenue = (venueId: string) => {
+    setFormData({ ...formData, venueId, additionalVenueIds: [] });
+  };
+
+  const selectSplit = (split: VenueSplit) => {
+    const [primary, ...additional] = split.venues;
+    setFormData({ ...formData, venueId: primary.id, additionalVenueIds: additional.map(venue => venue.id) });
+  };
+
+  const isSplitSelected = (split: VenueSplit, data = formData) =>
+    data.venueId === split.venues[0].id &&
+    data.additionalVenueIds.length === split.venues.length - 1 &&
+    split.venues.slice(1).every(venue => data.additionalVenueIds.includes(venue.id));
+
   const handleNextStep = () => {
     if (step === 1) {
       // Validate basic details
@@ -185,6 +500,34 @@ const AddEvent = () => {
         });
         return;
       }
+      if (formData.recurrence.freq !== 'NONE' && formData.recurrence.ends === 'until' && !formData.recurrence.until) {
+        toast({
+          title: "Validation Error",
+          description: "Please pick the date the series ends on",
+          variant: "destructive",
+        });
+        return;
+      }
+      const startDate = format(formData.date, 'yyyy-MM-dd');
+      if (exceedsOccurrenceLimit(startDate, ruleFromInput(formData.recurrence))) {
+        toast({
+          title: "Validation Error",
+          description: `A series can have at most ${MAX_OCCURRENCES} occurrences; please end it sooner`,
+          variant: "destructive",
+        });
+        return;
+      }
+      const overlapping = findOverlappingRange(
+        getRequestedRanges(buildRequirements(formData, `${startDate} ${formData.timeSlot}`))
+      );
+      if (overlapping) {
+        toast({
+          title: "Validation Error",
+          description: `The occurrence on ${format(overlapping.start, 'PPP')} starts before the one before it ends; repeat the event less often or shorten it`,
+          variant: "destructive",
+        });
+        return;
+      }
       if (formData.type === "technical") {
         if (!formData.topic.trim()) {
           toast({
@@ -212,48 +555,53 @@ const AddEvent = () => {
     setStep(step + 1);
   };
 
-  const handleSubmit = async () => {
+  const validationInput = () => ({
+    title: formData.title.trim(),
+    type: formData.type as "technical" | "non-technical",
+    topic: formData.topic || undefined,
+    studentCount: parseInt(formData.studentCount),
+    date: formData.date!,
+    timeSlot: formData.timeSlot,
+    duration: formData.duration,
+    spanDays: formData.spanDays,
+    recurrenceRule: ruleFromInput(formData.recurrence),
+    facilitiesRequired: formData.facilitiesRequired,
+    priority: formData.priority as "high" | "medium" | "low",
+    venueId: formData.venueId,
+    additionalVenueIds: formData.additionalVenueIds,
+    computingRequirement: formData.computingRequirement,
+    isGroupEvent: formData.isGroupEvent,
+    numberOfTeams: formData.numberOfTeams,
+    evaluationSetup: formData.evaluationSetup,
+    eventCategory: formData.eventCategory || undefined,
+    spaceType: formData.spaceType || undefined,
+    stageRequirement: formData.stageRequirement,
+    soundRequirement: formData.soundRequirement,
+    stallsNeeded: formData.stallsNeeded,
+    audienceParticipation: formData.audienceParticipation,
+  });
+
+  /**
+   * Save the wizard: new events are submitted for approval unless kept as a draft, which only the organiser sees
+   */
+  const handleSubmit = async (asDraft = false) => {
     setLoading(true);
     
     try {
-      const validationData = {
-        title: formData.title.trim(),
-        type: formData.type as "technical" | "non-technical",
-        topic: formData.topic || undefined,
-        studentCount: parseInt(formData.studentCount),
-        date: formData.date!,
-        timeSlot: formData.timeSlot,
-        duration: formData.duration,
-        facilitiesRequired: formData.facilitiesRequired,
-        priority: formData.priority as "high" | "medium" | "low",
-        venueId: formData.venueId,
-        computingRequirement: formData.computingRequirement,
-        isGroupEvent: formData.isGroupEvent,
-        numberOfTeams: formData.numberOfTeams,
-        evaluationSetup: formData.evaluationSetup,
-        eventCategory: formData.eventCategory || undefined,
-        spaceType: formData.spaceType || undefined,
-        stageRequirement: formData.stageRequirement,
-        soundRequirement: formData.soundRequirement,
-        stallsNeeded: formData.stallsNeeded,
-        audienceParticipation: formData.audienceParticipation,
-      };
+      const validation = eventSchema.parse(validationInput());
 
-      const validation = eventSchema.parse(validationData);
-
-      const eventData = {
+      const eventDetails = {
         title: validation.title,
         type: validation.type,
         topic: validation.topic || null,
         student_count: validation.studentCount,
-        event_date: validation.date.toISOString().split('T')[0],
+        event_date: format(validation.date, 'yyyy-MM-dd'),
         time_slot: validation.timeSlot,
         duration_hours: validation.duration,
-        facilities_required: validation.facilitiesRequired,
+        span_days: validation.spanDays,
+        recurrence_rule: validation.recurrenceRule,
         priority: validation.priority,
         venue_id: validation.venueId,
-        user_id: user?.id,
-        status: 'pending',
         // Technical fields
         computing_requirement: validation.computingRequirement || [],
         is_group_event: validation.isGroupEvent || false,
@@ -268,23 +616,74 @@ const AddEvent = () => {
         audience_participation: validation.audienceParticipation || false,
       };
 
-      const { error } = await supabase
-        .from('events')
-        .insert([eventData]);
+      // How the chosen venue scored, kept so approvers see what the organiser saw
+      const chosenMatch = validation.additionalVenueIds.length === 0
+        ? [...venueMatches, ...alternatives].find(match => match.venue.id === validation.venueId)
+        : undefined;
+      const scoring = {
+        selection_policy_id: policy.id,
+        venue_match: chosenMatch ? snapshotMatch(chosenMatch) as unknown as Json : null,
+      };
+
+      // Changing the booking of an approved event sends it back for approval and frees its slots
+      const material = !editedEvent || isMaterialChange(editedEvent, validation);
+      const reopen = material && editedEvent?.status === 'approved';
+      // Saving is how organisers answer a request for changes
+      const resubmit = editedEvent?.status === 'changes_requested';
+      const submit = editedEvent?.status === 'draft' && !asDraft;
+
+      const ranges = getRequestedRanges(
+        buildRequirements(formData, `${eventDetails.event_date} ${validation.timeSlot}`)
+      );
+
+      // The event and everything hanging off it are written in one transaction
+      const { error } = await supabase.rpc('save_event', {
+        _event_id: editedEvent?.id,
+        _details: material ? { ...eventDetails, ...scoring } : eventDetails,
+        _occurrences: ranges.map(range => ({
+          starts_at: range.start.toISOString(),
+          ends_at: range.end.toISOString(),
+        })),
+        _venue_ids: validation.additionalVenueIds,
+        _facilities: validation.facilitiesRequired.map(facility => ({
+          facility_id: facility.facilityId,
+          quantity: facility.quantity,
+        })),
+        _reschedule: material,
+        _submit: !asDraft,
+      });
 
       if (error) {
         toast({
-          title: "Error creating event",
+          title: editedEvent ? "Error updating event" : "Error creating event",
           description: error.message,
           variant: "destructive",
         });
+        return;
+      }
+
+      if (!editedEvent) {
+        toast({
+          title: asDraft ? "Draft saved" : "Event Created Successfully",
+          description: asDraft
+            ? "Only you can see this draft. Submit it for approval from My Events when it is ready."
+            : "Your event has been submitted for admin approval.",
+        });
       } else {
         toast({
-          title: "Event Created Successfully",
-          description: "Your event has been submitted for admin approval.",
+          title: reopen
+            ? "Event sent back for approval"
+            : resubmit ? "Event resubmitted" : submit ? "Event submitted" : asDraft ? "Draft saved" : "Event updated",
+          description: reopen
+            ? "Your changes affect the event's booking, so it needs approving again. Its previous venue slots have been released."
+            : resubmit
+              ? "Your changes have been saved and the event is back in the approval queue."
+              : submit
+                ? "Your event has been submitted for admin approval."
+                : "Your changes have been saved.",
         });
-        navigate("/");
       }
+      navigate("/");
     } catch (error) {
       if (error instanceof z.ZodError) {
         toast({
@@ -299,7 +698,13 @@ const AddEvent = () => {
   };
 
   const selectedVenue = venues.find(v => v.id === formData.venueId);
-  const selectedMatch = venueMatches.find(m => m.venue.id === formData.venueId);
+  const selectedMatch = [...venueMatches, ...alternatives].find(m => m.venue.id === formData.venueId);
+  const selectedSplit = splits.find(split => isSplitSelected(split));
+  // New events and drafts can be saved without submitting them
+  const isDraft = !editedEventId || editedEvent?.status === 'draft';
+  const editedChanges = editedEvent?.status === 'approved' ? eventSchema.safeParse(validationInput()) : null;
+  const needsReapproval = !!editedEvent && !!editedChanges?.success && isMaterialChange(editedEvent, editedChanges.data);
+  const derivedConstraints = (venueMatches[0] ?? alternatives[0])?.breakdown.derived ?? [];
 
   return (
     <div className="max-w-2xl mx-auto space-y-8">
@@ -309,7 +714,7 @@ const AddEvent = () => {
           Back to Dashboard
         </Button>
         <div>
-          <h1 className="text-3xl font-bold">Add New Event</h1>
+          <h1 className="text-3xl font-bold">{editedEventId ? "Edit Event" : "Add New Event"}</h1>
           <p className="text-muted-foreground">Step {step} of 2</p>
         </div>
       </div>
@@ -415,11 +820,23 @@ const AddEvent = () => {
                       <SelectItem value="14:00">2:00 PM</SelectItem>
                       <SelectItem value="15:00">3:00 PM</SelectItem>
                       <SelectItem value="16:00">4:00 PM</SelectItem>
+                      {/* Start times picked from the slot search fall between the standard ones */}
+                      {formData.timeSlot && !STANDARD_START_TIMES.includes(formData.timeSlot) && (
+                        <SelectItem value={formData.timeSlot}>{formatTime(formData.timeSlot)}</SelectItem>
+                      )}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
+              <RecurrenceFields
+                value={formData.recurrence}
+                onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                spanDays={formData.spanDays}
+                onSpanDaysChange={(spanDays) => setFormData({ ...formData, spanDays })}
+                startDate={formData.date}
+              />
+
               <div className="space-y-2">
                 <Label>Event Priority</Label>
                 <Select value={formData.priority} onValueChange={(value) => setFormData({ ...formData, priority: value })}>
@@ -437,28 +854,30 @@ const AddEvent = () => {
               <div className="space-y-2">
                 <Label>Facilities Required</Label>
                 <div className="grid grid-cols-3 gap-2">
-                  {FACILITY_OPTIONS.map((facility) => (
-                    <div key={facility} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={facility}
-                        checked={formData.facilitiesRequired.includes(facility)}
-                        onCheckedChange={(checked) => {
-                          if (checked) {
-                            setFormData({
-                              ...formData,
-                              facilitiesRequired: [...formData.facilitiesRequired, facility]
-                            });
-                          } else {
-                            setFormData({
-                              ...formData,
-                              facilitiesRequired: formData.facilitiesRequired.filter(f => f !== facility)
-                            });
-                          }
-                        }}
-                      />
-                      <Label htmlFor={facility} className="text-sm">{facility}</Label>
-                    </div>
-                  ))}
+                  {facilityCatalogue.map((facility) => {
+                    const requested = formData.facilitiesRequired.find(f => f.facilityId === facility.id);
+
+                    return (
+                      <div key={facility.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`facility-${facility.id}`}
+                          checked={!!requested}
+                          onCheckedChange={(checked) => toggleFacility(facility, !!checked)}
+                        />
+                        <Label htmlFor={`facility-${facility.id}`} className="text-sm">{facility.name}</Label>
+                        {requested && facility.countable && (
+                          <Input
+                            type="number"
+                            min={1}
+                            className="h-7 w-16"
+                            aria-label={`${facility.name} quantity`}
+                            value={requested.quantity}
+                            onChange={(e) => setFacilityQuantity(facility.id, parseInt(e.target.value) || 1)}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -639,9 +1058,23 @@ const AddEvent = () => {
         <Card>
           <CardHeader>
             <CardTitle>Smart Venue Selection</CardTitle>
-            <CardDescription>AI-powered venue matching based on your requirements</CardDescription>
+            <CardDescription>
+              AI-powered venue matching based on your requirements
+              {policy.version !== null && ` · scored with selection policy v${policy.version}`}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            {derivedConstraints.length > 0 && (
+              <div className="p-4 bg-accent rounded-lg">
+                <h4 className="font-semibold text-sm mb-2">How your answers shaped the search:</h4>
+                <ul className="list-disc pl-5 space-y-1 text-xs text-muted-foreground">
+                  {derivedConstraints.map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Perfect Matches */}
             {venueMatches.length > 0 && (
               <div className="space-y-4">
@@ -655,9 +1088,9 @@ const AddEvent = () => {
                       key={match.venue.id}
                       className={cn(
                         "cursor-pointer transition-colors hover:bg-accent border-green-200",
-                        formData.venueId === match.venue.id && "ring-2 ring-green-500 bg-green-50"
+                        formData.venueId === match.venue.id && !selectedSplit && "ring-2 ring-green-500 bg-green-50"
                       )}
-                      onClick={() => setFormData({ ...formData, venueId: match.venue.id })}
+                      onClick={() => selectVenue(match.venue.id)}
                     >
                       <CardContent className="p-6">
                         <div className="flex items-start justify-between">
@@ -683,18 +1116,21 @@ const AddEvent = () => {
                             <p className="text-xs text-muted-foreground">{match.venue.area_sqft} sq ft</p>
                           </div>
                         </div>
-                        {match.venue.facilities && match.venue.facilities.length > 0 && (
+                        {match.venue.venue_facilities.length > 0 && (
                           <div className="mt-3 pt-3 border-t">
                             <p className="text-xs text-muted-foreground mb-1">Available Facilities:</p>
                             <div className="flex flex-wrap gap-1">
-                              {match.venue.facilities.map((facility, idx) => (
-                                <span key={idx} className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded">
-                                  {facility}
+                              {match.venue.venue_facilities.map((facility) => (
+                                <span key={facility.facility_id} className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded">
+                                  {formatVenueFacility(facility)}
                                 </span>
                               ))}
                             </div>
                           </div>
                         )}
+                        <div className="mt-3">
+                          <ScoreBreakdownCard match={match} />
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
@@ -715,9 +1151,9 @@ const AddEvent = () => {
                       key={alt.venue.id}
                       className={cn(
                         "cursor-pointer transition-colors hover:bg-accent border-orange-200",
-                        formData.venueId === alt.venue.id && "ring-2 ring-orange-500 bg-orange-50"
+                        formData.venueId === alt.venue.id && !selectedSplit && "ring-2 ring-orange-500 bg-orange-50"
                       )}
-                      onClick={() => setFormData({ ...formData, venueId: alt.venue.id })}
+                      onClick={() => selectVenue(alt.venue.id)}
                     >
                       <CardContent className="p-6">
                         <div className="flex items-start justify-between">
@@ -743,18 +1179,81 @@ const AddEvent = () => {
                             <p className="text-xs text-muted-foreground">{alt.venue.area_sqft} sq ft</p>
                           </div>
                         </div>
-                        {alt.venue.facilities && alt.venue.facilities.length > 0 && (
+                        {alt.venue.venue_facilities.length > 0 && (
                           <div className="mt-3 pt-3 border-t">
                             <p className="text-xs text-muted-foreground mb-1">Available Facilities:</p>
                             <div className="flex flex-wrap gap-1">
-                              {alt.venue.facilities.map((facility, idx) => (
-                                <span key={idx} className="px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded">
-                                  {facility}
+                              {alt.venue.venue_facilities.map((facility) => (
+                                <span key={facility.facility_id} className="px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded">
+                                  {formatVenueFacility(facility)}
                                 </span>
                               ))}
                             </div>
                           </div>
                         )}
+                        <div className="mt-3">
+                          <ScoreBreakdownCard match={alt} />
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Split across venues */}
+            {splits.length > 0 && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Layers className="h-5 w-5 text-blue-600" />
+                  <h3 className="text-lg font-semibold text-blue-600">Split Across Venues</h3>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  No single venue fits, but these venues are free at the same time and fit the event together.
+                </p>
+                <div className="grid gap-4">
+                  {splits.map((split) => (
+                    <Card
+                      key={split.venues.map(venue => venue.id).join('+')}
+                      className={cn(
+                        "cursor-pointer transition-colors hover:bg-accent border-blue-200",
+                        isSplitSelected(split) && "ring-2 ring-blue-500 bg-blue-50"
+                      )}
+                      onClick={() => selectSplit(split)}
+                    >
+                      <CardContent className="p-6 space-y-2">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-center space-x-4">
+                            <MapPin className="h-5 w-5 text-blue-600" />
+                            <div>
+                              <h3 className="font-semibold">{split.venues.map(venue => venue.name).join(' + ')}</h3>
+                              <p className="text-xs text-blue-600 mt-1">
+                                {split.buildings === 1
+                                  ? split.floorSpread === 0 ? "Same building and floor" : `Same building, ${split.floorSpread} floor(s) apart`
+                                  : `Spread over ${split.buildings} buildings`}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <div className="flex items-center justify-end gap-1 text-sm mb-2">
+                              <Users className="h-4 w-4" />
+                              {split.capacity}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {split.areaSqft} sq ft for {split.requiredArea} needed
+                            </p>
+                          </div>
+                        </div>
+                        {split.facilities.length > 0 && (
+                          <div className="flex flex-wrap gap-1 pt-2 border-t">
+                            {split.facilities.map((check) => (
+                              <span key={check.facilityId} className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded">
+                                {check.required > 1 && `${check.required} × `}{check.facility}
+                                {check.status === 'on_request' && " (on request)"}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -762,13 +1261,86 @@ const AddEvent = () => {
               </div>
             )}
 
-            {venueMatches.length === 0 && alternatives.length === 0 && (
+            {/* Find a slot */}
+            {venueMatches.length === 0 && (
+              <div className="space-y-4 p-4 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  <h3 className="text-lg font-semibold">Find Me a Slot</h3>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Search other dates and times for a venue that fits everything you asked for.
+                </p>
+                <div className="flex items-end gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="slotFrom">From</Label>
+                    <Input
+                      id="slotFrom"
+                      type="date"
+                      value={slotRange.from}
+                      onChange={(e) => setSlotRange({ ...slotRange, from: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="slotTo">To</Label>
+                    <Input
+                      id="slotTo"
+                      type="date"
+                      value={slotRange.to}
+                      onChange={(e) => setSlotRange({ ...slotRange, to: e.target.value })}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={findSlots} disabled={!slotRange.from || slotRange.to < slotRange.from}>
+                    Search
+                  </Button>
+                </div>
+
+                {slotSuggestions && (slotSuggestions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No free slot fits this event in the chosen dates.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {slotSuggestions.map((suggestion) => (
+                      <div
+                        key={`${suggestion.date}-${suggestion.startTime}-${suggestion.venue.id}`}
+                        className="flex items-center justify-between rounded border p-3 text-sm"
+                      >
+                        <div>
+                          <p className="font-medium">{suggestion.venue.name}</p>
+                          <p className="text-muted-foreground">
+                            {format(new Date(`${suggestion.date}T00:00`), 'EEE, PPP')} · {formatTime(suggestion.startTime)}
+                            {" "}for {formData.duration}h · score {Math.round(suggestion.score)}
+                          </p>
+                        </div>
+                        <Button size="sm" onClick={() => applySlot(suggestion)}>
+                          Use this slot
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {venueMatches.length === 0 && alternatives.length === 0 && splits.length === 0 && (
               <div className="text-center py-8">
                 <p className="text-muted-foreground">No venues found matching your requirements. Please adjust your criteria and try again.</p>
               </div>
             )}
 
-            {(selectedVenue || selectedMatch) && (
+            {selectedSplit && (
+              <div className="p-4 bg-accent rounded-lg">
+                <h4 className="font-semibold text-sm mb-2">Selected Venues:</h4>
+                <ul className="text-sm space-y-1">
+                  {selectedSplit.venues.map((venue, idx) => (
+                    <li key={venue.id}>
+                      <strong>{venue.name}</strong>{idx === 0 && " (main venue)"} · {venue.capacity} people · {venue.area_sqft} sq ft
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {!selectedSplit && (selectedVenue || selectedMatch) && (
               <div className="p-4 bg-accent rounded-lg">
                 <h4 className="font-semibold text-sm mb-2">Selected Venue Details:</h4>
                 <div className="grid grid-cols-2 gap-4 text-sm">
@@ -779,8 +1351,12 @@ const AddEvent = () => {
                   </div>
                   <div>
                     <p><strong>Area:</strong> {selectedVenue?.area_sqft} sq ft</p>
-                    <p><strong>Required:</strong> {formData.studentCount ? parseInt(formData.studentCount) * 6 : 0} sq ft</p>
-                    {selectedMatch && <p><strong>Match Score:</strong> {selectedMatch.score}/100</p>}
+                    {selectedMatch && (
+                      <>
+                        <p><strong>Required:</strong> {selectedMatch.breakdown.requiredArea} sq ft</p>
+                        <p><strong>Match Score:</strong> {Math.round(selectedMatch.score)}</p>
+                      </>
+                    )}
                   </div>
                 </div>
                 {selectedMatch && (
@@ -791,6 +1367,13 @@ const AddEvent = () => {
               </div>
             )}
 
+            {needsReapproval && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                This event is approved. Saving these changes to its schedule, venue, headcount or facilities
+                sends it back for approval and releases its current venue slots.
+              </div>
+            )}
+
             <div className="flex gap-4">
               <Button
                 variant="outline"
@@ -800,12 +1383,28 @@ const AddEvent = () => {
                 <ArrowLeft className="mr-2 h-4 w-4" />
                 Back
               </Button>
+              {isDraft && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleSubmit(true)}
+                  disabled={!formData.venueId || loading}
+                  className="flex-1"
+                >
+                  {editedEventId ? "Save Draft" : "Save as Draft"}
+                </Button>
+              )}
               <Button
-                onClick={handleSubmit}
+                onClick={() => handleSubmit()}
                 disabled={!formData.venueId || loading}
                 className="flex-1"
               >
-                {loading ? "Creating Event..." : "Create Event"}
+                {editedEventId
+                  ? loading
+                    ? "Saving Changes..."
+                    : editedEvent?.status === 'changes_requested'
+                      ? "Save & Resubmit"
+                      : isDraft ? "Submit for Approval" : "Save Changes"
+                  : loading ? "Creating Event..." : "Create Event"}
               </Button>
             </div>
           </CardContent>
@@ -3,134 +3,311 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { Check, X, Calendar, MapPin, Users, BookOpen, Shield } from "lucide-react";
-import { useNavigate } from "react-router-dom";
-
-interface Event {
-  id: string;
-  title: string;
-  type: string;
-  topic: string | null;
-  student_count: number | null;
-  event_date: string;
-  status: string;
-  created_at: string;
-  venues: {
-    name: string;
-    capacity: number;
-  };
-  creator_name?: string;
+import {
+  useApproveEvent,
+  useCancelEventOccurrences,
+  useProposePreemption,
+  useReviewQueue,
+  useSignOffEvent,
+} from "@/hooks/useEvents";
+import { useBlackoutConflicts } from "@/hooks/useBookings";
+import { useVenueOptions } from "@/hooks/useVenues";
+import { useProfileOptions } from "@/hooks/useProfiles";
+import { useRealtimeChanges } from "@/hooks/useRealtime";
+import { Check, X, Calendar, MapPin, Users, BookOpen, Shield, CalendarOff, Wand2, SlidersHorizontal, Repeat, Ban, MessageSquare, ListChecks, ScrollText } from "lucide-react";
+import { useNavigate, Link, useSearchParams } from "react-router-dom";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import ApprovalConflictDialog from "@/components/ApprovalConflictDialog";
+import { VenueSelectionAlgorithm, VenueMatch, requirementsFromEvent, getRequestedRange } from "@/utils/venueSelection";
+import { findRelocation } from "@/utils/preemption";
+import { describeRecurrence } from "@/utils/recurrence";
+import OccurrenceList from "@/components/OccurrenceList";
+import CancelEventDialog from "@/components/CancelEventDialog";
+import ReviewEventDialog, { ReviewDecision } from "@/components/ReviewEventDialog";
+import EventFilterBar from "@/components/EventFilterBar";
+import EventPagination from "@/components/EventPagination";
+import { ApprovalConflict, ReviewEvent, fetchEventWithFacilities } from "@/repositories/events";
+import { fetchProfileNames } from "@/repositories/profiles";
+import { fetchBookableVenues, fetchSelectionPolicy, fetchVenueBlackouts } from "@/repositories/venues";
+import { fetchBookingsFrom } from "@/repositories/bookings";
+import { EVENT_STATUSES, cursorFromParams, filtersFromParams, withFilter } from "@/utils/eventQuery";
+
+type Event = ReviewEvent;
+
+// How a status another approver moved an event to reads in "… just approved" notices
+const DECISION_VERBS: Record<string, string> = {
+  approved: "approved",
+  rejected: "rejected",
+  changes_requested: "requested changes to",
+  cancelled: "cancelled",
+};
+
+interface ConflictState {
+  event: Event;
+  conflicts: ApprovalConflict[];
+  // Set when only some occurrences of a series were being approved
+  occurrenceIds?: string[];
+  alternatives: VenueMatch[];
+  loadingAlternatives: boolean;
 }
 
 const Admin = () => {
-  const [events, setEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
   const [updatingEventId, setUpdatingEventId] = useState<string | null>(null);
-  const { isAdmin } = useAuth();
+  const [conflict, setConflict] = useState<ConflictState | null>(null);
+  const [cancelling, setCancelling] = useState<Event | null>(null);
+  const [reviewing, setReviewing] = useState<{ event: Event; decision: ReviewDecision } | null>(null);
+  const [showAllPending, setShowAllPending] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, isAdmin, capabilities, loading: authLoading } = useAuth();
+  const canApprove = capabilities.canApproveEvents;
+  const canManagePolicy = capabilities.canManagePolicy;
+  const canManageApprovalChains = capabilities.canManageApprovalChains;
+  const canViewAuditLog = capabilities.canViewAuditLog;
   const { toast } = useToast();
   const navigate = useNavigate();
 
+  const tab = EVENT_STATUSES.includes(searchParams.get('tab') ?? '') ? searchParams.get('tab')! : 'pending';
+  const filters = filtersFromParams(searchParams, { sort: 'created_at', ascending: false });
+  const cursor = cursorFromParams(searchParams);
+
   useEffect(() => {
-    if (!isAdmin) {
+    if (authLoading) return;
+    if (!canApprove) {
       toast({
         title: "Access Denied",
-        description: "You don't have admin permissions",
+        description: "You don't have approver permissions",
         variant: "destructive",
       });
       navigate("/");
-      return;
     }
-    fetchEvents();
-  }, [isAdmin, navigate]);
+  }, [authLoading, canApprove, navigate, toast]);
+
+  const enabled = !authLoading && canApprove;
+  const queueQuery = useReviewQueue({
+    filters,
+    cursor,
+    status: tab,
+    approverId: user?.id ?? '',
+    everyone: isAdmin && showAllPending,
+  }, enabled);
+  const { data: blackoutConflicts = [] } = useBlackoutConflicts(enabled);
+  const { data: venues = [] } = useVenueOptions();
+  const { data: organisers = [] } = useProfileOptions();
+  const approve = useApproveEvent();
+  const signOff = useSignOffEvent();
+  const cancelEventOccurrences = useCancelEventOccurrences();
+  const proposePreemption = useProposePreemption();
+
+  const events = queueQuery.data?.page.rows ?? [];
+  const previousPage = queueQuery.data?.page.previous ?? null;
+  const nextPage = queueQuery.data?.page.next ?? null;
+  const counts = queueQuery.data?.counts ?? {};
+  const loading = queueQuery.isPending;
+
+  /**
+   * Tell the approver when someone else has just decided an event they are looking at or acting on,
+   * and close any dialog open for it; the lists themselves refresh through the realtime sync
+   */
+  const noticeDecision = async (eventId: string, actorId: string | null, verb: string) => {
+    if (!actorId || actorId === user?.id) return;
+
+    const event = [...events, conflict?.event, reviewing?.event, cancelling].find(shown => shown?.id === eventId);
+    if (!event) return;
+
+    if (conflict?.event.id === eventId) setConflict(null);
+    if (reviewing?.event.id === eventId) setReviewing(null);
+    if (cancelling?.id === eventId) setCancelling(null);
 
-  const fetchEvents = async () => {
+    const names = await fetchProfileNames([actorId]).catch(() => ({} as Record<string, string>));
+    toast({
+      title: "Already handled",
+      description: `${names[actorId] ?? "Someone else"} just ${verb} "${event.title}".`,
+    });
+  };
+
+  useRealtimeChanges('event_status_history', ({ new: change }) => {
+    if ('event_id' in change && DECISION_VERBS[change.status]) {
+      noticeDecision(change.event_id, change.changed_by, DECISION_VERBS[change.status]);
+    }
+  }, { event: 'INSERT', enabled });
+
+  // Signing off the last stage approves the event too; that notice follows and takes this one's place
+  useRealtimeChanges('event_approvals', ({ new: signOff }) => {
+    if ('event_id' in signOff) {
+      noticeDecision(signOff.event_id, signOff.approved_by, `signed off ${signOff.stage_name} for`);
+    }
+  }, { event: 'INSERT', enabled });
+
+  const fetchSchedulingData = () =>
+    Promise.all([fetchBookableVenues(), fetchBookingsFrom(new Date()), fetchVenueBlackouts(), fetchSelectionPolicy()]);
+
+  const findAlternatives = async (event: Event) => {
     try {
-      // First get all events with venues
-      const { data: eventsData, error } = await supabase
-        .from('events')
-        .select(`
-          id,
-          title,
-          type,
-          topic,
-          student_count,
-          event_date,
-          status,
-          created_at,
-          user_id,
-          venues (
-            name,
-            capacity
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        toast({
-          title: "Error fetching events",
-          description: error.message,
-          variant: "destructive",
-        });
+      const [venues, bookings, blackouts, policy] = await fetchSchedulingData();
+      const algorithm = new VenueSelectionAlgorithm(
+        venues.filter(venue => venue.id !== event.venue_id),
+        bookings,
+        blackouts,
+        policy
+      );
+      return algorithm.findBestVenues(requirementsFromEvent(event)).exactMatches.slice(0, 3);
+    } catch (error) {
+      toast({
+        title: "Error finding alternative venues",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return [];
+    }
+  };
+
+  const showConflict = async (event: Event, conflicts: ApprovalConflict[], occurrenceIds?: string[]) => {
+    setConflict({ event, conflicts, occurrenceIds, alternatives: [], loadingAlternatives: true });
+    const alternatives = await findAlternatives(event);
+    setConflict(current =>
+      current && current.event.id === event.id
+        ? { ...current, alternatives, loadingAlternatives: false }
+        : current
+    );
+  };
+
+  const approveEvent = async (event: Event, venueId?: string, occurrenceIds?: string[]) => {
+    setUpdatingEventId(event.id);
+
+    try {
+      const result = await approve.mutateAsync({ event, venueId, occurrenceIds });
+
+      if (!result.approved) {
+        // An approved series keeps its venue, and a series overlapping itself clashes anywhere, so
+        // there is nothing to offer instead
+        const selfClash = result.conflicts.some(clash => clash.kind === 'occurrence');
+        if (result.conflicts.length > 0 && event.status === 'pending' && !selfClash) {
+          await showConflict(event, result.conflicts, occurrenceIds);
+        } else {
+          toast({
+            title: "Event not approved",
+            description: result.reason,
+            variant: "destructive",
+          });
+        }
         return;
       }
 
-      // Then get profiles for the users
-      const userIds = eventsData?.map(event => event.user_id) || [];
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('user_id, name')
-        .in('user_id', userIds);
-
-      // Combine the data
-      const eventsWithCreators = eventsData?.map(event => {
-        const creator = profilesData?.find(profile => profile.user_id === event.user_id);
-        return {
-          ...event,
-          creator_name: creator?.name || 'Unknown User'
-        };
-      }) || [];
-
-      setEvents(eventsWithCreators);
+      toast({
+        title: "Event approved",
+        description: result.occurrences && result.occurrences > 1
+          ? `${result.occurrences} occurrences have been approved and their venue slots booked.`
+          : "The event has been approved and its venue slot booked.",
+      });
+      setConflict(null);
+    } catch (error) {
+      toast({
+        title: "Error approving event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingEventId(null);
+    }
+  };
+
+  const signOffEvent = async (event: Event) => {
+    setUpdatingEventId(event.id);
+
+    try {
+      await signOff.mutateAsync(event.id);
+
+      const next = currentStage(event);
+      toast({
+        title: "Stage signed off",
+        description: next
+          ? `"${event.title}" has moved on to ${next.stages[next.index + 1].name}.`
+          : `"${event.title}" has moved on to its next stage.`,
+      });
     } catch (error) {
-      console.error('Error:', error);
+      toast({
+        title: "Error signing off event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     } finally {
-      setLoading(false);
+      setUpdatingEventId(null);
     }
   };
 
-  const updateEventStatus = async (eventId: string, status: 'approved' | 'rejected') => {
-    setUpdatingEventId(eventId);
-    
+  const proposeBump = async (event: Event, blocking: ApprovalConflict) => {
+    setUpdatingEventId(event.id);
+
     try {
-      const { error } = await supabase
-        .from('events')
-        .update({ status })
-        .eq('id', eventId);
+      const [displaced, [venues, bookings, blackouts, policy]] = await Promise.all([
+        fetchEventWithFacilities(blocking.event_id!),
+        fetchSchedulingData(),
+      ]);
+
+      const requirements = requirementsFromEvent(event);
+      const relocation = findRelocation(
+        displaced,
+        {
+          venueId: event.venue_id,
+          range: getRequestedRange(requirements.preferredDateTime, requirements.durationHours, requirements.spanDays),
+        },
+        venues,
+        bookings,
+        blackouts,
+        policy
+      );
 
-      if (error) {
+      if (!relocation) {
         toast({
-          title: "Error updating event",
-          description: error.message,
+          title: "No relocation available",
+          description: `There is no free venue for "${displaced.title}" on ${new Date(displaced.event_date).toLocaleDateString()}.`,
           variant: "destructive",
         });
-      } else {
-        toast({
-          title: `Event ${status}`,
-          description: `The event has been ${status} successfully.`,
-        });
-        
-        // Update local state
-        setEvents(events.map(event => 
-          event.id === eventId 
-            ? { ...event, status }
-            : event
-        ));
+        return;
       }
+
+      await proposePreemption.mutateAsync({
+        eventId: event.id,
+        displacedEventId: displaced.id,
+        venueId: relocation.venue.id,
+        timeSlot: relocation.startTime,
+        note: `Requested for high-priority event "${event.title}"`,
+      });
+
+      toast({
+        title: "Bump proposed",
+        description: `The organiser of "${displaced.title}" has been asked to move to ${relocation.venue.name} at ${relocation.startTime}.`,
+      });
+      setConflict(null);
     } catch (error) {
-      console.error('Error:', error);
+      toast({
+        title: "Error proposing bump",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingEventId(null);
+    }
+  };
+
+  const cancelOccurrences = async (event: Event, occurrenceIds?: string[]) => {
+    setUpdatingEventId(event.id);
+
+    try {
+      const result = await cancelEventOccurrences.mutateAsync({ eventId: event.id, occurrenceIds });
+      toast({
+        title: result.event_status === 'cancelled' ? "Event cancelled" : "Occurrence cancelled",
+        description: `${result.cancelled} occurrence${result.cancelled === 1 ? '' : 's'} cancelled and their venue slots released.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error cancelling event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     } finally {
       setUpdatingEventId(null);
     }
@@ -144,16 +321,59 @@ const Admin = () => {
         return 'secondary';
       case 'rejected':
         return 'destructive';
+      case 'changes_requested':
+        return 'secondary';
+      case 'cancelled':
+        return 'outline';
       default:
         return 'secondary';
     }
   };
 
-  const pendingEvents = events.filter(event => event.status === 'pending');
-  const approvedEvents = events.filter(event => event.status === 'approved');
-  const rejectedEvents = events.filter(event => event.status === 'rejected');
+  // Split events list their primary venue first
+  const venueNames = (event: Event) =>
+    [event.venues, ...event.event_venues.map(extra => extra.venues)].map(venue => venue.name).join(' + ');
+
+  const venueCapacity = (event: Event) =>
+    event.event_venues.reduce((total, extra) => total + extra.venues.capacity, event.venues.capacity);
+
+  // The stage a pending event is waiting on, within its chain's stages in order
+  const currentStage = (event: Event) => {
+    const stages = [...(event.approval_chains?.approval_stages ?? [])].sort((a, b) => a.position - b.position);
+    const index = stages.findIndex(stage => stage.id === event.approval_stage_id);
+    return index === -1 ? null : { stage: stages[index], index, stages };
+  };
+
+  // Events outside any chain can be approved by every approver
+  const isWaitingOnMe = (event: Event) => {
+    const current = currentStage(event);
+    return !current || current.stage.approval_stage_approvers.some(approver => approver.user_id === user?.id);
+  };
+
+  // Only the open tab's page is loaded; right after switching tabs it can still be the previous tab's
+  const eventsIn = (status: string) => tab === status ? events.filter(event => event.status === status) : [];
+  const pendingEvents = eventsIn('pending');
+  const approvedEvents = eventsIn('approved');
+  const changesRequestedEvents = eventsIn('changes_requested');
+  const rejectedEvents = eventsIn('rejected');
+  const cancelledEvents = eventsIn('cancelled');
+
+  // The comment that went with the event's latest rejection or request for changes
+  const latestReview = (event: Event) =>
+    event.event_comments
+      .filter(comment => comment.kind === 'rejected' || comment.kind === 'changes_requested')
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
 
-  if (!isAdmin) {
+  // Only the last stage of a chain approves the event and books its venue
+  const isIntermediateStage = (event: Event) => {
+    const current = currentStage(event);
+    return !!current && current.index < current.stages.length - 1;
+  };
+
+  // Series and multi-day events get their occurrences listed
+  const hasOccurrences = (event: Event) => !!event.recurrence_rule || event.span_days > 1;
+
+  if (!canApprove) {
     return null;
   }
 
@@ -167,21 +387,56 @@ const Admin = () => {
 
   return (
     <div className="space-y-8">
-      <div className="flex items-center gap-2">
-        <Shield className="h-6 w-6" />
-        <div>
-          <h1 className="text-3xl font-bold">Admin Panel</h1>
-          <p className="text-muted-foreground">Manage event approvals and system overview</p>
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Shield className="h-6 w-6" />
+          <div>
+            <h1 className="text-3xl font-bold">Admin Panel</h1>
+            <p className="text-muted-foreground">Manage event approvals and system overview</p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {canViewAuditLog && (
+            <Link to="/admin/audit">
+              <Button variant="outline">
+                <ScrollText className="h-4 w-4 mr-2" />
+                Audit Log
+              </Button>
+            </Link>
+          )}
+          {canManageApprovalChains && (
+            <Link to="/admin/approvals">
+              <Button variant="outline">
+                <ListChecks className="h-4 w-4 mr-2" />
+                Approval Chains
+              </Button>
+            </Link>
+          )}
+          {canManagePolicy && (
+            <Link to="/admin/policy">
+              <Button variant="outline">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Selection Policy
+              </Button>
+            </Link>
+          )}
+          <Link to="/admin/schedule">
+            <Button variant="outline">
+              <Wand2 className="h-4 w-4 mr-2" />
+              Auto-schedule
+            </Button>
+          </Link>
         </div>
       </div>
 
       <div className="grid gap-6 md:grid-cols-3">
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium">Pending Approval</CardTitle>
+            <CardTitle className="text-sm font-medium">Waiting on You</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-secondary-foreground">{pendingEvents.length}</div>
+            <div className="text-2xl font-bold text-secondary-foreground">{counts.pending ?? 0}</div>
           </CardContent>
         </Card>
         
@@ -190,7 +445,7 @@ const Admin = () => {
             <CardTitle className="text-sm font-medium">Approved Events</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-primary">{approvedEvents.length}</div>
+            <div className="text-2xl font-bold text-primary">{counts.approved ?? 0}</div>
           </CardContent>
         </Card>
         
@@ -199,29 +454,71 @@ const Admin = () => {
             <CardTitle className="text-sm font-medium">Total Events</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{events.length}</div>
+            <div className="text-2xl font-bold">
+              {Object.values(counts).reduce((total, count) => total + count, 0)}
+            </div>
           </CardContent>
         </Card>
       </div>
 
-      <Tabs defaultValue="pending" className="space-y-6">
+      {blackoutConflicts.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-sm font-medium text-destructive">
+              <CalendarOff className="h-4 w-4" />
+              Approved events colliding with venue blackouts
+            </CardTitle>
+            <CardDescription>Contact the organisers to move these events</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {blackoutConflicts.map((collision) => (
+              <div key={`${collision.event_id}-${collision.blackout_id}`} className="flex justify-between text-sm">
+                <span className="font-medium">{collision.event_title}</span>
+                <span className="text-muted-foreground">
+                  {new Date(collision.starts_at).toLocaleString()} · {collision.reason}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <EventFilterBar filters={filters} venues={venues} organisers={organisers} showStatus={false} />
+
+      <Tabs
+        value={tab}
+        onValueChange={(value) => setSearchParams(withFilter(searchParams, 'tab', value === 'pending' ? null : value))}
+        className="space-y-6"
+      >
         <TabsList>
           <TabsTrigger value="pending">
-            Pending ({pendingEvents.length})
+            Pending ({counts.pending ?? 0})
           </TabsTrigger>
           <TabsTrigger value="approved">
-            Approved ({approvedEvents.length})
+            Approved ({counts.approved ?? 0})
+          </TabsTrigger>
+          <TabsTrigger value="changes_requested">
+            Changes Requested ({counts.changes_requested ?? 0})
           </TabsTrigger>
           <TabsTrigger value="rejected">
-            Rejected ({rejectedEvents.length})
+            Rejected ({counts.rejected ?? 0})
+          </TabsTrigger>
+          <TabsTrigger value="cancelled">
+            Cancelled ({counts.cancelled ?? 0})
           </TabsTrigger>
         </TabsList>
 
         <TabsContent value="pending" className="space-y-4">
+          {isAdmin && (
+            <div className="flex items-center gap-2">
+              <Switch id="showAllPending" checked={showAllPending} onCheckedChange={setShowAllPending} />
+              <Label htmlFor="showAllPending">Include events waiting on other approvers</Label>
+            </div>
+          )}
           {pendingEvents.length === 0 ? (
             <Card>
               <CardContent className="flex items-center justify-center h-32">
-                <p className="text-muted-foreground">No pending events</p>
+                <p className="text-muted-foreground">No events waiting on you</p>
               </CardContent>
             </Card>
           ) : (
@@ -230,13 +527,15 @@ const Admin = () => {
                 <CardHeader>
                   <div className="flex justify-between items-start">
                     <div>
-                      <CardTitle className="text-lg">{event.title}</CardTitle>
+                      <CardTitle className="text-lg">
+                        <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                      </CardTitle>
                       <CardDescription>
                         Submitted by {event.creator_name}
                       </CardDescription>
                     </div>
                     <Badge variant={getStatusColor(event.status)}>
-                      {event.status}
+                      {event.status.replace('_', ' ')}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -251,11 +550,19 @@ const Admin = () => {
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
                       {new Date(event.event_date).toLocaleDateString()}
+                      {event.span_days > 1 && ` · ${event.span_days} days`}
                     </div>
+
+                    {event.recurrence_rule && (
+                      <div className="flex items-center gap-2">
+                        <Repeat className="h-4 w-4 text-muted-foreground" />
+                        {describeRecurrence(event.recurrence_rule)}
+                      </div>
+                    )}
                     
                     <div className="flex items-center gap-2">
                       <MapPin className="h-4 w-4 text-muted-foreground" />
-                      {event.venues.name} (Capacity: {event.venues.capacity})
+                      {venueNames(event)} (Capacity: {venueCapacity(event)})
                     </div>
                     
                     {event.student_count && (
@@ -264,21 +571,60 @@ const Admin = () => {
                         {event.student_count} students expected
                       </div>
                     )}
+
+                    {currentStage(event) && (
+                      <div className="flex items-center gap-2">
+                        <ListChecks className="h-4 w-4 text-muted-foreground" />
+                        {event.approval_chains?.name}: stage {currentStage(event)!.index + 1} of {currentStage(event)!.stages.length}, {currentStage(event)!.stage.name}
+                        {!isWaitingOnMe(event) && <Badge variant="outline">not assigned to you</Badge>}
+                      </div>
+                    )}
                   </div>
+
+                  {hasOccurrences(event) && event.event_occurrences.length > 0 && (
+                    <OccurrenceList
+                      occurrences={event.event_occurrences}
+                      busy={updatingEventId === event.id}
+                      onApprove={isIntermediateStage(event)
+                        ? undefined
+                        : (occurrenceId) => approveEvent(event, undefined, [occurrenceId])}
+                      onCancel={(occurrenceId) => cancelOccurrences(event, [occurrenceId])}
+                    />
+                  )}
                   
                   <div className="flex gap-2">
+                    {isIntermediateStage(event) ? (
+                      <Button
+                        size="sm"
+                        onClick={() => signOffEvent(event)}
+                        disabled={updatingEventId === event.id}
+                      >
+                        <Check className="h-4 w-4 mr-2" />
+                        Sign Off
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => approveEvent(event)}
+                        disabled={updatingEventId === event.id}
+                      >
+                        <Check className="h-4 w-4 mr-2" />
+                        {hasOccurrences(event) ? "Approve All" : "Approve"}
+                      </Button>
+                    )}
                     <Button
                       size="sm"
-                      onClick={() => updateEventStatus(event.id, 'approved')}
+                      variant="outline"
+                      onClick={() => setReviewing({ event, decision: 'changes_requested' })}
                       disabled={updatingEventId === event.id}
                     >
-                      <Check className="h-4 w-4 mr-2" />
-                      Approve
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Request Changes
                     </Button>
                     <Button
                       size="sm"
                       variant="destructive"
-                      onClick={() => updateEventStatus(event.id, 'rejected')}
+                      onClick={() => setReviewing({ event, decision: 'rejected' })}
                       disabled={updatingEventId === event.id}
                     >
                       <X className="h-4 w-4 mr-2" />
@@ -300,10 +646,76 @@ const Admin = () => {
             </Card>
           ) : (
             approvedEvents.map((event) => (
+              <Card key={event.id}>
+                <CardContent className="space-y-4 p-6">
+                  <div className="flex justify-between items-center">
+                    <div className="space-y-1">
+                      <h3 className="font-semibold">
+                        <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                      </h3>
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          {new Date(event.event_date).toLocaleDateString()}
+                        </span>
+                        {event.recurrence_rule && (
+                          <span className="flex items-center gap-1">
+                            <Repeat className="h-4 w-4" />
+                            {describeRecurrence(event.recurrence_rule)}
+                          </span>
+                        )}
+                        <span className="flex items-center gap-1">
+                          <MapPin className="h-4 w-4" />
+                          {venueNames(event)}
+                        </span>
+                        <span>By {event.creator_name}</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCancelling(event)}
+                        disabled={updatingEventId === event.id}
+                      >
+                        <Ban className="h-4 w-4 mr-2" />
+                        {hasOccurrences(event) ? "Cancel Series" : "Cancel"}
+                      </Button>
+                      <Badge variant={getStatusColor(event.status)}>
+                        {event.status.replace('_', ' ')}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  {hasOccurrences(event) && event.event_occurrences.length > 0 && (
+                    <OccurrenceList
+                      occurrences={event.event_occurrences}
+                      busy={updatingEventId === event.id}
+                      onApprove={(occurrenceId) => approveEvent(event, undefined, [occurrenceId])}
+                      onCancel={(occurrenceId) => cancelOccurrences(event, [occurrenceId])}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="changes_requested" className="space-y-4">
+          {changesRequestedEvents.length === 0 ? (
+            <Card>
+              <CardContent className="flex items-center justify-center h-32">
+                <p className="text-muted-foreground">No events waiting on their organisers</p>
+              </CardContent>
+            </Card>
+          ) : (
+            changesRequestedEvents.map((event) => (
               <Card key={event.id}>
                 <CardContent className="flex justify-between items-center p-6">
                   <div className="space-y-1">
-                    <h3 className="font-semibold">{event.title}</h3>
+                    <h3 className="font-semibold">
+                      <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                    </h3>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <Calendar className="h-4 w-4" />
@@ -311,13 +723,16 @@ const Admin = () => {
                       </span>
                       <span className="flex items-center gap-1">
                         <MapPin className="h-4 w-4" />
-                        {event.venues.name}
+                        {venueNames(event)}
                       </span>
                       <span>By {event.creator_name}</span>
                     </div>
+                    {latestReview(event) && (
+                      <p className="text-sm text-muted-foreground">Reviewer: {latestReview(event).body}</p>
+                    )}
                   </div>
                   <Badge variant={getStatusColor(event.status)}>
-                    {event.status}
+                    {event.status.replace('_', ' ')}
                   </Badge>
                 </CardContent>
               </Card>
@@ -337,7 +752,48 @@ const Admin = () => {
               <Card key={event.id}>
                 <CardContent className="flex justify-between items-center p-6">
                   <div className="space-y-1">
-                    <h3 className="font-semibold">{event.title}</h3>
+                    <h3 className="font-semibold">
+                      <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                    </h3>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {new Date(event.event_date).toLocaleDateString()}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-4 w-4" />
+                        {venueNames(event)}
+                      </span>
+                      <span>By {event.creator_name}</span>
+                    </div>
+                    {latestReview(event) && (
+                      <p className="text-sm text-muted-foreground">Reviewer: {latestReview(event).body}</p>
+                    )}
+                  </div>
+                  <Badge variant={getStatusColor(event.status)}>
+                    {event.status.replace('_', ' ')}
+                  </Badge>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="cancelled" className="space-y-4">
+          {cancelledEvents.length === 0 ? (
+            <Card>
+              <CardContent className="flex items-center justify-center h-32">
+                <p className="text-muted-foreground">No cancelled events</p>
+              </CardContent>
+            </Card>
+          ) : (
+            cancelledEvents.map((event) => (
+              <Card key={event.id}>
+                <CardContent className="flex justify-between items-center p-6">
+                  <div className="space-y-1">
+                    <h3 className="font-semibold">
+                      <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                    </h3>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <Calendar className="h-4 w-4" />
@@ -345,13 +801,16 @@ const Admin = () => {
                       </span>
                       <span className="flex items-center gap-1">
                         <MapPin className="h-4 w-4" />
-                        {event.venues.name}
+                        {venueNames(event)}
                       </span>
                       <span>By {event.creator_name}</span>
                     </div>
+                    {event.cancellation_reason && (
+                      <p className="text-sm text-muted-foreground">Reason: {event.cancellation_reason}</p>
+                    )}
                   </div>
                   <Badge variant={getStatusColor(event.status)}>
-                    {event.status}
+                    {event.status.replace('_', ' ')}
                   </Badge>
                 </CardContent>
               </Card>
@@ -359,6 +818,36 @@ const Admin = () => {
           )}
         </TabsContent>
       </Tabs>
+
+      <EventPagination previous={previousPage} next={nextPage} />
+
+      <ReviewEventDialog
+        event={reviewing?.event ?? null}
+        decision={reviewing?.decision ?? 'rejected'}
+        onOpenChange={(open) => !open && setReviewing(null)}
+      />
+
+      <CancelEventDialog
+        event={cancelling}
+        onOpenChange={(open) => !open && setCancelling(null)}
+      />
+
+      {conflict && (
+        <ApprovalConflictDialog
+          open={!!conflict}
+          onOpenChange={(open) => !open && setConflict(null)}
+          eventTitle={conflict.event.title}
+          venueName={conflict.event.venues.name}
+          conflicts={conflict.conflicts}
+          alternatives={conflict.alternatives}
+          loadingAlternatives={conflict.loadingAlternatives}
+          approving={updatingEventId === conflict.event.id}
+          onApproveIn={(venueId) => approveEvent(conflict.event, venueId, conflict.occurrenceIds)}
+          onProposeBump={conflict.event.priority === 'high'
+            ? (blocking) => proposeBump(conflict.event, blocking)
+            : undefined}
+        />
+      )}
     </div>
   );
 };
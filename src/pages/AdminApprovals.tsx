@@ -0,0 +1,629 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, ListChecks, Plus, Trash2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { z } from "zod";
+import { Tables } from "@/integrations/supabase/types";
+
+type ApprovalChain = Tables<'approval_chains'> & {
+  approval_stages: (Tables<'approval_stages'> & {
+    approval_stage_approvers: { user_id: string }[];
+  })[];
+};
+
+interface Approver {
+  userId: string;
+  name: string;
+}
+
+interface StageForm {
+  id?: string;
+  name: string;
+  approverIds: string[];
+}
+
+interface ChainForm {
+  id?: string;
+  name: string;
+  position: string;
+  active: boolean;
+  eventType: string;
+  minParticipants: string;
+  venueId: string;
+  stages: StageForm[];
+}
+
+// Select value for conditions that match every event
+const ANY = "any";
+
+const chainSchema = z.object({
+  name: z.string().trim().min(2, "Chain name must be at least 2 characters"),
+  position: z.number().int("Order must be a whole number"),
+  minParticipants: z.number().int("Minimum participants must be a whole number").positive("Minimum participants must be greater than 0").nullable(),
+  stages: z.array(z.object({
+    name: z.string().trim().min(2, "Every stage needs a name"),
+    approverIds: z.array(z.string()).min(1, "Every stage needs at least one approver"),
+  })).min(1, "Add at least one stage"),
+});
+
+const emptyChain = (position: number): ChainForm => ({
+  name: "",
+  position: String(position),
+  active: true,
+  eventType: ANY,
+  minParticipants: "",
+  venueId: ANY,
+  stages: [{ name: "", approverIds: [] }],
+});
+
+const formFromChain = (chain: ApprovalChain): ChainForm => ({
+  id: chain.id,
+  name: chain.name,
+  position: String(chain.position),
+  active: chain.active,
+  eventType: chain.event_type ?? ANY,
+  minParticipants: chain.min_participants ? String(chain.min_participants) : "",
+  venueId: chain.venue_id ?? ANY,
+  stages: [...chain.approval_stages]
+    .sort((a, b) => a.position - b.position)
+    .map(stage => ({
+      id: stage.id,
+      name: stage.name,
+      approverIds: stage.approval_stage_approvers.map(approver => approver.user_id),
+    })),
+});
+
+/** Configure which sign-offs events need before their venue is booked */
+const AdminApprovals = () => {
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [venues, setVenues] = useState<Pick<Tables<'venues'>, 'id' | 'name'>[]>([]);
+  const [formData, setFormData] = useState<ChainForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { capabilities, loading: authLoading } = useAuth();
+  const canManage = capabilities.canManageApprovalChains;
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const fetchChains = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('approval_chains')
+        .select(`
+          *,
+          approval_stages (
+            *,
+            approval_stage_approvers (user_id)
+          )
+        `)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        toast({
+          title: "Error fetching approval chains",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setChains(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canManage) {
+      toast({
+        title: "Access Denied",
+        description: "Only admins can configure approval chains",
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+    fetchChains();
+    fetchOptions();
+  }, [authLoading, canManage, navigate, toast, fetchChains]);
+
+  // Only approvers can open the admin panel, so stages are staffed from them
+  const fetchOptions = async () => {
+    const [{ data: rolesData, error: rolesError }, { data: venuesData }] = await Promise.all([
+      supabase.from('user_roles').select('user_id').in('role', ['faculty_approver', 'admin']),
+      supabase.from('venues').select('id, name').is('archived_at', null).order('name', { ascending: true }),
+    ]);
+
+    if (rolesError) {
+      console.error('Error:', rolesError);
+      return;
+    }
+
+    const userIds = Array.from(new Set((rolesData || []).map(role => role.user_id)));
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('user_id, name')
+      .in('user_id', userIds);
+
+    setApprovers(
+      (profilesData || [])
+        .map(profile => ({ userId: profile.user_id, name: profile.name }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setVenues(venuesData || []);
+  };
+
+  const updateStage = (index: number, changes: Partial<StageForm>) => {
+    if (!formData) return;
+    setFormData({
+      ...formData,
+      stages: formData.stages.map((stage, idx) => idx === index ? { ...stage, ...changes } : stage),
+    });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    if (!formData) return;
+    const stages = [...formData.stages];
+    [stages[index], stages[index + offset]] = [stages[index + offset], stages[index]];
+    setFormData({ ...formData, stages });
+  };
+
+  const toggleApprover = (index: number, userId: string, checked: boolean) => {
+    if (!formData) return;
+    const approverIds = formData.stages[index].approverIds;
+    updateStage(index, {
+      approverIds: checked ? [...approverIds, userId] : approverIds.filter(id => id !== userId),
+    });
+  };
+
+  const saveChain = async () => {
+    if (!formData) return;
+    setSaving(true);
+
+    try {
+      const validation = chainSchema.parse({
+        name: formData.name,
+        position: Number(formData.position),
+        minParticipants: formData.minParticipants ? Number(formData.minParticipants) : null,
+        stages: formData.stages,
+      });
+
+      const chainRow = {
+        name: validation.name,
+        position: validation.position,
+        active: formData.active,
+        event_type: formData.eventType === ANY ? null : formData.eventType,
+        min_participants: validation.minParticipants,
+        venue_id: formData.venueId === ANY ? null : formData.venueId,
+      };
+
+      const { data: chain, error: chainError } = formData.id
+        ? await supabase.from('approval_chains').update(chainRow).eq('id', formData.id).select().single()
+        : await supabase.from('approval_chains').insert([chainRow]).select().single();
+
+      if (chainError) {
+        toast({
+          title: "Error saving approval chain",
+          description: chainError.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const error = await saveStages(chain.id, formData.stages);
+      if (error) {
+        toast({
+          title: "Error saving approval stages",
+          description: error,
+          variant: "destructive",
+        });
+        await fetchChains();
+        return;
+      }
+
+      toast({
+        title: "Approval chain saved",
+        description: "Events submitted from now on are routed through the updated chain.",
+      });
+      setFormData(null);
+      await fetchChains();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Stages keep their ids across edits, so events waiting on one stay with it
+  const saveStages = async (chainId: string, stages: StageForm[]) => {
+    const previous = chains.find(chain => chain.id === chainId)?.approval_stages ?? [];
+    const keptIds = stages.flatMap(stage => stage.id ? [stage.id] : []);
+    const removedIds = previous.map(stage => stage.id).filter(id => !keptIds.includes(id));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from('approval_stages').delete().in('id', removedIds);
+      if (error) {
+        return error.code === '23503'
+          ? "A removed stage still has events waiting on it. Let them through first."
+          : error.message;
+      }
+    }
+
+    const existingRows = stages.flatMap((stage, position) =>
+      stage.id ? [{ id: stage.id, chain_id: chainId, position, name: stage.name.trim() }] : []
+    );
+    if (existingRows.length > 0) {
+      const { error } = await supabase.from('approval_stages').upsert(existingRows);
+      if (error) return error.message;
+    }
+
+    const newRows = stages.flatMap((stage, position) =>
+      stage.id ? [] : [{ chain_id: chainId, position, name: stage.name.trim() }]
+    );
+    const { data: inserted, error: insertError } = newRows.length > 0
+      ? await supabase.from('approval_stages').insert(newRows).select('id, position')
+      : { data: [], error: null };
+    if (insertError) return insertError.message;
+
+    const stageIds = stages.map((stage, position) =>
+      stage.id ?? inserted?.find(row => row.position === position)?.id
+    );
+
+    const { error: clearError } = await supabase
+      .from('approval_stage_approvers')
+      .delete()
+      .in('stage_id', keptIds);
+    if (clearError) return clearError.message;
+
+    const { error: approversError } = await supabase
+      .from('approval_stage_approvers')
+      .insert(stages.flatMap((stage, position) =>
+        stage.approverIds.map(userId => ({ stage_id: stageIds[position]!, user_id: userId }))
+      ));
+    return approversError?.message ?? null;
+  };
+
+  const deleteChain = async (chain: ApprovalChain) => {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from('approval_chains').delete().eq('id', chain.id);
+
+      if (error) {
+        toast({
+          title: "Error deleting approval chain",
+          description: error.code === '23503'
+            ? "Events are still waiting on this chain. Deactivate it instead so no new events are routed to it."
+            : error.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Approval chain deleted",
+          description: `"${chain.name}" no longer applies to new events.`,
+        });
+        if (formData?.id === chain.id) setFormData(null);
+        await fetchChains();
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeConditions = (chain: ApprovalChain) => {
+    const conditions = [
+      chain.event_type && `${chain.event_type} events`,
+      chain.min_participants && `${chain.min_participants}+ participants`,
+      chain.venue_id && `in ${venues.find(venue => venue.id === chain.venue_id)?.name ?? "a specific venue"}`,
+    ].filter(Boolean);
+    return conditions.length > 0 ? conditions.join(", ") : "All events";
+  };
+
+  const approverName = (userId: string) =>
+    approvers.find(approver => approver.userId === userId)?.name ?? "Unknown User";
+
+  if (!canManage) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading approval chains...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-6 w-6" />
+          <div>
+            <h1 className="text-3xl font-bold">Approval Chains</h1>
+            <p className="text-muted-foreground">
+              Decide who signs off which events, stage by stage, before their venue is booked
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={() => setFormData(emptyChain(chains.length ? Math.max(...chains.map(chain => chain.position)) + 1 : 0))}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Chain
+        </Button>
+      </div>
+
+      {formData && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{formData.id ? "Edit chain" : "New chain"}</CardTitle>
+            <CardDescription>
+              Active chains are checked in order and the first one an event matches is used. Events that match
+              none can be approved by any approver in a single step.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-[1fr_8rem_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="chainName">Name</Label>
+                <Input
+                  id="chainName"
+                  placeholder="e.g., Large cultural events"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="chainPosition">Order</Label>
+                <Input
+                  id="chainPosition"
+                  type="number"
+                  value={formData.position}
+                  onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="chainActive"
+                  checked={formData.active}
+                  onCheckedChange={(active) => setFormData({ ...formData, active })}
+                />
+                <Label htmlFor="chainActive">Active</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Applies to</h4>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Event type</Label>
+                  <Select value={formData.eventType} onValueChange={(eventType) => setFormData({ ...formData, eventType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any type</SelectItem>
+                      <SelectItem value="technical">Technical</SelectItem>
+                      <SelectItem value="non-technical">Non-technical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="minParticipants">Minimum participants</Label>
+                  <Input
+                    id="minParticipants"
+                    type="number"
+                    min={1}
+                    placeholder="Any headcount"
+                    value={formData.minParticipants}
+                    onChange={(e) => setFormData({ ...formData, minParticipants: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Venue</Label>
+                  <Select value={formData.venueId} onValueChange={(venueId) => setFormData({ ...formData, venueId })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any venue</SelectItem>
+                      {venues.map((venue) => (
+                        <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold">Stages</h4>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setFormData({
+                    ...formData,
+                    stages: [...formData.stages, { name: "", approverIds: [] }],
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Stage
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Any one approver of a stage can sign it off. The last stage approves the event and books its venue.
+              </p>
+              {formData.stages.map((stage, idx) => (
+                <div key={stage.id ?? `new-${idx}`} className="rounded-md border p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{idx + 1}</Badge>
+                    <Input
+                      aria-label="Stage name"
+                      placeholder="e.g., Department head"
+                      value={stage.name}
+                      onChange={(e) => updateStage(idx, { name: e.target.value })}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Move stage up"
+                      disabled={idx === 0}
+                      onClick={() => moveStage(idx, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Move stage down"
+                      disabled={idx === formData.stages.length - 1}
+                      onClick={() => moveStage(idx, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove stage"
+                      disabled={formData.stages.length === 1}
+                      onClick={() => setFormData({
+                        ...formData,
+                        stages: formData.stages.filter((_, i) => i !== idx),
+                      })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {approvers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No faculty approvers yet. Give someone the approver role first.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      {approvers.map((approver) => (
+                        <div key={approver.userId} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`stage-${idx}-${approver.userId}`}
+                            checked={stage.approverIds.includes(approver.userId)}
+                            onCheckedChange={(checked) => toggleApprover(idx, approver.userId, checked === true)}
+                          />
+                          <Label htmlFor={`stage-${idx}-${approver.userId}`} className="font-normal">
+                            {approver.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={saveChain} disabled={saving}>
+                {saving ? "Saving..." : "Save Chain"}
+              </Button>
+              <Button variant="outline" onClick={() => setFormData(null)} disabled={saving}>
+                Discard
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chains</CardTitle>
+          <CardDescription>Events keep the chain they were routed to until they are resubmitted</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {chains.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No approval chains yet. Every event is approved in a single step by any approver.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Stages</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chains.map((chain) => (
+                  <TableRow key={chain.id}>
+                    <TableCell>{chain.position}</TableCell>
+                    <TableCell>
+                      <span className="font-medium">{chain.name}</span>
+                      {!chain.active && <Badge variant="outline" className="ml-2">inactive</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {describeConditions(chain)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {[...chain.approval_stages]
+                        .sort((a, b) => a.position - b.position)
+                        .map((stage) => (
+                          <div key={stage.id}>
+                            {stage.position + 1}. {stage.name}
+                            <span className="text-muted-foreground">
+                              {" "}({stage.approval_stage_approvers.map(approver => approverName(approver.user_id)).join(", ") || "no approvers"})
+                            </span>
+                          </div>
+                        ))}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 justify-end">
+                        <Button size="sm" variant="outline" onClick={() => setFormData(formFromChain(chain))}>
+                          Edit
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          aria-label="Delete chain"
+                          disabled={saving}
+                          onClick={() => deleteChain(chain)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminApprovals;
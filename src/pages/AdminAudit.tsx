@@ -0,0 +1,342 @@
+import { Fragment, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronRight, ScrollText, X } from "lucide-react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+type AuditEntry = Tables<'audit_log'>;
+
+const PAGE_SIZE = 50;
+
+// Select values for "no filter" and for changes made without a signed-in user
+const ALL = "all";
+const SYSTEM = "system";
+
+const ENTITIES = [
+  { value: "events", label: "Events" },
+  { value: "venues", label: "Venues" },
+  { value: "profiles", label: "Profiles" },
+  { value: "user_roles", label: "Roles" },
+];
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case 'INSERT':
+      return 'default';
+    case 'DELETE':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/** Who changed which event, venue, profile or role, and from what to what */
+const AdminAudit = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { capabilities, loading: authLoading } = useAuth();
+  const canView = capabilities.canViewAuditLog;
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const entity = searchParams.get('entity') ?? ALL;
+  const actor = searchParams.get('actor') ?? ALL;
+  const recordId = searchParams.get('record');
+
+  const fetchEntries = useCallback(async (offset: number) => {
+    if (offset > 0) setLoadingMore(true);
+
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (entity !== ALL) query = query.eq('table_name', entity);
+      if (actor === SYSTEM) query = query.is('actor_id', null);
+      else if (actor !== ALL) query = query.eq('actor_id', actor);
+      if (recordId) query = query.eq('record_id', recordId);
+
+      const { data, error } = await query;
+
+      if (error) {
+        toast({
+          title: "Error fetching audit log",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setEntries(current => offset > 0 ? [...current, ...(data || [])] : data || []);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [entity, actor, recordId, toast]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canView) {
+      toast({
+        title: "Access Denied",
+        description: "Only admins can view the audit log",
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+    fetchNames();
+  }, [authLoading, canView, navigate, toast]);
+
+  useEffect(() => {
+    if (authLoading || !canView) return;
+    fetchEntries(0);
+  }, [authLoading, canView, fetchEntries]);
+
+  const fetchNames = async () => {
+    const { data, error } = await supabase.from('profiles').select('user_id, name');
+
+    if (error) {
+      console.error('Error:', error);
+      return;
+    }
+
+    setNames(Object.fromEntries((data || []).map(profile => [profile.user_id, profile.name])));
+  };
+
+  const setFilter = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === null || value === ALL) next.delete(key);
+    else next.set(key, value);
+    setSearchParams(next);
+  };
+
+  const actorName = (entry: AuditEntry) =>
+    entry.actor_id ? names[entry.actor_id] ?? "Unknown User" : "System";
+
+  // Row values as they were last seen, so deleted records still have a name
+  const recordLabel = (entry: AuditEntry) => {
+    const values = (entry.new_values ?? entry.old_values) as Record<string, Json> | null;
+    if (!values) return entry.record_id;
+
+    switch (entry.table_name) {
+      case 'events':
+      case 'venues':
+        return String(values.title ?? values.name ?? entry.record_id);
+      case 'profiles':
+        return String(values.name ?? entry.record_id);
+      case 'user_roles':
+        return `${values.role} role of ${names[String(values.user_id)] ?? "Unknown User"}`;
+      default:
+        return entry.record_id;
+    }
+  };
+
+  // Updates list what changed; inserts and deletes list the whole row
+  const changedValues = (entry: AuditEntry) => {
+    const oldValues = (entry.old_values ?? {}) as Record<string, Json>;
+    const newValues = (entry.new_values ?? {}) as Record<string, Json>;
+    const fields = entry.action === 'UPDATE'
+      ? entry.changed_fields
+      : Object.keys(entry.action === 'DELETE' ? oldValues : newValues).sort();
+    return fields.map(field => ({ field, from: oldValues[field], to: newValues[field] }));
+  };
+
+  if (!canView) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading audit log...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-2">
+        <ScrollText className="h-6 w-6" />
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">Every change to events, venues, profiles and roles, newest first</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Entries cannot be edited or deleted, by anyone</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select value={entity} onValueChange={(value) => setFilter('entity', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All entities</SelectItem>
+                  {ENTITIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Changed by</Label>
+              <Select value={actor} onValueChange={(value) => setFilter('actor', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  <SelectItem value={SYSTEM}>System</SelectItem>
+                  {Object.entries(names)
+                    .sort(([, a], [, b]) => a.localeCompare(b))
+                    .map(([userId, name]) => (
+                      <SelectItem key={userId} value={userId}>{name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {recordId && (
+              <div className="flex items-center gap-2 pb-2">
+                <Badge variant="outline">Record {recordId.slice(0, 8)}</Badge>
+                <Button size="icon" variant="ghost" aria-label="Show all records" onClick={() => setFilter('record', null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {entries.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">No changes match these filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <TableCell>
+                        {expandedId === entry.id
+                          ? <ChevronDown className="h-4 w-4" />
+                          : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(entry.created_at), 'PPP p')}
+                      </TableCell>
+                      <TableCell className="text-sm">{actorName(entry)}</TableCell>
+                      <TableCell>
+                        <Badge variant={getActionColor(entry.action)}>{entry.action.toLowerCase()}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span className="text-muted-foreground">
+                          {ENTITIES.find(option => option.value === entry.table_name)?.label ?? entry.table_name}:
+                        </span>{" "}
+                        {entry.table_name === 'events' && entry.action !== 'DELETE' ? (
+                          <Link
+                            to={`/events/${entry.record_id}`}
+                            className="hover:underline"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            {recordLabel(entry)}
+                          </Link>
+                        ) : recordLabel(entry)}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {entry.action === 'UPDATE' ? entry.changed_fields.join(", ") : "—"}
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === entry.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          <div className="space-y-1 text-xs">
+                            {!recordId && (
+                              <Button
+                                size="sm"
+                                variant="link"
+                                className="h-auto p-0 text-xs"
+                                onClick={() => setFilter('record', entry.record_id)}
+                              >
+                                Show all changes to this record
+                              </Button>
+                            )}
+                            {changedValues(entry).map(({ field, from, to }) => (
+                              <div key={field} className="grid grid-cols-[12rem_1fr] gap-2">
+                                <span className="font-medium">{field}</span>
+                                <span className="break-all">
+                                  {entry.action === 'UPDATE'
+                                    ? <>{formatValue(from)} <span className="text-muted-foreground">→</span> {formatValue(to)}</>
+                                    : formatValue(entry.action === 'DELETE' ? from : to)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchEntries(entries.length)} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminAudit;
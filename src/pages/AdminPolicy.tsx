@@ -0,0 +1,444 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { SlidersHorizontal, Plus, Trash2, History } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { z } from "zod";
+import { Tables } from "@/integrations/supabase/types";
+import { VENUE_TYPES } from "@/utils/venueSelection";
+import { EVENT_CATEGORIES } from "@/utils/eventOptions";
+
+type SelectionPolicyRow = Tables<'selection_policies'>;
+
+const EVENT_KEYS = ["technical", "non-technical", ...EVENT_CATEGORIES];
+
+const WEIGHT_FIELDS = [
+  { key: "areaWeight", label: "Area efficiency" },
+  { key: "availabilityWeight", label: "Availability" },
+  { key: "facilitiesWeight", label: "Facilities" },
+  { key: "capacityWeight", label: "Capacity" },
+  { key: "priorityWeight", label: "High priority bonus" },
+] as const;
+
+const points = (label: string) => z.number().int(`${label} must be a whole number`).min(0, `${label} cannot be negative`);
+
+const policySchema = z.object({
+  name: z.string().trim().min(2, "Policy name must be at least 2 characters"),
+  notes: z.string().optional(),
+  areaWeight: points("Area efficiency"),
+  availabilityWeight: points("Availability"),
+  facilitiesWeight: points("Facilities"),
+  capacityWeight: points("Capacity"),
+  priorityWeight: points("High priority bonus"),
+  oversizePenalty: points("Oversize penalty"),
+  sqftPerPerson: z.number().positive("Space per person must be greater than 0"),
+  maxAlternatives: points("Alternatives shown"),
+  bonuses: z.array(z.object({
+    eventKey: z.string().min(1, "Pick an event for every venue preference"),
+    venueType: z.string().min(1, "Pick a venue type for every venue preference"),
+    points: z.number().int("Preference points must be whole numbers"),
+  })),
+});
+
+interface BonusRow {
+  eventKey: string;
+  venueType: string;
+  points: string;
+}
+
+interface PolicyForm {
+  name: string;
+  notes: string;
+  areaWeight: string;
+  availabilityWeight: string;
+  facilitiesWeight: string;
+  capacityWeight: string;
+  priorityWeight: string;
+  oversizePenalty: string;
+  sqftPerPerson: string;
+  maxAlternatives: string;
+  bonuses: BonusRow[];
+}
+
+const formFromPolicy = (policy: SelectionPolicyRow): PolicyForm => ({
+  name: policy.name,
+  notes: policy.notes || "",
+  areaWeight: String(policy.area_weight),
+  availabilityWeight: String(policy.availability_weight),
+  facilitiesWeight: String(policy.facilities_weight),
+  capacityWeight: String(policy.capacity_weight),
+  priorityWeight: String(policy.priority_weight),
+  oversizePenalty: String(policy.oversize_penalty),
+  sqftPerPerson: String(policy.sqft_per_person),
+  maxAlternatives: String(policy.max_alternatives),
+  bonuses: Object.entries(policy.venue_type_bonuses as Record<string, Record<string, number>>)
+    .flatMap(([eventKey, byType]) =>
+      Object.entries(byType).map(([venueType, value]) => ({ eventKey, venueType, points: String(value) }))
+    ),
+});
+
+const AdminPolicy = () => {
+  const [policies, setPolicies] = useState<SelectionPolicyRow[]>([]);
+  const [formData, setFormData] = useState<PolicyForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { capabilities, loading: authLoading } = useAuth();
+  const canManage = capabilities.canManagePolicy;
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('selection_policies')
+        .select('*')
+        .order('version', { ascending: false });
+
+      if (error) {
+        toast({
+          title: "Error fetching selection policies",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setPolicies(data || []);
+        if (data && data.length > 0) setFormData(formFromPolicy(data[0]));
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canManage) {
+      toast({
+        title: "Access Denied",
+        description: "Only admins can change the selection policy",
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+    fetchPolicies();
+  }, [authLoading, canManage, navigate, toast, fetchPolicies]);
+
+  const updateBonus = (index: number, changes: Partial<BonusRow>) => {
+    if (!formData) return;
+    setFormData({
+      ...formData,
+      bonuses: formData.bonuses.map((bonus, idx) => idx === index ? { ...bonus, ...changes } : bonus),
+    });
+  };
+
+  const publishPolicy = async () => {
+    if (!formData) return;
+    setSaving(true);
+
+    try {
+      const validation = policySchema.parse({
+        name: formData.name,
+        notes: formData.notes.trim() || undefined,
+        areaWeight: Number(formData.areaWeight),
+        availabilityWeight: Number(formData.availabilityWeight),
+        facilitiesWeight: Number(formData.facilitiesWeight),
+        capacityWeight: Number(formData.capacityWeight),
+        priorityWeight: Number(formData.priorityWeight),
+        oversizePenalty: Number(formData.oversizePenalty),
+        sqftPerPerson: Number(formData.sqftPerPerson),
+        maxAlternatives: Number(formData.maxAlternatives),
+        bonuses: formData.bonuses.map(bonus => ({ ...bonus, points: Number(bonus.points) })),
+      });
+
+      const venueTypeBonuses: Record<string, Record<string, number>> = {};
+      validation.bonuses.forEach(bonus => {
+        venueTypeBonuses[bonus.eventKey] = { ...venueTypeBonuses[bonus.eventKey], [bonus.venueType]: bonus.points };
+      });
+
+      const { data, error } = await supabase
+        .from('selection_policies')
+        .insert([{
+          name: validation.name,
+          notes: validation.notes || null,
+          area_weight: validation.areaWeight,
+          availability_weight: validation.availabilityWeight,
+          facilities_weight: validation.facilitiesWeight,
+          capacity_weight: validation.capacityWeight,
+          priority_weight: validation.priorityWeight,
+          oversize_penalty: validation.oversizePenalty,
+          sqft_per_person: validation.sqftPerPerson,
+          max_alternatives: validation.maxAlternatives,
+          venue_type_bonuses: venueTypeBonuses,
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        toast({
+          title: "Error publishing policy",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: `Policy v${data.version} published`,
+          description: "New venue recommendations will be scored with this policy.",
+        });
+        await fetchPolicies();
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading selection policy...</div>
+      </div>
+    );
+  }
+
+  const activeVersion = policies[0]?.version;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="h-6 w-6" />
+        <div>
+          <h1 className="text-3xl font-bold">Selection Policy</h1>
+          <p className="text-muted-foreground">Tune how venues are scored and recommended to organisers</p>
+        </div>
+      </div>
+
+      {formData && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Edit policy</CardTitle>
+            <CardDescription>
+              Publishing saves a new version and makes it active; earlier versions are kept for reference.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policyName">Name</Label>
+                <Input
+                  id="policyName"
+                  placeholder="e.g., Fest season 2025"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policyNotes">Notes</Label>
+                <Textarea
+                  id="policyNotes"
+                  placeholder="Why this policy changed"
+                  rows={1}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Scoring weights (points)</h4>
+              <div className="grid grid-cols-5 gap-4">
+                {WEIGHT_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      min={0}
+                      value={formData[field.key]}
+                      onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sqftPerPerson">Space per person (sq ft)</Label>
+                <Input
+                  id="sqftPerPerson"
+                  type="number"
+                  min={1}
+                  step="0.5"
+                  value={formData.sqftPerPerson}
+                  onChange={(e) => setFormData({ ...formData, sqftPerPerson: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="oversizePenalty">Oversize penalty (points per extra 1x area)</Label>
+                <Input
+                  id="oversizePenalty"
+                  type="number"
+                  min={0}
+                  value={formData.oversizePenalty}
+                  onChange={(e) => setFormData({ ...formData, oversizePenalty: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxAlternatives">Alternatives shown</Label>
+                <Input
+                  id="maxAlternatives"
+                  type="number"
+                  min={0}
+                  value={formData.maxAlternatives}
+                  onChange={(e) => setFormData({ ...formData, maxAlternatives: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold">Venue type preferences</h4>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setFormData({
+                    ...formData,
+                    bonuses: [...formData.bonuses, { eventKey: "", venueType: "", points: "20" }],
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Preference
+                </Button>
+              </div>
+              {formData.bonuses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No venue types are preferred for any event.</p>
+              ) : (
+                formData.bonuses.map((bonus, idx) => (
+                  <div key={idx} className="grid grid-cols-[1fr_1fr_8rem_auto] gap-2 items-center">
+                    <Select value={bonus.eventKey} onValueChange={(value) => updateBonus(idx, { eventKey: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Event type or category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EVENT_KEYS.map((key) => (
+                          <SelectItem key={key} value={key} className="capitalize">{key}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={bonus.venueType} onValueChange={(value) => updateBonus(idx, { venueType: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Venue type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VENUE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type} className="capitalize">
+                            {type.replace('_', ' ')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      aria-label="Bonus points"
+                      value={bonus.points}
+                      onChange={(e) => updateBonus(idx, { points: e.target.value })}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove preference"
+                      onClick={() => setFormData({
+                        ...formData,
+                        bonuses: formData.bonuses.filter((_, i) => i !== idx),
+                      })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <Button onClick={publishPolicy} disabled={saving}>
+              {saving ? "Publishing..." : "Publish New Version"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </CardTitle>
+          <CardDescription>Events record the version their venue recommendations were scored with</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Weights</TableHead>
+                <TableHead>Sq ft / person</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell>
+                    <span className="font-medium">v{policy.version}</span>
+                    {policy.version === activeVersion && <Badge className="ml-2">active</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{policy.name}</div>
+                    {policy.notes && <div className="text-xs text-muted-foreground">{policy.notes}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {policy.area_weight}/{policy.availability_weight}/{policy.facilities_weight}/{policy.capacity_weight}/{policy.priority_weight}
+                  </TableCell>
+                  <TableCell>{policy.sqft_per_person}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(policy.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => setFormData(formFromPolicy(policy))}>
+                      Load
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminPolicy;
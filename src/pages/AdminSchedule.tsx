@@ -0,0 +1,301 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Wand2, ArrowRight, Check } from "lucide-react";
+import { format, addDays } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  VenueSelectionAlgorithm,
+  policyFromRow,
+  VENUE_WITH_FACILITIES_SELECT,
+  EVENT_FACILITIES_SELECT,
+} from "@/utils/venueSelection";
+import { SchedulePlan, scheduleEvents, EVENT_VENUES_SELECT } from "@/utils/batchScheduler";
+import { useApproveEvent } from "@/hooks/useEvents";
+
+type Venue = Tables<'venues'>;
+
+const AdminSchedule = () => {
+  const [fromDate, setFromDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(addDays(new Date(), 14), 'yyyy-MM-dd'));
+  const [allowTimeShift, setAllowTimeShift] = useState(false);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [plan, setPlan] = useState<SchedulePlan | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const { capabilities, loading: authLoading } = useAuth();
+  const canApprove = capabilities.canApproveEvents;
+  const approve = useApproveEvent();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canApprove) {
+      toast({
+        title: "Access Denied",
+        description: "You don't have approver permissions",
+        variant: "destructive",
+      });
+      navigate("/");
+    }
+  }, [authLoading, canApprove, navigate, toast]);
+
+  const runScheduler = async () => {
+    setRunning(true);
+
+    try {
+      const [eventsResult, venuesResult, bookingsResult, blackoutsResult, policyResult] = await Promise.all([
+        supabase
+          .from('events')
+          .select(`*, ${EVENT_FACILITIES_SELECT}, ${EVENT_VENUES_SELECT}`)
+          .eq('status', 'pending')
+          .gte('event_date', fromDate)
+          .lte('event_date', toDate),
+        supabase.from('venues').select(VENUE_WITH_FACILITIES_SELECT).is('archived_at', null),
+        supabase.from('venue_bookings').select('*').gte('ends_at', new Date(fromDate).toISOString()),
+        supabase.from('venue_blackouts').select('*'),
+        supabase.from('selection_policies').select('*').order('version', { ascending: false }).limit(1).maybeSingle(),
+      ]);
+
+      const fetchError = eventsResult.error || venuesResult.error || bookingsResult.error ||
+        blackoutsResult.error || policyResult.error;
+      if (fetchError) {
+        toast({
+          title: "Error loading scheduling data",
+          description: fetchError.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const algorithm = new VenueSelectionAlgorithm(
+        venuesResult.data || [],
+        bookingsResult.data || [],
+        blackoutsResult.data || [],
+        policyFromRow(policyResult.data)
+      );
+      const result = scheduleEvents(eventsResult.data || [], algorithm, { allowTimeShift });
+
+      setVenues(venuesResult.data || []);
+      setPlan(result);
+      setSelected(result.assignments.map(assignment => assignment.event.id));
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const approveSelected = async () => {
+    if (!plan) return;
+    setApproving(true);
+
+    let approved = 0;
+    const failed: string[] = [];
+
+    try {
+      for (const assignment of plan.assignments.filter(a => selected.includes(a.event.id))) {
+        try {
+          const result = await approve.mutateAsync({
+            event: assignment.event,
+            venueId: assignment.venue.id,
+            startTime: assignment.timeChanged ? assignment.startTime : undefined,
+          });
+          if (result.approved) {
+            approved++;
+          } else {
+            failed.push(assignment.event.title);
+          }
+        } catch {
+          failed.push(assignment.event.title);
+        }
+      }
+
+      toast({
+        title: `${approved} event${approved === 1 ? '' : 's'} approved`,
+        description: failed.length > 0
+          ? `Could not approve: ${failed.join(', ')}`
+          : "All selected assignments were booked.",
+        variant: failed.length > 0 ? "destructive" : "default",
+      });
+
+      await runScheduler();
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const venueName = (venueId: string) =>
+    venues.find(venue => venue.id === venueId)?.name ?? 'Unknown venue';
+
+  const toggleSelected = (eventId: string, checked: boolean) => {
+    setSelected(checked ? [...selected, eventId] : selected.filter(id => id !== eventId));
+  };
+
+  if (!canApprove) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-2">
+        <Wand2 className="h-6 w-6" />
+        <div>
+          <h1 className="text-3xl font-bold">Auto-schedule</h1>
+          <p className="text-muted-foreground">Assign venues to every pending event in a date range at once</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-end gap-6 p-6">
+          <div className="space-y-2">
+            <Label htmlFor="scheduleFrom">From</Label>
+            <Input
+              id="scheduleFrom"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scheduleTo">To</Label>
+            <Input
+              id="scheduleTo"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Switch id="allowTimeShift" checked={allowTimeShift} onCheckedChange={setAllowTimeShift} />
+            <Label htmlFor="allowTimeShift">Allow moving start times</Label>
+          </div>
+          <Button onClick={runScheduler} disabled={running || !fromDate || !toDate}>
+            <Wand2 className="h-4 w-4 mr-2" />
+            {running ? "Scheduling..." : "Propose Plan"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {plan && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle>Proposed plan</CardTitle>
+                <CardDescription>
+                  {plan.assignments.length} scheduled, {plan.unscheduled.length} could not be placed
+                  {plan.manual.length > 0 && `, ${plan.manual.length} left for manual approval`}
+                </CardDescription>
+              </div>
+              <Button onClick={approveSelected} disabled={approving || selected.length === 0}>
+                <Check className="h-4 w-4 mr-2" />
+                {approving ? "Approving..." : `Approve Selected (${selected.length})`}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {plan.assignments.length === 0 ? (
+              <p className="text-muted-foreground">No pending events could be placed in this range.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Event</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Requested</TableHead>
+                    <TableHead />
+                    <TableHead>Proposed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.assignments.map((assignment) => (
+                    <TableRow key={assignment.event.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(assignment.event.id)}
+                          onCheckedChange={(checked) => toggleSelected(assignment.event.id, !!checked)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{assignment.event.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(assignment.event.event_date).toLocaleDateString()} · {assignment.event.student_count} people
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className="capitalize">{assignment.event.priority}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{venueName(assignment.event.venue_id)}</div>
+                        <div className="text-muted-foreground">{assignment.event.time_slot?.slice(0, 5) ?? '09:00'}</div>
+                      </TableCell>
+                      <TableCell>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className={assignment.venueChanged ? "font-semibold text-orange-600" : ""}>
+                          {assignment.venue.name}
+                        </div>
+                        <div className={assignment.timeChanged ? "font-semibold text-orange-600" : "text-muted-foreground"}>
+                          {assignment.startTime}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {plan.unscheduled.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-destructive">Could not be placed</h4>
+                {plan.unscheduled.map((event) => (
+                  <div key={event.id} className="text-sm">
+                    <span className="font-medium">{event.title}</span>
+                    <span className="text-muted-foreground">
+                      {" "}· {new Date(event.event_date).toLocaleDateString()} · {event.student_count} people
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {plan.manual.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Left for manual approval</h4>
+                <p className="text-sm text-muted-foreground">
+                  Events split across several venues, repeating events and multi-day events are not
+                  auto-scheduled. Approve them from the Admin Panel.
+                </p>
+                {plan.manual.map((event) => (
+                  <div key={event.id} className="text-sm">
+                    <span className="font-medium">{event.title}</span>
+                    <span className="text-muted-foreground">
+                      {" "}· {new Date(event.event_date).toLocaleDateString()} · {event.student_count} people
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AdminSchedule;
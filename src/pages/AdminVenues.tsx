@@ -0,0 +1,302 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, Plus, Pencil, Archive, ArchiveRestore, CalendarOff, Users, Ruler, MapPin, Image as ImageIcon, Map as MapIcon } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Tables } from "@/integrations/supabase/types";
+import VenueFormDialog from "@/components/VenueFormDialog";
+import VenueBlackoutsDialog from "@/components/VenueBlackoutsDialog";
+import { VenueWithFacilities, VENUE_WITH_FACILITIES_SELECT } from "@/utils/venueSelection";
+
+type Venue = VenueWithFacilities;
+type Facility = Tables<'facilities'>;
+
+const AdminVenues = () => {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [facilityCatalogue, setFacilityCatalogue] = useState<Facility[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingVenue, setEditingVenue] = useState<Venue | null>(null);
+  const [blackoutVenue, setBlackoutVenue] = useState<Venue | null>(null);
+  const [updatingVenueId, setUpdatingVenueId] = useState<string | null>(null);
+  const { capabilities, loading: authLoading } = useAuth();
+  const canManage = capabilities.canManageVenues;
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const fetchVenues = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('venues')
+        .select(VENUE_WITH_FACILITIES_SELECT)
+        .order('name', { ascending: true });
+
+      if (error) {
+        toast({
+          title: "Error fetching venues",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setVenues(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canManage) {
+      toast({
+        title: "Access Denied",
+        description: "You don't have venue management permissions",
+        variant: "destructive",
+      });
+      navigate("/");
+      return;
+    }
+    fetchVenues();
+    fetchFacilityCatalogue();
+  }, [authLoading, canManage, navigate, toast, fetchVenues]);
+
+  const fetchFacilityCatalogue = async () => {
+    const { data, error } = await supabase
+      .from('facilities')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error:', error);
+      return;
+    }
+
+    setFacilityCatalogue(data || []);
+  };
+
+  const setArchived = async (venue: Venue, archived: boolean) => {
+    setUpdatingVenueId(venue.id);
+
+    try {
+      const archived_at = archived ? new Date().toISOString() : null;
+      const { error } = await supabase
+        .from('venues')
+        .update({ archived_at })
+        .eq('id', venue.id);
+
+      if (error) {
+        toast({
+          title: "Error updating venue",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: archived ? "Venue archived" : "Venue restored",
+          description: archived
+            ? `${venue.name} will no longer be offered for new events.`
+            : `${venue.name} is available for new events again.`,
+        });
+        setVenues(venues.map(v => v.id === venue.id ? { ...v, archived_at } : v));
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setUpdatingVenueId(null);
+    }
+  };
+
+  const openForm = (venue: Venue | null) => {
+    setEditingVenue(venue);
+    setFormOpen(true);
+  };
+
+  const activeVenues = venues.filter(venue => !venue.archived_at);
+  const archivedVenues = venues.filter(venue => venue.archived_at);
+
+  if (!canManage) {
+    return null;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading venues...</div>
+      </div>
+    );
+  }
+
+  const renderVenue = (venue: Venue) => (
+    <Card key={venue.id}>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="text-lg">{venue.name}</CardTitle>
+            <CardDescription className="capitalize">{venue.type.replace('_', ' ')}</CardDescription>
+          </div>
+          {venue.archived_at && <Badge variant="secondary">archived</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            {venue.capacity}
+          </span>
+          <span className="flex items-center gap-1">
+            <Ruler className="h-4 w-4" />
+            {venue.area_sqft} sq ft
+          </span>
+          {venue.building && (
+            <span className="flex items-center gap-1">
+              <MapPin className="h-4 w-4" />
+              {venue.building}{venue.floor !== null && `, floor ${venue.floor}`}
+            </span>
+          )}
+          {venue.photo_url && (
+            <a href={venue.photo_url} target="_blank" rel="noreferrer" className="flex items-center gap-1 underline">
+              <ImageIcon className="h-4 w-4" />
+              Photo
+            </a>
+          )}
+          {venue.floor_plan_url && (
+            <a href={venue.floor_plan_url} target="_blank" rel="noreferrer" className="flex items-center gap-1 underline">
+              <MapIcon className="h-4 w-4" />
+              Floor plan
+            </a>
+          )}
+        </div>
+
+        {venue.description && (
+          <p className="text-sm text-muted-foreground">{venue.description}</p>
+        )}
+
+        {venue.venue_facilities.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {venue.venue_facilities.map((facility) => (
+              <span key={facility.facility_id} className="px-2 py-1 bg-accent text-xs rounded">
+                {facility.quantity > 1 && `${facility.quantity} × `}
+                {facility.facilities?.name ?? facility.facility_id}
+                {facility.status === 'on_request' && " (on request)"}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => openForm(venue)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setBlackoutVenue(venue)}>
+            <CalendarOff className="h-4 w-4 mr-2" />
+            Blackouts
+          </Button>
+          {venue.archived_at ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setArchived(venue, false)}
+              disabled={updatingVenueId === venue.id}
+            >
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Restore
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setArchived(venue, true)}
+              disabled={updatingVenueId === venue.id}
+            >
+              <Archive className="h-4 w-4 mr-2" />
+              Archive
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Building2 className="h-6 w-6" />
+          <div>
+            <h1 className="text-3xl font-bold">Venues</h1>
+            <p className="text-muted-foreground">Add, edit and retire campus venues</p>
+          </div>
+        </div>
+
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Venue
+        </Button>
+      </div>
+
+      <Tabs defaultValue="active" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="active">
+            Active ({activeVenues.length})
+          </TabsTrigger>
+          <TabsTrigger value="archived">
+            Archived ({archivedVenues.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="active">
+          {activeVenues.length === 0 ? (
+            <Card>
+              <CardContent className="flex items-center justify-center h-32">
+                <p className="text-muted-foreground">No active venues</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {activeVenues.map(renderVenue)}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="archived">
+          {archivedVenues.length === 0 ? (
+            <Card>
+              <CardContent className="flex items-center justify-center h-32">
+                <p className="text-muted-foreground">No archived venues</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {archivedVenues.map(renderVenue)}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <VenueFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        venue={editingVenue}
+        facilityCatalogue={facilityCatalogue}
+        onCatalogueChanged={fetchFacilityCatalogue}
+        onSaved={fetchVenues}
+      />
+
+      <VenueBlackoutsDialog
+        open={!!blackoutVenue}
+        onOpenChange={(open) => !open && setBlackoutVenue(null)}
+        venue={blackoutVenue}
+      />
+    </div>
+  );
+};
+
+export default AdminVenues;
@@ -1,71 +1,104 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import { Link } from "react-router-dom";
-import { Plus, Calendar, MapPin, Users, BookOpen } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Calendar, MapPin, Users, BookOpen, Repeat, Pencil, Ban, MessageSquare, Send, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  useChangesRequested,
+  useDrafts,
+  useEventCounts,
+  useEventSummaries,
+  useInvalidateEvents,
+  useResubmitEvent,
+  useSubmitEvent,
+  useUpcomingEvents,
+} from "@/hooks/useEvents";
+import { useVenueOptions } from "@/hooks/useVenues";
+import { useProfileOptions } from "@/hooks/useProfiles";
+import { useRealtimeChanges } from "@/hooks/useRealtime";
+import PreemptionRequests from "@/components/PreemptionRequests";
+import CancelEventDialog from "@/components/CancelEventDialog";
+import DiscardDraftDialog from "@/components/DiscardDraftDialog";
+import EventFilterBar from "@/components/EventFilterBar";
+import EventPagination from "@/components/EventPagination";
+import { EventSummary } from "@/repositories/events";
+import { describeRecurrence } from "@/utils/recurrence";
+import { format } from "date-fns";
+import { NOT_DRAFT, clearFilters, cursorFromParams, filtersFromParams } from "@/utils/eventQuery";
 
-interface Event {
-  id: string;
-  title: string;
-  type: string;
-  topic: string | null;
-  student_count: number | null;
-  event_date: string;
-  status: string;
-  venues: {
-    name: string;
-    capacity: number;
-  };
-}
+type Event = EventSummary;
+
+// Approved events previewed above the full list
+const UPCOMING_LIMIT = 6;
+
+// How a reviewer's decision on one of the organiser's events reads in the notice they get
+const DECISION_NOTICES: Record<string, string> = {
+  approved: "was just approved",
+  rejected: "was just rejected",
+  changes_requested: "needs changes before it can be approved",
+  cancelled: "was just cancelled",
+};
+
+// "mine" is the organiser's own events and action items, "campus" everything submitted by anyone
+type DashboardView = 'mine' | 'campus';
 
 const Dashboard = () => {
-  const [events, setEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [cancelling, setCancelling] = useState<Event | null>(null);
+  const [discarding, setDiscarding] = useState<Event | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const { toast } = useToast();
 
-  useEffect(() => {
-    fetchEvents();
-  }, []);
+  const view: DashboardView = searchParams.get('view') === 'campus' ? 'campus' : 'mine';
+  const filters = filtersFromParams(searchParams, { sort: 'event_date', ascending: true });
+  const cursor = cursorFromParams(searchParams);
+  const today = format(new Date(), 'yyyy-MM-dd');
 
-  const fetchEvents = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('events')
-        .select(`
-          id,
-          title,
-          type,
-          topic,
-          student_count,
-          event_date,
-          status,
-          venues (
-            name,
-            capacity
-          )
-        `)
-        .order('event_date', { ascending: true });
-
-      if (error) {
-        toast({
-          title: "Error fetching events",
-          description: error.message,
-          variant: "destructive",
-        });
-      } else {
-        setEvents(data || []);
-      }
-    } catch (error) {
-      console.error('Error:', error);
-    } finally {
-      setLoading(false);
+  // "My events" lists the organiser's own; drafts have their own section there and never reach the campus feed
+  const scope = view === 'mine' ? user?.id ?? '' : null;
+  const listFilters = scope === null ? filters : { ...filters, organiserId: scope };
+
+  const eventsQuery = useEventSummaries(listFilters, cursor, [NOT_DRAFT]);
+  const upcomingQuery = useUpcomingEvents(scope, today, UPCOMING_LIMIT);
+  const countsQuery = useEventCounts(scope, today);
+  // Action items load on either tab so "My events" can show how many are waiting
+  const changesRequestedQuery = useChangesRequested(user?.id);
+  const draftsQuery = useDrafts(user?.id);
+  // Organisers are listed as far as the viewer may see profiles: staff see everyone, students themselves
+  const { data: venues = [] } = useVenueOptions();
+  const { data: organisers = [] } = useProfileOptions();
+  const resubmit = useResubmitEvent();
+  const submit = useSubmitEvent();
+  const invalidateEvents = useInvalidateEvents();
+
+  const events = eventsQuery.data?.rows ?? [];
+  const previousPage = eventsQuery.data?.previous ?? null;
+  const nextPage = eventsQuery.data?.next ?? null;
+  const upcomingEvents = upcomingQuery.data ?? [];
+  const changesRequestedEvents = changesRequestedQuery.data ?? [];
+  const draftEvents = draftsQuery.data ?? [];
+  const counts = countsQuery.data ?? { total: 0, upcoming: 0, pending: 0 };
+  const loading = eventsQuery.isPending;
+  const resubmittingId = resubmit.isPending ? resubmit.variables : null;
+  const submittingId = submit.isPending ? submit.variables : null;
+
+  // Tell the organiser when a reviewer decides one of their events; the lists refresh through the realtime sync
+  useRealtimeChanges('event_status_history', ({ new: change }) => {
+    if (!('event_id' in change) || !DECISION_NOTICES[change.status] || change.changed_by === user?.id) return;
+
+    const event = [...events, ...upcomingEvents, ...changesRequestedEvents]
+      .find(shown => shown.id === change.event_id && shown.user_id === user?.id);
+    if (event) {
+      toast({
+        title: "Event updated",
+        description: `"${event.title}" ${DECISION_NOTICES[change.status]}.`,
+      });
     }
-  };
+  }, { event: 'INSERT' });
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -75,16 +108,72 @@ const Dashboard = () => {
         return 'secondary';
       case 'rejected':
         return 'destructive';
+      case 'changes_requested':
+        return 'secondary';
+      case 'cancelled':
+      case 'draft':
+        return 'outline';
       default:
         return 'secondary';
     }
   };
 
-  const upcomingEvents = events.filter(event => 
-    new Date(event.event_date) >= new Date() && event.status === 'approved'
-  );
+  // Split events list their primary venue first
+  const venueNames = (event: Event) =>
+    [event.venues, ...event.event_venues.map(extra => extra.venues)].map(venue => venue.name).join(' + ');
+
+  const venueCapacity = (event: Event) =>
+    event.event_venues.reduce((total, extra) => total + extra.venues.capacity, event.venues.capacity);
+
+  // Organisers can change or call off their own events until they are rejected or cancelled
+  const canModify = (event: Event) =>
+    event.user_id === user?.id && ['pending', 'changes_requested', 'approved'].includes(event.status);
+
+  // The comment that went with the event's latest rejection or request for changes
+  const latestReview = (event: Event) =>
+    event.event_comments
+      .filter(comment => comment.kind === 'rejected' || comment.kind === 'changes_requested')
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+  const resubmitEvent = async (eventId: string) => {
+    try {
+      await resubmit.mutateAsync(eventId);
+      toast({
+        title: "Event resubmitted",
+        description: "Your event is back in the approval queue.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error resubmitting event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitEvent = async (eventId: string) => {
+    try {
+      await submit.mutateAsync(eventId);
+      toast({
+        title: "Event submitted",
+        description: "Your event has been sent for approval.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error submitting event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
 
-  const pendingEvents = events.filter(event => event.status === 'pending');
+  // Filters belong to the list they were set on, so switching tabs starts afresh
+  const switchView = (value: string) => {
+    const next = clearFilters(searchParams);
+    if (value === 'campus') next.set('view', value);
+    else next.delete('view');
+    setSearchParams(next);
+  };
 
   if (loading) {
     return (
@@ -94,6 +183,184 @@ const Dashboard = () => {
     );
   }
 
+  const mine = view === 'mine';
+  const actionItems = changesRequestedEvents.length + draftEvents.length;
+
+  const stats = (
+    <div className="grid gap-6 md:grid-cols-3">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">{mine ? "My Events" : "Campus Events"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">{counts.total}</div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Upcoming Events</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-primary">{counts.upcoming}</div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">{mine ? "Awaiting Approval" : "Pending Approval"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-secondary-foreground">{counts.pending}</div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+
+  const upcoming = (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-semibold">{mine ? "My Upcoming Events" : "Upcoming Events"}</h2>
+        {counts.upcoming > UPCOMING_LIMIT && (
+          <Link to={`/?${mine ? "" : "view=campus&"}status=approved&from=${today}`}>
+            <Button variant="link">View all {counts.upcoming}</Button>
+          </Link>
+        )}
+      </div>
+      {upcomingEvents.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center h-32">
+            <p className="text-muted-foreground">No upcoming events</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {upcomingEvents.map((event) => (
+            <Card key={event.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <CardTitle className="text-lg">
+                    <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                  </CardTitle>
+                  <Badge variant={getStatusColor(event.status)}>
+                    {event.status.replace('_', ' ')}
+                  </Badge>
+                </div>
+                <CardDescription className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4" />
+                  {new Date(event.event_date).toLocaleDateString()}
+                  {event.span_days > 1 && ` · ${event.span_days} days`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {event.recurrence_rule && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Repeat className="h-4 w-4" />
+                    {describeRecurrence(event.recurrence_rule)}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <BookOpen className="h-4 w-4" />
+                  <span className="capitalize">{event.type}</span>
+                  {event.topic && <span>• {event.topic}</span>}
+                </div>
+
+                {event.student_count && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Users className="h-4 w-4" />
+                    {event.student_count} students expected
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <MapPin className="h-4 w-4" />
+                  {venueNames(event)} (Capacity: {venueCapacity(event)})
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const eventList = (
+    <div>
+      <h2 className="text-2xl font-semibold mb-4">{mine ? "My Submissions" : "All Events"}</h2>
+      <div className="mb-4">
+        <EventFilterBar filters={filters} venues={venues} organisers={organisers} showOrganiser={!mine} />
+      </div>
+      {events.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center h-32 space-y-2">
+            <p className="text-muted-foreground">No events found</p>
+            {mine && counts.total === 0 && draftEvents.length === 0 && (
+              <Link to="/add-event">
+                <Button variant="outline">Create Your First Event</Button>
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {events.map((event) => (
+            <Card key={event.id}>
+              <CardContent className="flex justify-between items-center p-6">
+                <div className="space-y-1">
+                  <h3 className="font-semibold">
+                    <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                  </h3>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-4 w-4" />
+                      {new Date(event.event_date).toLocaleDateString()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-4 w-4" />
+                      {venueNames(event)}
+                    </span>
+                    <span className="capitalize">{event.type}</span>
+                  </div>
+                  {event.status === 'pending' && event.approval_stages && (
+                    <p className="text-sm text-muted-foreground">Waiting on: {event.approval_stages.name}</p>
+                  )}
+                  {event.status === 'cancelled' && event.cancellation_reason && (
+                    <p className="text-sm text-muted-foreground">Cancelled: {event.cancellation_reason}</p>
+                  )}
+                  {event.status === 'rejected' && latestReview(event) && (
+                    <p className="text-sm text-muted-foreground">Rejected: {latestReview(event).body}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {canModify(event) && (
+                    <>
+                      <Link to={`/events/${event.id}/edit`}>
+                        <Button size="sm" variant="outline">
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                      </Link>
+                      <Button size="sm" variant="outline" onClick={() => setCancelling(event)}>
+                        <Ban className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    </>
+                  )}
+                  <Badge variant={getStatusColor(event.status)}>
+                    {event.status.replace('_', ' ')}
+                  </Badge>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          <EventPagination previous={previousPage} next={nextPage} />
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-8">
       <div className="flex justify-between items-center">
@@ -101,7 +368,7 @@ const Dashboard = () => {
           <h1 className="text-3xl font-bold text-foreground">Event Dashboard</h1>
           <p className="text-muted-foreground">Manage and track your college events</p>
         </div>
-        
+
         <Link to="/add-event">
           <Button>
             <Plus className="h-4 w-4 mr-2" />
@@ -110,128 +377,143 @@ const Dashboard = () => {
         </Link>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-3">
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium">Total Events</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{events.length}</div>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium">Upcoming Events</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-primary">{upcomingEvents.length}</div>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium">Pending Approval</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-secondary-foreground">{pendingEvents.length}</div>
-          </CardContent>
-        </Card>
-      </div>
+      <Tabs value={view} onValueChange={switchView} className="space-y-8">
+        <TabsList>
+          <TabsTrigger value="mine">
+            My Events{actionItems > 0 && ` (${actionItems} to do)`}
+          </TabsTrigger>
+          <TabsTrigger value="campus">Campus Events</TabsTrigger>
+        </TabsList>
 
-      <div className="space-y-6">
-        <div>
-          <h2 className="text-2xl font-semibold mb-4">Upcoming Events</h2>
-          {upcomingEvents.length === 0 ? (
-            <Card>
-              <CardContent className="flex items-center justify-center h-32">
-                <p className="text-muted-foreground">No upcoming events</p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid gap-4 md:grid-cols-2">
-              {upcomingEvents.map((event) => (
-                <Card key={event.id}>
-                  <CardHeader>
-                    <div className="flex justify-between items-start">
-                      <CardTitle className="text-lg">{event.title}</CardTitle>
-                      <Badge variant={getStatusColor(event.status)}>
-                        {event.status}
-                      </Badge>
-                    </div>
-                    <CardDescription className="flex items-center gap-2">
-                      <Calendar className="h-4 w-4" />
-                      {new Date(event.event_date).toLocaleDateString()}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <BookOpen className="h-4 w-4" />
-                      <span className="capitalize">{event.type}</span>
-                      {event.topic && <span>• {event.topic}</span>}
-                    </div>
-                    
-                    {event.student_count && (
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Users className="h-4 w-4" />
-                        {event.student_count} students expected
+        <TabsContent value="mine" className="space-y-8">
+          {stats}
+
+          {user && <PreemptionRequests userId={user.id} onResolved={invalidateEvents} />}
+
+          {changesRequestedEvents.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-semibold mb-4">Changes Requested</h2>
+              <div className="space-y-4">
+                {changesRequestedEvents.map((event) => (
+                  <Card key={event.id} className="border-amber-300">
+                    <CardContent className="space-y-3 p-6">
+                      <div className="flex justify-between items-center">
+                        <h3 className="font-semibold">
+                          <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                        </h3>
+                        <Badge variant={getStatusColor(event.status)}>
+                          {event.status.replace('_', ' ')}
+                        </Badge>
                       </div>
-                    )}
-                    
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <MapPin className="h-4 w-4" />
-                      {event.venues.name} (Capacity: {event.venues.capacity})
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                      {latestReview(event) && (
+                        <p className="flex items-start gap-2 text-sm">
+                          <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                          {latestReview(event).body}
+                        </p>
+                      )}
+                      <div className="flex gap-2">
+                        <Link to={`/events/${event.id}/edit`}>
+                          <Button size="sm">
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit & Resubmit
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resubmitEvent(event.id)}
+                          disabled={resubmittingId === event.id}
+                        >
+                          <Send className="h-4 w-4 mr-2" />
+                          Resubmit Unchanged
+                        </Button>
+                        <Link to={`/events/${event.id}`}>
+                          <Button size="sm" variant="ghost">Reply</Button>
+                        </Link>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
             </div>
           )}
-        </div>
 
-        <div>
-          <h2 className="text-2xl font-semibold mb-4">All Events</h2>
-          {events.length === 0 ? (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center h-32 space-y-2">
-                <p className="text-muted-foreground">No events found</p>
-                <Link to="/add-event">
-                  <Button variant="outline">Create Your First Event</Button>
-                </Link>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-4">
-              {events.map((event) => (
-                <Card key={event.id}>
-                  <CardContent className="flex justify-between items-center p-6">
-                    <div className="space-y-1">
-                      <h3 className="font-semibold">{event.title}</h3>
-                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                        <span className="flex items-center gap-1">
-                          <Calendar className="h-4 w-4" />
-                          {new Date(event.event_date).toLocaleDateString()}
-                        </span>
-                        <span className="flex items-center gap-1">
-                          <MapPin className="h-4 w-4" />
-                          {event.venues.name}
-                        </span>
-                        <span className="capitalize">{event.type}</span>
+          {draftEvents.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-semibold mb-4">Drafts</h2>
+              <div className="space-y-4">
+                {draftEvents.map((event) => (
+                  <Card key={event.id} className="border-dashed">
+                    <CardContent className="flex justify-between items-center p-6">
+                      <div className="space-y-1">
+                        <h3 className="font-semibold">
+                          <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                        </h3>
+                        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-4 w-4" />
+                            {new Date(event.event_date).toLocaleDateString()}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-4 w-4" />
+                            {venueNames(event)}
+                          </span>
+                          <span>Started {format(new Date(event.created_at), 'PP')}</span>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <Link to={`/events/${event.id}/edit`}>
+                          <Button size="sm" variant="outline">
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          onClick={() => submitEvent(event.id)}
+                          disabled={submittingId === event.id}
+                        >
+                          <Send className="h-4 w-4 mr-2" />
+                          Submit
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setDiscarding(event)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Discard
+                        </Button>
                       </div>
-                    </div>
-                    
-                    <Badge variant={getStatusColor(event.status)}>
-                      {event.status}
-                    </Badge>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
             </div>
           )}
-        </div>
-      </div>
+
+          {upcoming}
+
+          {eventList}
+        </TabsContent>
+
+        <TabsContent value="campus" className="space-y-8">
+          {stats}
+
+          {upcoming}
+
+          {eventList}
+        </TabsContent>
+      </Tabs>
+
+      <CancelEventDialog
+        event={cancelling}
+        onOpenChange={(open) => !open && setCancelling(null)}
+      />
+
+      <DiscardDraftDialog
+        event={discarding}
+        onOpenChange={(open) => !open && setDiscarding(null)}
+      />
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
@@ -0,0 +1,396 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { addDays, addMonths, addWeeks, format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Tables } from "@/integrations/supabase/types";
+import { rescheduleOccurrence } from "@/repositories/events";
+import CalendarGrid from "@/components/CalendarGrid";
+import VenueTimeline from "@/components/VenueTimeline";
+import {
+  BLOCKED_STYLE,
+  CALENDAR_STATUSES,
+  CalendarItem,
+  CalendarView,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  VenueBlock,
+  getViewRange,
+  itemsFromOccurrences,
+} from "@/utils/calendar";
+import {
+  VenueSelectionAlgorithm,
+  VenueWithFacilities,
+  VENUE_WITH_FACILITIES_SELECT,
+  expandBlackout,
+  toBookingRange,
+} from "@/utils/venueSelection";
+
+type VenueBooking = Tables<'venue_bookings'>;
+type VenueBlackout = Tables<'venue_blackouts'>;
+
+const VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: "Month" },
+  { value: 'week', label: "Week" },
+  { value: 'day', label: "Day" },
+  { value: 'timeline', label: "Venue Timeline" },
+];
+
+const OCCURRENCE_SELECT = `id, starts_at, ends_at, status,
+  events!inner (id, title, status, student_count, venue_id, recurrence_rule,
+    venues!events_venue_id_fkey (name),
+    event_venues (venue_id, venues (name)))` as const;
+
+const BOOKING_KIND_LABELS: Record<string, string> = {
+  maintenance: "Maintenance",
+  hold: "Hold",
+};
+
+interface VenueCheck {
+  venue: VenueWithFacilities;
+  conflicts: VenueBooking[];
+  blackouts: VenueBlackout[];
+}
+
+interface PendingMove {
+  item: CalendarItem;
+  // Set only when the event moves to another venue
+  venueId: string | null;
+  start: Date;
+  end: Date;
+  checks: VenueCheck[];
+}
+
+const shiftDate = (view: CalendarView, date: Date, amount: number) => {
+  switch (view) {
+    case 'month':
+      return addMonths(date, amount);
+    case 'week':
+      return addWeeks(date, amount);
+    default:
+      return addDays(date, amount);
+  }
+};
+
+const formatViewTitle = (view: CalendarView, date: Date) => {
+  const range = getViewRange(view, date);
+  switch (view) {
+    case 'month':
+      return format(date, 'MMMM yyyy');
+    case 'week':
+      return `${format(range.start, 'd MMM')} – ${format(range.end, 'd MMM yyyy')}`;
+    default:
+      return format(date, 'EEEE, PPP');
+  }
+};
+
+/** Month, week and day calendars of events, and a venue-by-time timeline of a day */
+const EventCalendar = () => {
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [venues, setVenues] = useState<VenueWithFacilities[]>([]);
+  const [bookings, setBookings] = useState<VenueBooking[]>([]);
+  const [blackouts, setBlackouts] = useState<VenueBlackout[]>([]);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { capabilities } = useAuth();
+  const { toast } = useToast();
+
+  const view = (VIEWS.some(option => option.value === searchParams.get('view'))
+    ? searchParams.get('view')
+    : 'month') as CalendarView;
+  const dateParam = searchParams.get('date');
+  const date = dateParam ? new Date(`${dateParam}T00:00`) : new Date();
+  const range = getViewRange(view, date);
+  // Compared by value, as the range itself is rebuilt on every render
+  const rangeStart = range.start.toISOString();
+  const rangeEnd = range.end.toISOString();
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const [occurrencesResult, venuesResult, bookingsResult, blackoutsResult] = await Promise.all([
+        supabase
+          .from('event_occurrences')
+          .select(OCCURRENCE_SELECT)
+          .neq('status', 'cancelled')
+          .in('events.status', CALENDAR_STATUSES)
+          .lt('starts_at', rangeEnd)
+          .gt('ends_at', rangeStart)
+          .order('starts_at'),
+        supabase.from('venues').select(VENUE_WITH_FACILITIES_SELECT).is('archived_at', null).order('name'),
+        // A day either side so buffers around the edges of the range are still checked
+        supabase
+          .from('venue_bookings')
+          .select('*')
+          .lt('starts_at', addDays(new Date(rangeEnd), 1).toISOString())
+          .gt('ends_at', addDays(new Date(rangeStart), -1).toISOString()),
+        supabase.from('venue_blackouts').select('*'),
+      ]);
+
+      const fetchError = occurrencesResult.error || venuesResult.error || bookingsResult.error || blackoutsResult.error;
+      if (fetchError) {
+        toast({
+          title: "Error loading calendar",
+          description: fetchError.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setItems(itemsFromOccurrences(occurrencesResult.data || []));
+      setVenues(venuesResult.data || []);
+      setBookings(bookingsResult.data || []);
+      setBlackouts(blackoutsResult.data || []);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeStart, rangeEnd, toast]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const setViewState = (nextView: CalendarView, nextDate: Date) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('view', nextView);
+    next.set('date', format(nextDate, 'yyyy-MM-dd'));
+    setSearchParams(next);
+  };
+
+  // Maintenance holds and blackouts, which the timeline greys out
+  const blocks: VenueBlock[] = [
+    ...bookings
+      .filter(booking => booking.kind !== 'event')
+      .map(booking => ({
+        ...toBookingRange(booking),
+        venueId: booking.venue_id,
+        label: booking.notes || BOOKING_KIND_LABELS[booking.kind] || booking.kind,
+      })),
+    ...blackouts.flatMap(blackout =>
+      expandBlackout(blackout, range).map(closure => ({ ...closure, venueId: blackout.venue_id, label: blackout.reason }))
+    ),
+  ];
+
+  const conflictLabel = (booking: VenueBooking) =>
+    items.find(item => item.eventId === booking.event_id)?.title ?? BOOKING_KIND_LABELS[booking.kind] ?? "Another event";
+
+  const handleMove = (item: CalendarItem, venueId: string, start: Date) => {
+    const venueChanged = !item.venueIds.includes(venueId);
+    if (venueChanged && !item.canChangeVenue) {
+      toast({
+        title: "Venue cannot change here",
+        description: "Series and split events can only change venue from their edit page",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const end = new Date(start.getTime() + (item.end.getTime() - item.start.getTime()));
+    // The event's own bookings move with it, so they never block the new slot
+    const algorithm = new VenueSelectionAlgorithm(
+      venues,
+      bookings.filter(booking => booking.event_id !== item.eventId),
+      blackouts
+    );
+    const checks = (venueChanged ? [venueId] : item.venueIds)
+      .map(id => venues.find(venue => venue.id === id))
+      .filter((venue): venue is VenueWithFacilities => !!venue)
+      .map(venue => ({ venue, ...algorithm.checkAvailability(venue, [{ start, end }]) }));
+
+    setPendingMove({ item, venueId: venueChanged ? venueId : null, start, end, checks });
+  };
+
+  const confirmMove = async () => {
+    if (!pendingMove) return;
+    setSaving(true);
+
+    try {
+      const result = await rescheduleOccurrence({
+        occurrenceId: pendingMove.item.occurrenceId,
+        startsAt: pendingMove.start,
+        venueId: pendingMove.venueId ?? undefined,
+      });
+
+      if (!result.rescheduled) {
+        toast({
+          title: "Could not reschedule event",
+          description: result.reason,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Event rescheduled",
+        description: `${pendingMove.item.title} now starts ${format(pendingMove.start, 'PPP p')}`,
+      });
+      setPendingMove(null);
+      fetchCalendar();
+    } catch (error) {
+      toast({
+        title: "Could not reschedule event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading calendar...</div>
+      </div>
+    );
+  }
+
+  const blocked = pendingMove?.checks.some(check => check.conflicts.length > 0 || check.blackouts.length > 0);
+  const movedTo = pendingMove?.venueId ? pendingMove.checks[0]?.venue : null;
+  const overCapacity = movedTo && (pendingMove?.item.studentCount ?? 0) > movedTo.capacity;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-2">
+        <CalendarDays className="h-6 w-6" />
+        <div>
+          <h1 className="text-3xl font-bold">Calendar</h1>
+          <p className="text-muted-foreground">
+            Which venues are busy, and when
+            {capabilities.canApproveEvents && view === 'timeline' && " · drag a booking to reschedule it"}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Tabs value={view} onValueChange={(value) => setViewState(value as CalendarView, date)}>
+          <TabsList>
+            {VIEWS.map((option) => (
+              <TabsTrigger key={option.value} value={option.value}>{option.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-2">
+          <Button size="icon" variant="outline" aria-label="Previous" onClick={() => setViewState(view, shiftDate(view, date, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setViewState(view, new Date())}>Today</Button>
+          <Button size="icon" variant="outline" aria-label="Next" onClick={() => setViewState(view, shiftDate(view, date, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="ml-2 font-medium">{formatViewTitle(view, date)}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {CALENDAR_STATUSES.map((status) => (
+          <span key={status} className={cn("rounded border px-2 py-0.5", STATUS_STYLES[status])}>
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+        {view === 'timeline' && (
+          <span className={cn("rounded border px-2 py-0.5", BLOCKED_STYLE)}>Maintenance or blackout</span>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          {view === 'timeline' ? (
+            <VenueTimeline
+              date={date}
+              venues={venues}
+              items={items}
+              blocks={blocks}
+              onMove={capabilities.canApproveEvents ? handleMove : undefined}
+            />
+          ) : (
+            <CalendarGrid
+              view={view}
+              date={date}
+              items={items}
+              onSelectDay={(day) => setViewState('day', day)}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reschedule {pendingMove?.item.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMove && (
+                <>
+                  Move from {format(pendingMove.item.start, 'PPP p')} to{" "}
+                  {format(pendingMove.start, 'PPP p')}–{format(pendingMove.end, 'p')}
+                  {movedTo ? ` in ${movedTo.name}` : ` in ${pendingMove.item.venueNames}`}.
+                  {" "}The organiser sees a note on the event.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {pendingMove?.checks.map(({ venue, conflicts, blackouts: closures }) => (
+            (conflicts.length > 0 || closures.length > 0) && (
+              <div key={venue.id} className="rounded-md border border-destructive/50 p-3 text-sm space-y-1">
+                <div className="flex items-center gap-2 font-medium text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  {venue.name} is not free
+                </div>
+                {conflicts.map((booking) => (
+                  <div key={booking.id} className="text-muted-foreground">
+                    {conflictLabel(booking)} · {format(new Date(booking.starts_at), 'p')}–{format(new Date(booking.ends_at), 'p')}
+                  </div>
+                ))}
+                {closures.map((blackout) => (
+                  <div key={blackout.id} className="text-muted-foreground">Closed: {blackout.reason}</div>
+                ))}
+              </div>
+            )
+          ))}
+
+          {overCapacity && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              {movedTo.name} seats {movedTo.capacity}, fewer than the {pendingMove?.item.studentCount} expected
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={saving || blocked}
+              onClick={(e) => {
+                e.preventDefault();
+                confirmMove();
+              }}
+            >
+              {saving ? "Rescheduling..." : "Reschedule"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EventCalendar;
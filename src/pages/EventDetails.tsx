@@ -0,0 +1,518 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useResubmitEvent, useSubmitEvent } from "@/hooks/useEvents";
+import { ArrowLeft, Ban, BookOpen, Calendar, Check, Clock, History, ListChecks, MapPin, Pencil, ScrollText, Send, Sparkles, Trash2, User, Wrench } from "lucide-react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { EVENT_FACILITIES_SELECT, EventWithFacilities, VenueMatchSnapshot } from "@/utils/venueSelection";
+import { describeRecurrence } from "@/utils/recurrence";
+import ScoreBreakdownCard from "@/components/ScoreBreakdownCard";
+import OccurrenceList, { Occurrence } from "@/components/OccurrenceList";
+import CancelEventDialog from "@/components/CancelEventDialog";
+import DiscardDraftDialog from "@/components/DiscardDraftDialog";
+import EventComments from "@/components/EventComments";
+
+type EventVenue = Pick<Tables<'venues'>, 'name' | 'capacity' | 'building' | 'floor'>;
+type StatusChange = Tables<'event_status_history'>;
+type SignOff = Tables<'event_approvals'>;
+
+type Event = EventWithFacilities & {
+  venues: EventVenue;
+  event_venues: { venues: EventVenue }[];
+  event_occurrences: Occurrence[];
+  approval_chains: {
+    name: string;
+    approval_stages: Pick<Tables<'approval_stages'>, 'id' | 'name' | 'position'>[];
+  } | null;
+};
+
+const formatTime = (time: string) => format(new Date(`2000-01-01T${time}`), 'h:mm a');
+
+const yesNo = (value: boolean | null) => value ? "Yes" : "No";
+
+/** Everything captured for an event, how its venue was chosen and how its status has moved */
+const EventDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const [event, setEvent] = useState<Event | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [signOffs, setSignOffs] = useState<SignOff[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [cancelling, setCancelling] = useState(false);
+  const [discarding, setDiscarding] = useState(false);
+  const [commentsVersion, setCommentsVersion] = useState(0);
+  const { user, capabilities } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const resubmit = useResubmitEvent();
+  const submit = useSubmitEvent();
+  const resubmitting = resubmit.isPending;
+  const submitting = submit.isPending;
+
+  const fetchEvent = useCallback(async (eventId: string) => {
+    try {
+      const [
+        { data, error },
+        { data: historyData, error: historyError },
+        { data: signOffsData },
+      ] = await Promise.all([
+        supabase
+          .from('events')
+          .select(`
+            *,
+            ${EVENT_FACILITIES_SELECT},
+            venues!events_venue_id_fkey (name, capacity, building, floor),
+            event_venues (venues (name, capacity, building, floor)),
+            event_occurrences (id, starts_at, ends_at, status),
+            approval_chains!events_approval_chain_id_fkey (name, approval_stages (id, name, position))
+          `)
+          .eq('id', eventId)
+          .single(),
+        supabase
+          .from('event_status_history')
+          .select('*')
+          .eq('event_id', eventId)
+          .order('changed_at', { ascending: true }),
+        // Only the organiser and approvers can read sign-offs; others see the stages alone
+        supabase
+          .from('event_approvals')
+          .select('*')
+          .eq('event_id', eventId)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (error || historyError) {
+        toast({
+          title: "Error fetching event",
+          description: (error || historyError)!.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Organiser and everyone who moved the status along or signed off a stage
+      const userIds = Array.from(new Set([
+        data.user_id,
+        ...(historyData || []).flatMap(change => change.changed_by ? [change.changed_by] : []),
+        ...(signOffsData || []).flatMap(signOff => signOff.approved_by ? [signOff.approved_by] : []),
+      ]));
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .in('user_id', userIds);
+
+      setEvent(data);
+      setHistory(historyData || []);
+      setSignOffs(signOffsData || []);
+      setNames(Object.fromEntries((profilesData || []).map(profile => [profile.user_id, profile.name])));
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (id) fetchEvent(id);
+  }, [id, fetchEvent]);
+
+  const resubmitEvent = async (eventId: string) => {
+    try {
+      await resubmit.mutateAsync(eventId);
+      toast({
+        title: "Event resubmitted",
+        description: "Your event is back in the approval queue.",
+      });
+      setCommentsVersion(version => version + 1);
+      await fetchEvent(eventId);
+    } catch (error) {
+      toast({
+        title: "Error resubmitting event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitEvent = async (eventId: string) => {
+    try {
+      await submit.mutateAsync(eventId);
+      toast({
+        title: "Event submitted",
+        description: "Your event has been sent for approval.",
+      });
+      await fetchEvent(eventId);
+    } catch (error) {
+      toast({
+        title: "Error submitting event",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'approved':
+        return 'default';
+      case 'pending':
+        return 'secondary';
+      case 'rejected':
+        return 'destructive';
+      case 'changes_requested':
+        return 'secondary';
+      case 'cancelled':
+      case 'draft':
+        return 'outline';
+      default:
+        return 'secondary';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading event...</div>
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 space-y-2">
+        <p className="text-muted-foreground">Event not found</p>
+        <Link to="/">
+          <Button variant="outline">Back to Dashboard</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const allVenues = [event.venues, ...event.event_venues.map(extra => extra.venues)];
+  const match = event.venue_match as unknown as VenueMatchSnapshot | null;
+  const isOrganiser = event.user_id === user?.id;
+
+  // Stages before the current one are signed off; an approved event has passed them all
+  const stages = [...(event.approval_chains?.approval_stages ?? [])].sort((a, b) => a.position - b.position);
+  const currentStageIndex = stages.findIndex(stage => stage.id === event.approval_stage_id);
+  const stageState = (index: number) => {
+    if (event.status === 'approved' || (currentStageIndex !== -1 && index < currentStageIndex)) return 'signed off';
+    if (index === currentStageIndex) return 'waiting';
+    return event.status === 'pending' ? 'upcoming' : null;
+  };
+  const latestSignOff = (stageId: string) =>
+    signOffs.filter(signOff => signOff.stage_id === stageId).slice(-1)[0];
+  const canModify = isOrganiser && ['draft', 'pending', 'changes_requested', 'approved'].includes(event.status);
+
+  const requirements: [string, string][] = event.type === 'technical'
+    ? [
+      ["Topic", event.topic || "—"],
+      ["Computing needs", event.computing_requirement?.length ? event.computing_requirement.join(", ") : "None"],
+      ["Group event", yesNo(event.is_group_event)],
+      ...(event.is_group_event ? [["Teams", String(event.number_of_teams ?? 0)] as [string, string]] : []),
+      ["Evaluation setup", yesNo(event.evaluation_setup)],
+    ]
+    : [
+      ["Category", event.event_category || "—"],
+      ["Space type", event.space_type || "Any"],
+      ["Stage", yesNo(event.stage_requirement)],
+      ["Sound system", yesNo(event.sound_requirement)],
+      ["Stalls", String(event.stalls_needed ?? 0)],
+      ["Audience participation", yesNo(event.audience_participation)],
+    ];
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{event.title}</h1>
+            <p className="text-muted-foreground">
+              Organised by {names[event.user_id] ?? "Unknown User"} · {event.status === 'draft' ? "drafted" : "submitted"} {format(new Date(event.created_at), 'PPP')}
+            </p>
+          </div>
+        </div>
+        <Badge variant={getStatusColor(event.status)}>{event.status.replace('_', ' ')}</Badge>
+      </div>
+
+      {canModify && (
+        <div className="flex gap-2">
+          <Link to={`/events/${event.id}/edit`}>
+            <Button variant="outline">
+              <Pencil className="h-4 w-4 mr-2" />
+              {event.status === 'changes_requested' ? "Edit & Resubmit" : "Edit"}
+            </Button>
+          </Link>
+          {event.status === 'changes_requested' && (
+            <Button variant="outline" onClick={() => resubmitEvent(event.id)} disabled={resubmitting}>
+              <Send className="h-4 w-4 mr-2" />
+              Resubmit Unchanged
+            </Button>
+          )}
+          {event.status === 'draft' ? (
+            <>
+              <Button onClick={() => submitEvent(event.id)} disabled={submitting}>
+                <Send className="h-4 w-4 mr-2" />
+                Submit for Approval
+              </Button>
+              <Button variant="outline" onClick={() => setDiscarding(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Discard Draft
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => setCancelling(true)}>
+              <Ban className="h-4 w-4 mr-2" />
+              Cancel Event
+            </Button>
+          )}
+        </div>
+      )}
+
+      {event.status === 'cancelled' && event.cancellation_reason && (
+        <Card className="border-destructive">
+          <CardContent className="p-4 text-sm">
+            <strong>Cancelled:</strong> {event.cancellation_reason}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Schedule
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-muted-foreground">Date</p>
+              <p>{format(new Date(`${event.event_date}T00:00`), 'PPPP')}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Time</p>
+              <p className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {event.time_slot ? formatTime(event.time_slot) : "—"} for {event.duration_hours ?? 2}h
+                {event.span_days > 1 && `, over ${event.span_days} days`}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Repeats</p>
+              <p>{describeRecurrence(event.recurrence_rule)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Priority</p>
+              <p className="capitalize">{event.priority ?? "medium"}</p>
+            </div>
+          </div>
+          {event.event_occurrences.length > 1 && (
+            <OccurrenceList occurrences={event.event_occurrences} busy={false} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Requirements
+          </CardTitle>
+          <CardDescription className="capitalize">
+            {event.type} event for {event.student_count ?? "an unknown number of"} students
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            {requirements.map(([label, value]) => (
+              <div key={label}>
+                <p className="text-muted-foreground">{label}</p>
+                <p>{value}</p>
+              </div>
+            ))}
+          </div>
+          <div>
+            <p className="flex items-center gap-1 text-muted-foreground">
+              <Wrench className="h-4 w-4" />
+              Facilities
+            </p>
+            {event.event_facilities.length === 0 ? (
+              <p>None requested</p>
+            ) : (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {event.event_facilities.map((required) => (
+                  <span key={required.facility_id} className="px-2 py-1 bg-muted text-xs rounded">
+                    {required.quantity > 1 && `${required.quantity} × `}
+                    {required.facilities?.name ?? required.facility_id}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            {allVenues.length > 1 ? `Venues (split across ${allVenues.length})` : "Venue"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {allVenues.map((venue) => (
+            <div key={venue.name} className="flex justify-between">
+              <span className="font-medium">{venue.name}</span>
+              <span className="text-muted-foreground">
+                Capacity {venue.capacity}
+                {venue.building && ` · ${venue.building}`}
+                {venue.floor !== null && `, floor ${venue.floor}`}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Venue Match at Submission
+          </CardTitle>
+          <CardDescription>How the selection algorithm scored the venue the organiser picked</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {match ? (
+            <>
+              <p>
+                <strong>{match.venueName}</strong> scored {Math.round(match.score)}
+                {match.venueName !== event.venues.name && ` (the event has since moved to ${event.venues.name})`}
+              </p>
+              <p className="text-muted-foreground">{match.reason}</p>
+              {match.breakdown.derived.length > 0 && (
+                <ul className="list-disc pl-5 text-xs text-muted-foreground">
+                  {match.breakdown.derived.map((line) => <li key={line}>{line}</li>)}
+                </ul>
+              )}
+              <ScoreBreakdownCard match={match} />
+            </>
+          ) : (
+            <p className="text-muted-foreground">
+              {allVenues.length > 1
+                ? "Split events are not scored as a single venue."
+                : "No match explanation was recorded for this event."}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {event.approval_chains && stages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Approval Progress
+            </CardTitle>
+            <CardDescription>Routed through the {event.approval_chains.name} chain</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {stages.map((stage, idx) => {
+                const state = stageState(idx);
+                const signOff = state === 'signed off' ? latestSignOff(stage.id) : undefined;
+                return (
+                  <li key={stage.id} className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      {state === 'signed off'
+                        ? <Check className="h-4 w-4 text-primary" />
+                        : <span className="w-4 text-center text-muted-foreground">{idx + 1}</span>}
+                      <span className="font-medium">{stage.name}</span>
+                      {state && (
+                        <Badge variant={state === 'waiting' ? 'secondary' : 'outline'}>{state}</Badge>
+                      )}
+                    </div>
+                    {signOff && (
+                      <p className="pl-6 text-xs text-muted-foreground">
+                        {signOff.approved_by ? names[signOff.approved_by] ?? "Unknown User" : "Unknown User"} · {format(new Date(signOff.created_at), 'PPP p')}
+                        {signOff.comment && ` · ${signOff.comment}`}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Status Timeline
+            </CardTitle>
+            {capabilities.canViewAuditLog && (
+              <Link to={`/admin/audit?entity=events&record=${event.id}`}>
+                <Button size="sm" variant="outline">
+                  <ScrollText className="h-4 w-4 mr-2" />
+                  Full Audit Trail
+                </Button>
+              </Link>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes recorded</p>
+          ) : (
+            <ol className="space-y-3 border-l pl-4">
+              {history.map((change) => (
+                <li key={change.id} className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={getStatusColor(change.status)}>{change.status.replace('_', ' ')}</Badge>
+                    <span className="text-muted-foreground">{format(new Date(change.changed_at), 'PPP p')}</span>
+                  </div>
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <User className="h-3 w-3" />
+                    {change.changed_by ? names[change.changed_by] ?? "Unknown User" : "System"}
+                  </p>
+                  {change.note && <p className="text-xs">{change.note}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      {(isOrganiser || capabilities.canApproveEvents) && (
+        <EventComments eventId={event.id} organiserId={event.user_id} refreshKey={commentsVersion} />
+      )}
+
+      <CancelEventDialog
+        event={cancelling ? event : null}
+        onOpenChange={(open) => !open && setCancelling(false)}
+        onCancelled={() => fetchEvent(event.id)}
+      />
+
+      <DiscardDraftDialog
+        event={discarding ? event : null}
+        onOpenChange={(open) => !open && setDiscarding(false)}
+        onDiscarded={() => navigate('/')}
+      />
+    </div>
+  );
+};
+
+export default EventDetails;
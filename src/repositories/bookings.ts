@@ -0,0 +1,22 @@
+// Typed reads of venue bookings and of approved events that collide with blackouts
+
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Tables } from "@/integrations/supabase/types";
+
+export type VenueBooking = Tables<'venue_bookings'>;
+export type BlackoutConflict = Database['public']['Functions']['blackout_event_conflicts']['Returns'][number];
+
+/**
+ * Bookings still running at or after the given time
+ */
+export const fetchBookingsFrom = async (from: Date): Promise<VenueBooking[]> => {
+  const { data, error } = await supabase.from('venue_bookings').select('*').gte('ends_at', from.toISOString());
+  if (error) throw error;
+  return data;
+};
+
+export const fetchBlackoutConflicts = async (): Promise<BlackoutConflict[]> => {
+  const { data, error } = await supabase.rpc('blackout_event_conflicts');
+  if (error) throw error;
+  return data;
+};
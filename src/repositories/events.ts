@@ -0,0 +1,501 @@
+// Typed reads and writes of events, built on the generated Database types. Reads return rows in the shape
+// their select embeds; every function throws the Supabase error instead of returning it. Functions returning
+// JSON are parsed against a schema here, so a result of the wrong shape throws instead of reaching the pages.
+
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { EVENT_FACILITIES_SELECT, EventWithFacilities } from "@/utils/venueSelection";
+import { fetchProfileNames } from "@/repositories/profiles";
+import {
+  EVENT_PAGE_SIZE,
+  EVENT_STATUSES,
+  EventCursor,
+  EventFilters,
+  EventPage,
+  eventFilterTree,
+  pageAscending,
+  toEventPage,
+  venueFilter,
+} from "@/utils/eventQuery";
+
+type VenueSummary = Pick<Tables<'venues'>, 'name' | 'capacity'>;
+type ReviewComment = Pick<Tables<'event_comments'>, 'body' | 'kind' | 'created_at'>;
+
+/** An event as lists show it, with its venues and the comments reviewers left */
+export type EventSummary = Pick<
+  Tables<'events'>,
+  'id' | 'title' | 'type' | 'topic' | 'student_count' | 'event_date' | 'created_at' | 'span_days' |
+  'recurrence_rule' | 'status' | 'user_id' | 'cancellation_reason'
+> & {
+  event_comments: ReviewComment[];
+  approval_stages: Pick<Tables<'approval_stages'>, 'name'> | null;
+  venues: VenueSummary;
+  event_venues: { venues: VenueSummary }[];
+};
+
+/** An event as approvers review it: everything needed to approve, re-venue or bump it */
+export type ReviewEvent = EventWithFacilities & {
+  venues: VenueSummary;
+  event_venues: { venues: VenueSummary }[];
+  event_occurrences: Pick<Tables<'event_occurrences'>, 'id' | 'starts_at' | 'ends_at' | 'status'>[];
+  event_comments: ReviewComment[];
+  approval_chains: {
+    name: string;
+    approval_stages: (Pick<Tables<'approval_stages'>, 'id' | 'name' | 'position'> & {
+      approval_stage_approvers: { user_id: string }[];
+    })[];
+  } | null;
+  creator_name: string;
+};
+
+const slotConflictSchema = z.object({
+  event_id: z.string().nullable(),
+  title: z.string(),
+  // A booking kind, or 'occurrence' for another occurrence of the event being approved
+  kind: z.string(),
+  starts_at: z.string(),
+  ends_at: z.string(),
+});
+
+const approvalResultSchema = z.object({
+  approved: z.boolean(),
+  reason: z.string().optional(),
+  booking_id: z.string().nullish(),
+  venue_id: z.string().optional(),
+  venue_ids: z.array(z.string()).optional(),
+  // Number of occurrences approved
+  occurrences: z.number().optional(),
+  conflicts: z.array(slotConflictSchema),
+});
+
+const cancellationResultSchema = z.object({
+  cancelled: z.number(),
+  event_status: z.string(),
+});
+
+const rescheduleResultSchema = z.object({
+  rescheduled: z.boolean(),
+  reason: z.string().optional(),
+  conflicts: z.array(slotConflictSchema),
+});
+
+const preemptionResponseSchema = z.object({
+  accepted: z.boolean(),
+  reason: z.string().optional(),
+  conflicts: z.array(slotConflictSchema).optional(),
+});
+
+/** A booking, blackout or occurrence standing in the way of a slot */
+export type ApprovalConflict = z.infer<typeof slotConflictSchema>;
+export type ApprovalResult = z.infer<typeof approvalResultSchema>;
+export type RescheduleResult = z.infer<typeof rescheduleResultSchema>;
+export type PreemptionResponse = z.infer<typeof preemptionResponseSchema>;
+
+/** One page of the approvers' list, with how many events each status tab holds under the same filters */
+export interface ReviewQueue {
+  page: EventPage<ReviewEvent>;
+  counts: Record<string, number>;
+}
+
+export interface EventCounts {
+  total: number;
+  upcoming: number;
+  pending: number;
+}
+
+const EVENT_SUMMARY_SELECT = `
+  id,
+  title,
+  type,
+  topic,
+  student_count,
+  event_date,
+  created_at,
+  span_days,
+  recurrence_rule,
+  status,
+  user_id,
+  cancellation_reason,
+  event_comments (
+    body,
+    kind,
+    created_at
+  ),
+  approval_stages!events_approval_stage_id_fkey (
+    name
+  ),
+  venues!events_venue_id_fkey (
+    name,
+    capacity
+  ),
+  event_venues (
+    venues (
+      name,
+      capacity
+    )
+  )
+` as const;
+
+const REVIEW_EVENT_SELECT = `
+  *,
+  venues!events_venue_id_fkey (
+    name,
+    capacity
+  ),
+  event_venues (
+    venues (
+      name,
+      capacity
+    )
+  ),
+  ${EVENT_FACILITIES_SELECT},
+  event_occurrences (
+    id,
+    starts_at,
+    ends_at,
+    status
+  ),
+  event_comments (
+    body,
+    kind,
+    created_at
+  ),
+  approval_chains!events_approval_chain_id_fkey (
+    name,
+    approval_stages (
+      id,
+      name,
+      position,
+      approval_stage_approvers (user_id)
+    )
+  )
+` as const;
+
+/**
+ * The filter group for the venue filter, if set: split events are found through their extra venues first
+ */
+const venueFilterGroups = async (filters: EventFilters): Promise<string[]> => {
+  if (!filters.venueId) return [];
+
+  const { data, error } = await supabase.from('event_venues').select('event_id').eq('venue_id', filters.venueId);
+  if (error) throw error;
+  return [venueFilter(filters.venueId, data.map(row => row.event_id))];
+};
+
+/**
+ * A page of events matching the filters and every `anyOf` group, as eventFilterTree takes them
+ */
+export const fetchEventSummaryPage = async (
+  filters: EventFilters,
+  cursor: EventCursor | null,
+  anyOf: string[] = []
+): Promise<EventPage<EventSummary>> => {
+  const groups = [...anyOf, ...await venueFilterGroups(filters)];
+  const ascending = pageAscending(filters, cursor);
+  let query = supabase
+    .from('events')
+    .select(EVENT_SUMMARY_SELECT)
+    .order(filters.sort, { ascending })
+    .order('id', { ascending })
+    .limit(EVENT_PAGE_SIZE + 1);
+  const tree = eventFilterTree(filters, groups, cursor);
+  if (tree) query = query.or(tree);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return toEventPage(data, filters, cursor);
+};
+
+/**
+ * Approved events from today on, soonest first; an organiser's own when one is given
+ */
+export const fetchUpcomingEvents = async (
+  organiserId: string | null,
+  today: string,
+  limit: number
+): Promise<EventSummary[]> => {
+  let query = supabase
+    .from('events')
+    .select(EVENT_SUMMARY_SELECT)
+    .eq('status', 'approved')
+    .gte('event_date', today)
+    .order('event_date', { ascending: true })
+    .limit(limit);
+  if (organiserId) query = query.eq('user_id', organiserId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * An organiser's events that reviewers sent back, soonest first
+ */
+export const fetchChangesRequested = async (organiserId: string): Promise<EventSummary[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_SUMMARY_SELECT)
+    .eq('user_id', organiserId)
+    .eq('status', 'changes_requested')
+    .order('event_date', { ascending: true });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * An organiser's unsubmitted drafts, newest first
+ */
+export const fetchDrafts = async (organiserId: string): Promise<EventSummary[]> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_SUMMARY_SELECT)
+    .eq('user_id', organiserId)
+    .eq('status', 'draft')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Submitted, upcoming and pending events, campus-wide or for one organiser; drafts never count
+ */
+export const fetchEventCounts = async (organiserId: string | null, today: string): Promise<EventCounts> => {
+  const countEvents = () => {
+    const query = supabase.from('events').select('id', { count: 'exact', head: true }).neq('status', 'draft');
+    return organiserId ? query.eq('user_id', organiserId) : query;
+  };
+
+  const [total, upcoming, pending] = await Promise.all([
+    countEvents(),
+    countEvents().eq('status', 'approved').gte('event_date', today),
+    countEvents().eq('status', 'pending'),
+  ]);
+
+  const error = total.error || upcoming.error || pending.error;
+  if (error) throw error;
+  return { total: total.count ?? 0, upcoming: upcoming.count ?? 0, pending: pending.count ?? 0 };
+};
+
+/**
+ * A page of one status tab of the approvers' list, with every tab's count under the same filters.
+ * Pending events are limited to those waiting on the approver unless `everyone` is set; events outside
+ * any chain wait on every approver.
+ */
+export const fetchReviewQueue = async ({
+  filters,
+  cursor,
+  status,
+  approverId,
+  everyone,
+}: {
+  filters: EventFilters;
+  cursor: EventCursor | null;
+  status: string;
+  approverId: string;
+  everyone: boolean;
+}): Promise<ReviewQueue> => {
+  const [venueGroups, { data: myStages, error: stagesError }] = await Promise.all([
+    venueFilterGroups(filters),
+    supabase.from('approval_stage_approvers').select('stage_id').eq('user_id', approverId),
+  ]);
+  if (stagesError) throw stagesError;
+
+  const stageIds = myStages.map(row => row.stage_id);
+  const waitingOnMe = stageIds.length > 0
+    ? `approval_stage_id.is.null,approval_stage_id.in.(${stageIds.join(',')})`
+    : 'approval_stage_id.is.null';
+  const anyOfFor = (tab: string) => tab === 'pending' && !everyone ? [...venueGroups, waitingOnMe] : venueGroups;
+
+  const ascending = pageAscending(filters, cursor);
+  let listQuery = supabase
+    .from('events')
+    .select(REVIEW_EVENT_SELECT)
+    .order(filters.sort, { ascending })
+    .order('id', { ascending })
+    .limit(EVENT_PAGE_SIZE + 1);
+  const listTree = eventFilterTree({ ...filters, status }, anyOfFor(status), cursor);
+  if (listTree) listQuery = listQuery.or(listTree);
+
+  const countQueries = EVENT_STATUSES.map(tab =>
+    supabase
+      .from('events')
+      .select('id', { count: 'exact', head: true })
+      .or(eventFilterTree({ ...filters, status: tab }, anyOfFor(tab))!)
+  );
+
+  const [{ data, error }, ...countResults] = await Promise.all([listQuery, ...countQueries]);
+  const fetchError = error || countResults.find(result => result.error)?.error;
+  if (fetchError) throw fetchError;
+
+  const page = toEventPage(data, filters, cursor);
+  const names = await fetchProfileNames(page.rows.map(event => event.user_id));
+
+  return {
+    page: {
+      ...page,
+      rows: page.rows.map(event => ({ ...event, creator_name: names[event.user_id] ?? 'Unknown User' })),
+    },
+    counts: Object.fromEntries(EVENT_STATUSES.map((tab, index) => [tab, countResults[index].count ?? 0])),
+  };
+};
+
+export const fetchEventWithFacilities = async (eventId: string): Promise<EventWithFacilities> => {
+  const { data, error } = await supabase
+    .from('events')
+    .select(`*, ${EVENT_FACILITIES_SELECT}`)
+    .eq('id', eventId)
+    .single();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Approve an event, or some of a series' occurrences, booking its venue. A clash is not an error:
+ * the result says the event was not approved and lists what it collides with. A whole pending event
+ * can be approved at another start time, moving its occurrences with it.
+ */
+export const approveEvent = async ({
+  eventId,
+  venueId,
+  occurrenceIds,
+  startTime,
+}: {
+  eventId: string;
+  venueId?: string;
+  occurrenceIds?: string[];
+  startTime?: string;
+}): Promise<ApprovalResult> => {
+  const { data, error } = await supabase.rpc('approve_event', {
+    _event_id: eventId,
+    _venue_id: venueId,
+    _occurrence_ids: occurrenceIds,
+    _start_time: startTime,
+  });
+  if (error) throw error;
+  return approvalResultSchema.parse(data);
+};
+
+export const signOffEvent = async (eventId: string) => {
+  const { error } = await supabase.rpc('sign_off_event', { _event_id: eventId });
+  if (error) throw error;
+};
+
+export const reviewEvent = async ({
+  eventId,
+  decision,
+  comment,
+}: {
+  eventId: string;
+  decision: 'rejected' | 'changes_requested';
+  comment: string;
+}) => {
+  const { error } = await supabase.rpc('review_event', {
+    _event_id: eventId,
+    _decision: decision,
+    _comment: comment,
+  });
+  if (error) throw error;
+};
+
+export const cancelEvent = async ({ eventId, reason }: { eventId: string; reason: string }) => {
+  const { error } = await supabase.rpc('cancel_event', { _event_id: eventId, _reason: reason });
+  if (error) throw error;
+};
+
+/**
+ * Cancel some of a series' occurrences, or all of them when none are given
+ */
+export const cancelEventOccurrences = async ({
+  eventId,
+  occurrenceIds,
+}: {
+  eventId: string;
+  occurrenceIds?: string[];
+}) => {
+  const { data, error } = await supabase.rpc('cancel_event_occurrences', {
+    _event_id: eventId,
+    _occurrence_ids: occurrenceIds,
+  });
+  if (error) throw error;
+  return cancellationResultSchema.parse(data);
+};
+
+/**
+ * Move one occurrence to a new start, and optionally another venue. A clash is not an error: the
+ * result says the occurrence was not moved and lists what it collides with.
+ */
+export const rescheduleOccurrence = async ({
+  occurrenceId,
+  startsAt,
+  venueId,
+}: {
+  occurrenceId: string;
+  startsAt: Date;
+  venueId?: string;
+}): Promise<RescheduleResult> => {
+  const { data, error } = await supabase.rpc('reschedule_occurrence', {
+    _occurrence_id: occurrenceId,
+    _starts_at: startsAt.toISOString(),
+    ...(venueId ? { _venue_id: venueId } : {}),
+  });
+  if (error) throw error;
+  return rescheduleResultSchema.parse(data);
+};
+
+/**
+ * Accept or decline a request to give up a booking. An accepted request that can no longer be
+ * honoured comes back with accepted false and the reason.
+ */
+export const respondToPreemption = async ({
+  preemptionId,
+  accept,
+}: {
+  preemptionId: string;
+  accept: boolean;
+}): Promise<PreemptionResponse> => {
+  const { data, error } = await supabase.rpc('respond_to_preemption', {
+    _preemption_id: preemptionId,
+    _accept: accept,
+  });
+  if (error) throw error;
+  return preemptionResponseSchema.parse(data);
+};
+
+export const submitEvent = async (eventId: string) => {
+  const { error } = await supabase.rpc('submit_event', { _event_id: eventId });
+  if (error) throw error;
+};
+
+export const resubmitEvent = async (eventId: string) => {
+  const { error } = await supabase.rpc('resubmit_event', { _event_id: eventId });
+  if (error) throw error;
+};
+
+export const discardDraft = async (eventId: string) => {
+  const { error } = await supabase.from('events').delete().eq('id', eventId).eq('status', 'draft');
+  if (error) throw error;
+};
+
+export const proposePreemption = async ({
+  eventId,
+  displacedEventId,
+  venueId,
+  timeSlot,
+  note,
+}: {
+  eventId: string;
+  displacedEventId: string;
+  venueId: string;
+  timeSlot: string;
+  note: string;
+}) => {
+  const { error } = await supabase.rpc('propose_preemption', {
+    _event_id: eventId,
+    _displaced_event_id: displacedEventId,
+    _proposed_venue_id: venueId,
+    _proposed_time_slot: timeSlot,
+    _note: note,
+  });
+  if (error) throw error;
+};
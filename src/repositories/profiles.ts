@@ -0,0 +1,29 @@
+// Typed reads of user profiles. Like every repository, these throw the Supabase error instead of returning it.
+
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type ProfileOption = Pick<Tables<'profiles'>, 'user_id' | 'name'>;
+
+/**
+ * Everyone the viewer may see, by name: staff see every profile, students only their own
+ */
+export const fetchProfileOptions = async (): Promise<ProfileOption[]> => {
+  const { data, error } = await supabase.from('profiles').select('user_id, name').order('name');
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Display names for a set of users, keyed by user id
+ */
+export const fetchProfileNames = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, name')
+    .in('user_id', Array.from(new Set(userIds)));
+  if (error) throw error;
+  return Object.fromEntries(data.map(profile => [profile.user_id, profile.name]));
+};
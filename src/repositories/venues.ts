@@ -0,0 +1,55 @@
+// Typed reads of venues, their blackouts and the policy venues are chosen by
+
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  SelectionPolicy,
+  VENUE_WITH_FACILITIES_SELECT,
+  VenueWithFacilities,
+  policyFromRow,
+} from "@/utils/venueSelection";
+
+export type VenueOption = Pick<Tables<'venues'>, 'id' | 'name'>;
+export type VenueBlackout = Tables<'venue_blackouts'>;
+
+/**
+ * Every venue by name, archived ones included, for filtering lists of past events
+ */
+export const fetchVenueOptions = async (): Promise<VenueOption[]> => {
+  const { data, error } = await supabase.from('venues').select('id, name').order('name');
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Venues that can still be booked, with their facilities, as the selection algorithm takes them
+ */
+export const fetchBookableVenues = async (): Promise<VenueWithFacilities[]> => {
+  const { data, error } = await supabase
+    .from('venues')
+    .select(VENUE_WITH_FACILITIES_SELECT)
+    .is('archived_at', null)
+    .order('name');
+  if (error) throw error;
+  return data;
+};
+
+export const fetchVenueBlackouts = async (): Promise<VenueBlackout[]> => {
+  const { data, error } = await supabase.from('venue_blackouts').select('*');
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The latest version of the venue selection policy, or the defaults before one is saved
+ */
+export const fetchSelectionPolicy = async (): Promise<SelectionPolicy> => {
+  const { data, error } = await supabase
+    .from('selection_policies')
+    .select('*')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return policyFromRow(data);
+};
@@ -0,0 +1,192 @@
+import {
+  VenueSelectionAlgorithm,
+  VenueWithFacilities,
+  EventWithFacilities,
+  TimeRange,
+  STANDARD_START_TIMES,
+  getRequestedRanges,
+  requirementsFromEvent,
+  timeToMinutes,
+} from "@/utils/venueSelection";
+import { Tables } from "@/integrations/supabase/types";
+
+type Venue = VenueWithFacilities;
+type Event = EventWithFacilities & {
+  event_venues: Pick<Tables<'event_venues'>, 'venue_id'>[];
+};
+
+export const EVENT_VENUES_SELECT = 'event_venues (venue_id)' as const;
+
+export interface ScheduleOptions {
+  allowTimeShift: boolean;
+}
+
+export interface ScheduleAssignment {
+  event: Event;
+  venue: Venue;
+  startTime: string;
+  score: number;
+  value: number;
+  venueChanged: boolean;
+  timeChanged: boolean;
+}
+
+export interface SchedulePlan {
+  assignments: ScheduleAssignment[];
+  unscheduled: Event[];
+  // Split, repeating and multi-day events, left for approval one at a time
+  manual: Event[];
+  totalValue: number;
+}
+
+interface Candidate extends ScheduleAssignment {
+  // One window per occurrence of the event
+  ranges: TimeRange[];
+}
+
+export const PRIORITY_WEIGHTS: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+// Satisfaction lost per hour an event is moved away from its requested start
+const TIME_SHIFT_PENALTY = 15;
+// Satisfaction lost when an event does not get the venue its organiser picked
+const VENUE_CHANGE_PENALTY = 10;
+
+const priorityWeight = (event: Event) => PRIORITY_WEIGHTS[event.priority ?? 'medium'] ?? 1;
+
+/**
+ * Whether a plan can stand for the whole event: one venue and one occurrence. Extra venues and the
+ * occurrences of a series, which may have been moved or cancelled one by one, are not planned.
+ */
+export const isBatchSchedulable = (event: Event) =>
+  event.event_venues.length === 0 && !event.recurrence_rule && event.span_days <= 1;
+
+/**
+ * Every feasible (venue, start time) for an event against existing bookings and blackouts,
+ * best first
+ */
+const buildCandidates = (
+  event: Event,
+  algorithm: VenueSelectionAlgorithm,
+  options: ScheduleOptions
+): Candidate[] => {
+  const requirements = requirementsFromEvent(event);
+  const requestedTime = requirements.preferredDateTime.split(' ')[1];
+  const times = options.allowTimeShift
+    ? Array.from(new Set([requestedTime, ...STANDARD_START_TIMES]))
+    : [requestedTime];
+
+  return times
+    .flatMap(startTime => {
+      const preferredDateTime = `${event.event_date} ${startTime}`;
+      const ranges = getRequestedRanges({ ...requirements, preferredDateTime });
+      const shiftHours = Math.abs(timeToMinutes(startTime) - timeToMinutes(requestedTime)) / 60;
+
+      return algorithm
+        .findBestVenues({ ...requirements, preferredDateTime })
+        .exactMatches
+        .map(match => {
+          const venueChanged = match.venue.id !== event.venue_id;
+          const satisfaction = match.score
+            - shiftHours * TIME_SHIFT_PENALTY
+            - (venueChanged ? VENUE_CHANGE_PENALTY : 0);
+
+          return {
+            event,
+            venue: match.venue,
+            startTime,
+            ranges,
+            score: match.score,
+            value: priorityWeight(event) * Math.max(1, satisfaction),
+            venueChanged,
+            timeChanged: startTime !== requestedTime,
+          };
+        });
+    })
+    .sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Assign venues (and optionally start times) to a batch of pending events without overlaps,
+ * maximising priority-weighted satisfaction. Greedy placement of the most important and most
+ * constrained events first, then repair moves that relocate a single blocking event so an
+ * unplaced one fits, then upgrades into better free slots.
+ */
+export const scheduleEvents = (
+  pending: Event[],
+  algorithm: VenueSelectionAlgorithm,
+  options: ScheduleOptions
+): SchedulePlan => {
+  const events = pending.filter(isBatchSchedulable);
+  const candidates = new Map(events.map(event => [event.id, buildCandidates(event, algorithm, options)]));
+  const chosen = new Map<string, Candidate>();
+
+  const clash = (a: Candidate, b: Candidate) =>
+    a.venue.id === b.venue.id &&
+    a.ranges.some(rangeA => b.ranges.some(rangeB => algorithm.clashes(a.venue, rangeA, rangeB)));
+
+  const blockersOf = (candidate: Candidate, ignoreEventId?: string) =>
+    Array.from(chosen.values()).filter(other =>
+      other.event.id !== candidate.event.id &&
+      other.event.id !== ignoreEventId &&
+      clash(candidate, other)
+    );
+
+  const order = [...events].sort((a, b) =>
+    priorityWeight(b) - priorityWeight(a) ||
+    candidates.get(a.id)!.length - candidates.get(b.id)!.length
+  );
+
+  // Greedy placement
+  order.forEach(event => {
+    const pick = candidates.get(event.id)!.find(candidate => blockersOf(candidate).length === 0);
+    if (pick) chosen.set(event.id, pick);
+  });
+
+  // Repair: move one blocking event elsewhere so an unplaced event fits
+  let improved = true;
+  for (let round = 0; improved && round < events.length * 2; round++) {
+    improved = false;
+
+    for (const event of order) {
+      if (chosen.has(event.id)) continue;
+
+      for (const candidate of candidates.get(event.id)!) {
+        const blockers = blockersOf(candidate);
+        if (blockers.length !== 1) continue;
+
+        const blocker = blockers[0];
+        const relocation = candidates.get(blocker.event.id)!.find(alt =>
+          alt !== blocker &&
+          !clash(alt, candidate) &&
+          blockersOf(alt, blocker.event.id).length === 0
+        );
+
+        if (relocation && candidate.value + relocation.value > blocker.value) {
+          chosen.set(blocker.event.id, relocation);
+          chosen.set(event.id, candidate);
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  // Upgrade placed events into better slots that are still free
+  chosen.forEach((current, eventId) => {
+    const better = candidates.get(eventId)!.find(candidate =>
+      candidate.value > current.value && blockersOf(candidate).length === 0
+    );
+    if (better) chosen.set(eventId, better);
+  });
+
+  const assignments: ScheduleAssignment[] = Array.from(chosen.values())
+    .sort((a, b) => a.ranges[0].start.getTime() - b.ranges[0].start.getTime())
+    .map(({ ranges, ...assignment }) => assignment);
+
+  return {
+    assignments,
+    unscheduled: events.filter(event => !chosen.has(event.id)),
+    manual: pending.filter(event => !isBatchSchedulable(event)),
+    totalValue: assignments.reduce((total, assignment) => total + assignment.value, 0),
+  };
+};
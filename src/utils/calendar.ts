@@ -0,0 +1,171 @@
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { SLOT_SEARCH_DAY, TimeRange, rangesOverlap, timeToMinutes } from "@/utils/venueSelection";
+
+export type CalendarView = 'month' | 'week' | 'day' | 'timeline';
+
+export type CalendarStatus = 'approved' | 'pending' | 'changes_requested';
+
+/** Statuses whose events still hold or want their slot */
+export const CALENDAR_STATUSES: CalendarStatus[] = ['approved', 'pending', 'changes_requested'];
+
+export const STATUS_LABELS: Record<CalendarStatus, string> = {
+  approved: "Approved",
+  pending: "Pending",
+  changes_requested: "Changes requested",
+};
+
+export const STATUS_STYLES: Record<CalendarStatus, string> = {
+  approved: "bg-primary text-primary-foreground border-primary",
+  pending: "bg-amber-100 text-amber-900 border-amber-400",
+  changes_requested: "bg-secondary text-secondary-foreground border-dashed border-muted-foreground",
+};
+
+/** Whole hours of the slot search day, labelling the time grids */
+export const OPEN_HOURS = Array.from(
+  { length: (timeToMinutes(SLOT_SEARCH_DAY.closesAt) - timeToMinutes(SLOT_SEARCH_DAY.opensAt)) / 60 },
+  (_, index) => timeToMinutes(SLOT_SEARCH_DAY.opensAt) / 60 + index
+);
+
+// Maintenance holds and blackouts on the venue timeline
+export const BLOCKED_STYLE = "bg-muted text-muted-foreground border-muted-foreground/40";
+
+type VenueName = Pick<Tables<'venues'>, 'name'>;
+
+export type CalendarOccurrence = Pick<Tables<'event_occurrences'>, 'id' | 'starts_at' | 'ends_at' | 'status'> & {
+  events: Pick<Tables<'events'>, 'id' | 'title' | 'status' | 'student_count' | 'venue_id' | 'recurrence_rule'> & {
+    venues: VenueName;
+    event_venues: { venue_id: string; venues: VenueName }[];
+  };
+};
+
+/** One occurrence of an event as placed on the calendar */
+export interface CalendarItem {
+  occurrenceId: string;
+  eventId: string;
+  title: string;
+  status: CalendarStatus;
+  start: Date;
+  end: Date;
+  // Primary venue first
+  venueIds: string[];
+  venueNames: string;
+  studentCount: number | null;
+  // The venue belongs to the whole event, so only one-off single-venue events can be moved to another
+  canChangeVenue: boolean;
+}
+
+/** Something other than an event occupying a venue */
+export interface VenueBlock extends TimeRange {
+  venueId: string;
+  label: string;
+}
+
+/**
+ * Calendar items for occurrences, coloured by the event's status; a pending occurrence of an
+ * approved series is still waiting for approval
+ */
+export const itemsFromOccurrences = (occurrences: CalendarOccurrence[]): CalendarItem[] =>
+  occurrences.map(occurrence => {
+    const event = occurrence.events;
+    return {
+      occurrenceId: occurrence.id,
+      eventId: event.id,
+      title: event.title,
+      status: (event.status === 'approved' && occurrence.status !== 'approved'
+        ? 'pending'
+        : event.status) as CalendarStatus,
+      start: new Date(occurrence.starts_at),
+      end: new Date(occurrence.ends_at),
+      venueIds: [event.venue_id, ...event.event_venues.map(extra => extra.venue_id)],
+      venueNames: [event.venues, ...event.event_venues.map(extra => extra.venues)].map(venue => venue.name).join(' + '),
+      studentCount: event.student_count,
+      canChangeVenue: !event.recurrence_rule && event.event_venues.length === 0,
+    };
+  });
+
+/**
+ * Days shown by a view around the anchor date; the month view pads to whole weeks
+ */
+export const getViewRange = (view: CalendarView, date: Date): TimeRange => {
+  switch (view) {
+    case 'month':
+      return { start: startOfWeek(startOfMonth(date)), end: endOfWeek(endOfMonth(date)) };
+    case 'week':
+      return { start: startOfWeek(date), end: endOfWeek(date) };
+    default:
+      return { start: startOfDay(date), end: endOfDay(date) };
+  }
+};
+
+export const getViewDays = (view: CalendarView, date: Date): Date[] => {
+  const range = getViewRange(view, date);
+  return eachDayOfInterval(range);
+};
+
+/**
+ * Open hours drawn on the time grids, from the slot search day
+ */
+export const getDayWindow = (day: Date): TimeRange => {
+  const start = startOfDay(day);
+  return {
+    start: new Date(start.getTime() + timeToMinutes(SLOT_SEARCH_DAY.opensAt) * 60 * 1000),
+    end: new Date(start.getTime() + timeToMinutes(SLOT_SEARCH_DAY.closesAt) * 60 * 1000),
+  };
+};
+
+/**
+ * Items touching a calendar day, multi-day events included on each of their days
+ */
+export const itemsOnDay = <T extends TimeRange>(items: T[], day: Date): T[] =>
+  items
+    .filter(item => rangesOverlap(item, { start: startOfDay(day), end: addDays(startOfDay(day), 1) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+/**
+ * Left offset and width, in percent of a window, of the part of a range inside it
+ */
+export const positionInWindow = (range: TimeRange, window: TimeRange) => {
+  const total = window.end.getTime() - window.start.getTime();
+  const start = Math.max(range.start.getTime(), window.start.getTime());
+  const end = Math.min(range.end.getTime(), window.end.getTime());
+  return {
+    offset: ((start - window.start.getTime()) / total) * 100,
+    size: (Math.max(end - start, 0) / total) * 100,
+  };
+};
+
+/**
+ * Side-by-side lanes for overlapping items of one day, each item in the first lane free at its start
+ */
+export const assignLanes = <T extends TimeRange>(items: T[]): { item: T; lane: number; lanes: number }[] => {
+  const laneEnds: Date[] = [];
+  const placed = [...items]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(item => {
+      let lane = laneEnds.findIndex(end => end <= item.start);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(item.end);
+      } else {
+        laneEnds[lane] = item.end;
+      }
+      return { item, lane };
+    });
+
+  return placed.map(({ item, lane }) => ({
+    item,
+    lane,
+    // Only items that actually overlap this one share its width
+    lanes: Math.max(...placed.filter(other => rangesOverlap(other.item, item)).map(other => other.lane)) + 1,
+  }));
+};
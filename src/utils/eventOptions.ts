@@ -0,0 +1,14 @@
+// Choices offered by the event wizard
+
+export const COMPUTING_REQUIREMENTS = [
+  "Computer Lab", "High-speed WiFi", "Projector", "Extra Power Outlets"
+];
+
+export const EVENT_CATEGORIES = [
+  "Cultural", "Sports", "Fun Activity", "Debate", "Performance", 
+  "Food Stall", "Treasure Hunt", "Fashion Show"
+];
+
+export const SPACE_TYPES = [
+  "Indoor Hall", "Outdoor Ground", "Stage", "Classroom"
+];
@@ -0,0 +1,192 @@
+// Server-side filtering, sorting and cursor pagination of event lists, with the state kept in the URL
+
+export const EVENT_PAGE_SIZE = 20;
+
+export const EVENT_SORTS = {
+  event_date: "Event date",
+  created_at: "Submitted",
+  title: "Title",
+} as const;
+
+export type EventSort = keyof typeof EVENT_SORTS;
+
+export const EVENT_STATUSES = ['pending', 'changes_requested', 'approved', 'rejected', 'cancelled'];
+
+export interface EventFilters {
+  search: string;
+  status: string | null;
+  type: string | null;
+  category: string | null;
+  venueId: string | null;
+  organiserId: string | null;
+  // "yyyy-MM-dd", inclusive
+  from: string | null;
+  to: string | null;
+  sort: EventSort;
+  ascending: boolean;
+}
+
+/** Position in a sorted list: the sort value and id of the row a page starts after or ends before */
+export interface EventCursor {
+  direction: 'after' | 'before';
+  id: string;
+  value: string;
+}
+
+export interface EventPage<T> {
+  rows: T[];
+  previous: EventCursor | null;
+  next: EventCursor | null;
+}
+
+// URL parameters that hold filters, as opposed to the cursor
+const FILTER_PARAMS = ['q', 'status', 'type', 'category', 'venue', 'organiser', 'from', 'to', 'sort', 'order'];
+
+/**
+ * Filters from the URL, falling back to the list's own default sort
+ */
+export const filtersFromParams = (
+  params: URLSearchParams,
+  defaults: { sort: EventSort; ascending: boolean }
+): EventFilters => {
+  const sort = params.get('sort');
+  const order = params.get('order');
+  return {
+    search: params.get('q') ?? "",
+    status: params.get('status'),
+    type: params.get('type'),
+    category: params.get('category'),
+    venueId: params.get('venue'),
+    organiserId: params.get('organiser'),
+    from: params.get('from'),
+    to: params.get('to'),
+    sort: sort && sort in EVENT_SORTS ? sort as EventSort : defaults.sort,
+    ascending: order ? order === 'asc' : defaults.ascending,
+  };
+};
+
+export const hasActiveFilters = (params: URLSearchParams) =>
+  FILTER_PARAMS.some(key => key !== 'sort' && key !== 'order' && params.has(key));
+
+/**
+ * Copy of the URL parameters with one filter changed; any other page than the first no longer applies
+ */
+export const withFilter = (params: URLSearchParams, key: string, value: string | null) => {
+  const next = new URLSearchParams(params);
+  if (value) next.set(key, value);
+  else next.delete(key);
+  next.delete('after');
+  next.delete('before');
+  return next;
+};
+
+export const clearFilters = (params: URLSearchParams) => {
+  const next = new URLSearchParams(params);
+  [...FILTER_PARAMS, 'after', 'before'].forEach(key => next.delete(key));
+  return next;
+};
+
+// Cursors are "<id>.<value>": ids never contain a dot, values may
+export const cursorFromParams = (params: URLSearchParams): EventCursor | null => {
+  const direction = params.has('before') ? 'before' : params.has('after') ? 'after' : null;
+  const token = direction && params.get(direction);
+  const split = token?.indexOf('.') ?? -1;
+  if (!direction || split === -1) return null;
+  return { direction, id: token!.slice(0, split), value: token!.slice(split + 1) };
+};
+
+export const withCursor = (params: URLSearchParams, cursor: EventCursor | null) => {
+  const next = new URLSearchParams(params);
+  next.delete('after');
+  next.delete('before');
+  if (cursor) next.set(cursor.direction, `${cursor.id}.${cursor.value}`);
+  return next;
+};
+
+/**
+ * A value quoted for a PostgREST logic tree, where commas, dots and parentheses are reserved
+ */
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * Drafts are private to their organiser; shared lists and counts leave them out, the organiser's own included
+ */
+export const NOT_DRAFT = `status.neq.${quote('draft')}`;
+
+/**
+ * Case-insensitive substring match on any of the columns, with LIKE wildcards typed by the user taken literally
+ */
+export const searchFilter = (columns: string[], search: string) => {
+  const pattern = quote(`%${search.trim().replace(/[%_\\]/g, '\\$&')}%`);
+  return columns.map(column => `${column}.ilike.${pattern}`).join(',');
+};
+
+/**
+ * Rows after (or before) the cursor in sort order, ties broken by id
+ */
+const cursorFilter = (filters: EventFilters, cursor: EventCursor) => {
+  const forward = (cursor.direction === 'after') === filters.ascending;
+  const op = forward ? 'gt' : 'lt';
+  const value = quote(cursor.value);
+  return `${filters.sort}.${op}.${value},and(${filters.sort}.eq.${value},id.${op}.${quote(cursor.id)})`;
+};
+
+/**
+ * The filters as a single PostgREST logic tree, for `query.or(tree)`: an `or` holding one `and` is how
+ * supabase-js sends nested conditions. Each entry of `anyOf` is a comma-separated list of alternatives
+ * of which at least one must hold. Null when nothing is filtered.
+ */
+export const eventFilterTree = (filters: EventFilters, anyOf: string[] = [], cursor: EventCursor | null = null) => {
+  const conditions: string[] = [];
+  if (filters.status) conditions.push(`status.eq.${quote(filters.status)}`);
+  if (filters.type) conditions.push(`type.eq.${quote(filters.type)}`);
+  if (filters.category) conditions.push(`event_category.eq.${quote(filters.category)}`);
+  if (filters.organiserId) conditions.push(`user_id.eq.${quote(filters.organiserId)}`);
+  if (filters.from) conditions.push(`event_date.gte.${quote(filters.from)}`);
+  if (filters.to) conditions.push(`event_date.lte.${quote(filters.to)}`);
+
+  const groups = [...anyOf];
+  if (filters.search.trim()) groups.push(searchFilter(['title', 'topic'], filters.search));
+  if (cursor) groups.push(cursorFilter(filters, cursor));
+  groups.forEach(group => conditions.push(`or(${group})`));
+
+  return conditions.length > 0 ? `and(${conditions.join(',')})` : null;
+};
+
+/**
+ * Direction to read the list in for a page: paging backwards reads it in reverse and flips the rows back
+ * afterwards. Pages fetch a row more than they show, to tell whether another page follows.
+ */
+export const pageAscending = (filters: EventFilters, cursor: EventCursor | null) =>
+  cursor?.direction === 'before' ? !filters.ascending : filters.ascending;
+
+/**
+ * The page's rows in display order, with cursors to the pages either side where they exist
+ */
+export const toEventPage = <T extends { id: string }>(
+  rows: T[],
+  filters: EventFilters,
+  cursor: EventCursor | null
+): EventPage<T> => {
+  const backwards = cursor?.direction === 'before';
+  const more = rows.length > EVENT_PAGE_SIZE;
+  const page = rows.slice(0, EVENT_PAGE_SIZE);
+  if (backwards) page.reverse();
+
+  const cursorAt = (row: T | undefined, direction: EventCursor['direction']): EventCursor | null =>
+    row ? { direction, id: row.id, value: String(row[filters.sort as keyof T]) } : null;
+
+  return {
+    rows: page,
+    previous: (backwards ? more : !!cursor) ? cursorAt(page[0], 'before') : null,
+    next: (backwards || more) ? cursorAt(page[page.length - 1], 'after') : null,
+  };
+};
+
+/**
+ * Events held in a venue, as their primary venue or as one of a split event's extra venues
+ */
+export const venueFilter = (venueId: string, splitEventIds: string[]) =>
+  splitEventIds.length > 0
+    ? `venue_id.eq.${quote(venueId)},id.in.(${splitEventIds.map(quote).join(',')})`
+    : `venue_id.eq.${quote(venueId)}`;
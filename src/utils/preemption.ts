@@ -0,0 +1,72 @@
+import { Tables } from "@/integrations/supabase/types";
+import {
+  VenueSelectionAlgorithm,
+  VenueWithFacilities,
+  EventWithFacilities,
+  SelectionPolicy,
+  DEFAULT_SELECTION_POLICY,
+  TimeRange,
+  STANDARD_START_TIMES,
+  requirementsFromEvent,
+  timeToMinutes,
+} from "@/utils/venueSelection";
+
+type Venue = VenueWithFacilities;
+type Event = EventWithFacilities;
+type VenueBooking = Tables<'venue_bookings'>;
+type VenueBlackout = Tables<'venue_blackouts'>;
+
+export interface Relocation {
+  venue: Venue;
+  startTime: string;
+}
+
+/**
+ * Next best home for an approved event asked to make way for a higher-priority one:
+ * the same start time in another venue first, then the closest other start times that day
+ */
+export const findRelocation = (
+  displaced: Event,
+  contested: { venueId: string; range: TimeRange },
+  venues: Venue[],
+  bookings: VenueBooking[],
+  blackouts: VenueBlackout[],
+  policy: SelectionPolicy = DEFAULT_SELECTION_POLICY
+): Relocation | null => {
+  // The displaced event releases its own booking and the contested slot becomes taken
+  const heldSlot: VenueBooking = {
+    id: 'contested-slot',
+    venue_id: contested.venueId,
+    event_id: null,
+    occurrence_id: null,
+    kind: 'hold',
+    notes: null,
+    starts_at: contested.range.start.toISOString(),
+    ends_at: contested.range.end.toISOString(),
+    created_by: null,
+    created_at: new Date().toISOString(),
+  };
+  const algorithm = new VenueSelectionAlgorithm(
+    venues,
+    [...bookings.filter(booking => booking.event_id !== displaced.id), heldSlot],
+    blackouts,
+    policy
+  );
+
+  const requirements = requirementsFromEvent(displaced);
+  const requestedTime = requirements.preferredDateTime.split(' ')[1];
+  const times = [requestedTime, ...STANDARD_START_TIMES.filter(time => time !== requestedTime)]
+    .sort((a, b) =>
+      Math.abs(timeToMinutes(a) - timeToMinutes(requestedTime)) - Math.abs(timeToMinutes(b) - timeToMinutes(requestedTime))
+    );
+
+  for (const startTime of times) {
+    const [best] = algorithm.findBestVenues({
+      ...requirements,
+      preferredDateTime: `${displaced.event_date} ${startTime}`,
+    }).exactMatches;
+    if (best) return { venue: best.venue, startTime };
+  }
+
+  return null;
+};
@@ -0,0 +1,214 @@
+import { addDays, addMonths, addWeeks, format, startOfWeek } from "date-fns";
+
+// Supported subset of RFC 5545 RRULE: FREQ, INTERVAL, COUNT, UNTIL and BYDAY (weekly only)
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  // "yyyy-MM-dd", inclusive
+  until?: string;
+  // Weekday numbers as used by Date.getDay(), 0 = Sunday
+  byDay?: number[];
+}
+
+// Upper bound on how many occurrences one series may have; longer series are refused, not cut short
+export const MAX_OCCURRENCES = 60;
+
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"; throws on anything
+ * outside the supported subset
+ */
+export const parseRecurrenceRule = (rule: string): RecurrenceRule => {
+  const parts = new Map(
+    rule.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [key, value] = part.split('=');
+      return [key.toUpperCase(), (value ?? '').toUpperCase()] as const;
+    })
+  );
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency: ${freq ?? 'none'}`);
+  }
+
+  const unsupported = Array.from(parts.keys()).filter(key => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY'].includes(key));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported recurrence parts: ${unsupported.join(', ')}`);
+  }
+
+  const parsed: RecurrenceRule = { freq, interval: 1 };
+
+  if (parts.has('INTERVAL')) {
+    parsed.interval = parseInt(parts.get('INTERVAL')!);
+    if (!(parsed.interval >= 1)) throw new Error('INTERVAL must be a positive number');
+  }
+
+  if (parts.has('COUNT')) {
+    parsed.count = parseInt(parts.get('COUNT')!);
+    if (!(parsed.count >= 1)) throw new Error('COUNT must be a positive number');
+  }
+
+  if (parts.has('UNTIL')) {
+    const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) throw new Error('UNTIL must be a date like 20251231');
+    parsed.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  if (parsed.count !== undefined && parsed.until !== undefined) {
+    throw new Error('COUNT and UNTIL cannot both be set');
+  }
+
+  if (parts.has('BYDAY')) {
+    if (freq !== 'WEEKLY') throw new Error('BYDAY is only supported for weekly rules');
+    parsed.byDay = parts.get('BYDAY')!.split(',').map(day => {
+      const index = RRULE_WEEKDAYS.indexOf(day);
+      if (index === -1) throw new Error(`Unknown weekday: ${day}`);
+      return index;
+    });
+  }
+
+  return parsed;
+};
+
+/**
+ * Serialise a rule back to its RRULE form
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => [
+  `FREQ=${rule.freq}`,
+  rule.interval > 1 && `INTERVAL=${rule.interval}`,
+  rule.byDay && rule.byDay.length > 0 && `BYDAY=${rule.byDay.map(day => RRULE_WEEKDAYS[day]).join(',')}`,
+  rule.count !== undefined && `COUNT=${rule.count}`,
+  rule.until && `UNTIL=${rule.until.replace(/-/g, '')}`,
+].filter(Boolean).join(';');
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+ */
+export const describeRecurrence = (rule: string | null): string => {
+  if (!rule) return 'Does not repeat';
+
+  const parsed = parseRecurrenceRule(rule);
+  const unit = FREQUENCY_UNITS[parsed.freq];
+  const parts = [parsed.interval > 1 ? `Every ${parsed.interval} ${unit}s` : `Every ${unit}`];
+
+  if (parsed.byDay) parts.push(`on ${parsed.byDay.map(day => WEEKDAY_NAMES[day]).join(', ')}`);
+
+  const description = parts.join(' ');
+  if (parsed.count !== undefined) return `${description}, ${parsed.count} times`;
+  if (parsed.until) return `${description}, until ${format(new Date(`${parsed.until}T00:00`), 'PPP')}`;
+  return description;
+};
+
+/**
+ * Start dates ("yyyy-MM-dd") of every occurrence of a series beginning on startDate. The first
+ * occurrence is always startDate itself, as RFC 5545 requires of DTSTART.
+ */
+export const expandOccurrenceDates = (startDate: string, rule: string | null, max = MAX_OCCURRENCES): string[] => {
+  if (!rule) return [startDate];
+
+  const parsed = parseRecurrenceRule(rule);
+  const start = new Date(`${startDate}T00:00`);
+  const limit = Math.min(parsed.count ?? max, max);
+  const dates: string[] = [startDate];
+
+  const accept = (day: Date): boolean => {
+    const date = format(day, 'yyyy-MM-dd');
+    if (parsed.until && date > parsed.until) return false;
+    if (date > startDate) dates.push(date);
+    return dates.length < limit;
+  };
+
+  if (parsed.freq === 'DAILY') {
+    for (let step = 1; accept(addDays(start, step * parsed.interval)); step++);
+  } else if (parsed.freq === 'WEEKLY') {
+    const weekdays = [...(parsed.byDay ?? [start.getDay()])]
+      // Weeks start on Monday, the RFC 5545 default
+      .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    const firstWeek = startOfWeek(start, { weekStartsOn: 1 });
+
+    weeks: for (let week = 0; ; week++) {
+      const monday = addWeeks(firstWeek, week * parsed.interval);
+      for (const weekday of weekdays) {
+        if (!accept(addDays(monday, (weekday + 6) % 7))) break weeks;
+      }
+    }
+  } else {
+    // Months without the start's day of the month are skipped rather than clamped
+    for (let step = 1; ; step++) {
+      const day = addMonths(start, step * parsed.interval);
+      if (day.getDate() !== start.getDate()) continue;
+      if (!accept(day)) break;
+    }
+  }
+
+  return dates.slice(0, limit);
+};
+
+/**
+ * Whether a series has more occurrences than MAX_OCCURRENCES, or no end at all
+ */
+export const exceedsOccurrenceLimit = (startDate: string, rule: string | null): boolean =>
+  expandOccurrenceDates(startDate, rule, MAX_OCCURRENCES + 1).length > MAX_OCCURRENCES;
+
+// Repeat settings as edited in the event wizard
+export interface RecurrenceInput {
+  freq: RecurrenceFrequency | 'NONE';
+  interval: number;
+  byDay: number[];
+  ends: 'count' | 'until';
+  count: number;
+  until: string;
+}
+
+export const NO_RECURRENCE: RecurrenceInput = {
+  freq: 'NONE',
+  interval: 1,
+  byDay: [],
+  ends: 'count',
+  count: 4,
+  until: "",
+};
+
+/**
+ * RRULE for the wizard's repeat settings, or null for a one-off event
+ */
+export const ruleFromInput = (input: RecurrenceInput): string | null => {
+  if (input.freq === 'NONE') return null;
+
+  return formatRecurrenceRule({
+    freq: input.freq,
+    interval: Math.max(1, input.interval),
+    byDay: input.freq === 'WEEKLY' && input.byDay.length > 0 ? input.byDay : undefined,
+    count: input.ends === 'count' ? Math.max(1, input.count) : undefined,
+    until: input.ends === 'until' && input.until ? input.until : undefined,
+  });
+};
+
+/**
+ * Wizard repeat settings for a stored RRULE, the inverse of ruleFromInput
+ */
+export const inputFromRule = (rule: string | null): RecurrenceInput => {
+  if (!rule) return NO_RECURRENCE;
+
+  const parsed = parseRecurrenceRule(rule);
+  return {
+    freq: parsed.freq,
+    interval: parsed.interval,
+    byDay: parsed.byDay ?? [],
+    ends: parsed.until ? 'until' : 'count',
+    count: parsed.count ?? NO_RECURRENCE.count,
+    until: parsed.until ?? "",
+  };
+};
@@ -0,0 +1,114 @@
+import type { EventRequirements, FacilityRequirement } from "@/utils/venueSelection";
+
+export interface VenueConstraints {
+  // Facilities implied by wizard answers, on top of the ones picked explicitly
+  facilities: FacilityRequirement[];
+  // Only these venue types qualify; undefined means any type
+  allowedVenueTypes?: string[];
+  // Bonus points per venue type
+  venueTypeBonuses: Record<string, number>;
+  extraAreaSqft: number;
+  // Human-readable trail of how each answer was translated
+  derived: string[];
+}
+
+// Venue types that satisfy each space type offered by the wizard
+export const SPACE_TYPE_VENUES: Record<string, string[]> = {
+  "Indoor Hall": ['auditorium', 'seminar_hall', 'library_hall', 'cafeteria'],
+  "Outdoor Ground": ['outdoor_ground', 'sports_court'],
+  "Stage": ['auditorium', 'outdoor_ground'],
+  "Classroom": ['classroom', 'seminar_hall'],
+};
+
+// Computing requirements that are really a kind of venue rather than a facility
+const COMPUTING_VENUE_TYPES: Record<string, string> = {
+  "Computer Lab": 'computer_lab',
+};
+
+// Catalogue facilities implied by the other computing requirements
+const COMPUTING_FACILITIES: Record<string, Omit<FacilityRequirement, 'quantity'>> = {
+  "High-speed WiFi": { facilityId: 'high_speed_wifi', name: 'High-Speed WiFi' },
+  "Projector": { facilityId: 'projector', name: 'Projector' },
+  "Extra Power Outlets": { facilityId: 'power_outlets', name: 'Power Outlets' },
+};
+
+const TECHNICAL_VENUE_BONUS = 15;
+const COMPUTER_LAB_BONUS = 40;
+const AUDIENCE_VENUE_BONUS = 10;
+const STALL_AREA_SQFT = 80;
+const TEAM_AREA_SQFT = 30;
+
+/**
+ * Translate the wizard's event-specific answers into constraints the venue algorithm can apply
+ */
+export const deriveVenueConstraints = (requirements: EventRequirements): VenueConstraints => {
+  const facilities: FacilityRequirement[] = [];
+  const venueTypeBonuses: Record<string, number> = {};
+  const derived: string[] = [];
+  let allowedVenueTypes: string[] | undefined;
+  let extraAreaSqft = 0;
+
+  const addBonus = (venueType: string, points: number) => {
+    venueTypeBonuses[venueType] = Math.max(venueTypeBonuses[venueType] ?? 0, points);
+  };
+
+  const requireFacility = (facility: Omit<FacilityRequirement, 'quantity'>, because: string, quantity = 1) => {
+    if (facilities.some(required => required.facilityId === facility.facilityId)) return;
+    facilities.push({ ...facility, quantity });
+    derived.push(`${because} → needs ${quantity > 1 ? `${quantity} × ` : ''}${facility.name}`);
+  };
+
+  if (requirements.eventType === 'technical') {
+    addBonus('computer_lab', TECHNICAL_VENUE_BONUS);
+    addBonus('seminar_hall', TECHNICAL_VENUE_BONUS);
+    derived.push('Technical event → prefers computer labs and seminar halls');
+
+    (requirements.computingRequirement ?? []).forEach(requirement => {
+      const venueType = COMPUTING_VENUE_TYPES[requirement];
+      if (venueType) {
+        addBonus(venueType, COMPUTER_LAB_BONUS);
+        derived.push(`${requirement} → strongly prefers ${venueType.replace('_', ' ')} venues`);
+      } else if (COMPUTING_FACILITIES[requirement]) {
+        requireFacility(COMPUTING_FACILITIES[requirement], requirement);
+      }
+    });
+
+    if (requirements.isGroupEvent && requirements.numberOfTeams) {
+      extraAreaSqft += requirements.numberOfTeams * TEAM_AREA_SQFT;
+      derived.push(`${requirements.numberOfTeams} teams → ${requirements.numberOfTeams * TEAM_AREA_SQFT} sq ft of team tables`);
+    }
+
+    if (requirements.evaluationSetup) {
+      requireFacility({ facilityId: 'projector', name: 'Projector' }, 'Evaluation setup');
+    }
+  } else {
+    if (requirements.spaceType && SPACE_TYPE_VENUES[requirements.spaceType]) {
+      allowedVenueTypes = SPACE_TYPE_VENUES[requirements.spaceType];
+      derived.push(
+        `${requirements.spaceType} → only ${allowedVenueTypes.map(type => type.replace('_', ' ')).join(', ')} venues`
+      );
+    }
+
+    if (requirements.stageRequirement) {
+      requireFacility({ facilityId: 'stage', name: 'Stage' }, 'Stage required');
+    }
+
+    if (requirements.soundRequirement) {
+      requireFacility({ facilityId: 'sound_system', name: 'Sound System' }, 'Sound required');
+    }
+
+    if (requirements.stallsNeeded && requirements.stallsNeeded > 0) {
+      requireFacility({ facilityId: 'stalls', name: 'Stalls' }, 'Stalls needed', requirements.stallsNeeded);
+      extraAreaSqft += requirements.stallsNeeded * STALL_AREA_SQFT;
+      derived.push(`${requirements.stallsNeeded} stalls → ${requirements.stallsNeeded * STALL_AREA_SQFT} sq ft of stall space`);
+    }
+
+    if (requirements.audienceParticipation) {
+      addBonus('auditorium', AUDIENCE_VENUE_BONUS);
+      addBonus('outdoor_ground', AUDIENCE_VENUE_BONUS);
+      derived.push('Audience participation → prefers auditoriums and outdoor grounds');
+    }
+  }
+
+  return { facilities, allowedVenueTypes, venueTypeBonuses, extraAreaSqft, derived };
+};
@@ -1,108 +1,643 @@
 import { Tables } from "@/integrations/supabase/types";
+import { VenueConstraints, deriveVenueConstraints } from "@/utils/venueConstraints";
+import { expandOccurrenceDates } from "@/utils/recurrence";
 
-type Venue = Tables<'venues'>;
+type VenueBooking = Tables<'venue_bookings'>;
+type VenueBlackout = Tables<'venue_blackouts'>;
+type SelectionPolicyRow = Tables<'selection_policies'>;
+
+// Embeds that bring catalogue facilities along with venue and event rows
+export const VENUE_WITH_FACILITIES_SELECT =
+  '*, venue_facilities (facility_id, quantity, status, facilities (name, parent_id))' as const;
+export const EVENT_FACILITIES_SELECT = 'event_facilities (facility_id, quantity, facilities (name))' as const;
+
+export type VenueWithFacilities = Tables<'venues'> & {
+  venue_facilities: (Pick<Tables<'venue_facilities'>, 'facility_id' | 'quantity' | 'status'> & {
+    facilities: Pick<Tables<'facilities'>, 'name' | 'parent_id'> | null;
+  })[];
+};
+
+export type EventWithFacilities = Tables<'events'> & {
+  event_facilities: (Pick<Tables<'event_facilities'>, 'facility_id' | 'quantity'> & {
+    facilities: Pick<Tables<'facilities'>, 'name'> | null;
+  })[];
+};
+
+type Venue = VenueWithFacilities;
+type EventRequirementFields = Pick<
+  EventWithFacilities,
+  'student_count' | 'event_facilities' | 'event_date' | 'time_slot' |
+  'duration_hours' | 'span_days' | 'recurrence_rule' | 'priority' | 'type' | 'space_type' | 'event_category' |
+  'computing_requirement' | 'is_group_event' | 'number_of_teams' | 'evaluation_setup' |
+  'stage_requirement' | 'sound_requirement' | 'stalls_needed' | 'audience_participation'
+>;
+
+export interface FacilityRequirement {
+  facilityId: string;
+  name: string;
+  quantity: number;
+}
 
 export interface EventRequirements {
   participants: number;
-  facilitiesRequired: string[];
+  facilitiesRequired: FacilityRequirement[];
   preferredDateTime: string;
+  durationHours: number;
+  // Days each occurrence spans, and the RRULE its start dates follow
+  spanDays?: number;
+  recurrenceRule?: string | null;
   priority: 'high' | 'medium' | 'low';
   eventType: 'technical' | 'non-technical';
+  eventCategory?: string;
   spaceType?: string;
+  // Technical specific
+  computingRequirement?: string[];
+  isGroupEvent?: boolean;
+  numberOfTeams?: number;
+  evaluationSetup?: boolean;
+  // Non-technical specific
+  stageRequirement?: boolean;
+  soundRequirement?: boolean;
+  stallsNeeded?: number;
+  audienceParticipation?: boolean;
+}
+
+export type ScoreCriterionKey =
+  'area' | 'availability' | 'facilities' | 'capacity' | 'priority' | 'venueType' | 'preference';
+
+export interface ScoreCriterion {
+  key: ScoreCriterionKey;
+  label: string;
+  points: number;
+  maxPoints: number;
+  passed: boolean;
+  detail: string;
+}
+
+export interface FacilityCheck {
+  facilityId: string;
+  facility: string;
+  required: number;
+  available: number;
+  // How the venue covers the request; undefined when it does not
+  status?: 'installed' | 'on_request';
+  matched: boolean;
+}
+
+export interface ScoreBreakdown {
+  criteria: ScoreCriterion[];
+  facilities: FacilityCheck[];
+  requiredArea: number;
+  policyVersion: number | null;
+  derived: string[];
+}
+
+export interface SelectionPolicy {
+  id: string | null;
+  version: number | null;
+  weights: Record<Exclude<ScoreCriterionKey, 'venueType' | 'preference'>, number>;
+  oversizePenalty: number;
+  sqftPerPerson: number;
+  maxAlternatives: number;
+  // Bonus points per venue type, keyed by event category or event type
+  venueTypeBonuses: Record<string, Record<string, number>>;
 }
 
 export interface VenueMatch {
   venue: Venue;
   score: number;
   reason: string;
+  breakdown: ScoreBreakdown;
   alternative?: boolean;
 }
 
+// A venue match as stored with the event when it was submitted
+export interface VenueMatchSnapshot {
+  venueId: string;
+  venueName: string;
+  score: number;
+  reason: string;
+  breakdown: ScoreBreakdown;
+}
+
+export const snapshotMatch = (match: VenueMatch): VenueMatchSnapshot => ({
+  venueId: match.venue.id,
+  venueName: match.venue.name,
+  score: match.score,
+  reason: match.reason,
+  breakdown: match.breakdown,
+});
+
+export interface VenueSplit {
+  venues: Venue[];
+  capacity: number;
+  areaSqft: number;
+  requiredArea: number;
+  facilities: FacilityCheck[];
+  // Distinct buildings the venues are spread over, and the floors between them
+  buildings: number;
+  floorSpread: number;
+}
+
+export interface SlotSuggestion {
+  venue: Venue;
+  date: string;
+  startTime: string;
+  score: number;
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface VenueBuffer {
+  setupMinutes: number;
+  teardownMinutes: number;
+}
+
+export const DEFAULT_VENUE_BUFFER: VenueBuffer = { setupMinutes: 15, teardownMinutes: 15 };
+
+// Setup/teardown time kept free around every booking, keyed by venue type. Approval checks the same
+// values from the venue_type_buffers table, so change both together.
+export const VENUE_TYPE_BUFFERS: Record<string, VenueBuffer> = {
+  auditorium: { setupMinutes: 60, teardownMinutes: 45 },
+  seminar_hall: { setupMinutes: 30, teardownMinutes: 30 },
+  computer_lab: { setupMinutes: 30, teardownMinutes: 15 },
+  library_hall: { setupMinutes: 30, teardownMinutes: 30 },
+  outdoor_ground: { setupMinutes: 120, teardownMinutes: 90 },
+  sports_court: { setupMinutes: 60, teardownMinutes: 60 },
+  classroom: { setupMinutes: 15, teardownMinutes: 15 },
+  cafeteria: { setupMinutes: 60, teardownMinutes: 60 },
+};
+
+export const VENUE_TYPES = Object.keys(VENUE_TYPE_BUFFERS);
+
+// Used until a stored policy has been loaded, matches the seeded version 1
+export const DEFAULT_SELECTION_POLICY: SelectionPolicy = {
+  id: null,
+  version: null,
+  weights: { area: 100, availability: 50, facilities: 30, capacity: 20, priority: 10 },
+  oversizePenalty: 20,
+  sqftPerPerson: 6,
+  maxAlternatives: 3,
+  venueTypeBonuses: {},
+};
+
+// Start times offered by the event wizard
+export const STANDARD_START_TIMES = ['09:00', '10:00', '11:00', '14:00', '15:00', '16:00'];
+
+const MINUTE_MS = 60 * 1000;
+
+// Window and granularity of the free-slot search; events must end by the close of the day
+export const SLOT_SEARCH_DAY = { opensAt: '08:00', closesAt: '20:00', stepMinutes: 30 };
+
+// Largest number of venues a split event may be spread across
+export const MAX_SPLIT_VENUES = 3;
+
+// Criteria a venue must pass to count as an exact match; the rest only adjust the score
+const REQUIRED_CRITERIA: ScoreCriterionKey[] = ['area', 'availability', 'facilities', 'venueType'];
+
+// Event dates and times are campus wall-clock time, Asia/Kolkata, as event_time_range reads them on
+// the server. India keeps no daylight saving, so a fixed offset converts them exactly.
+const CAMPUS_UTC_OFFSET = '+05:30';
+const CAMPUS_UTC_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The instant a campus "yyyy-MM-dd" and "HH:mm" stand for, wherever the browser is
+ */
+export const toDateTime = (date: string, time: string): Date => new Date(`${date}T${time}${CAMPUS_UTC_OFFSET}`);
+
+/**
+ * Campus "yyyy-MM-dd" of an instant
+ */
+const toCampusDate = (instant: Date): string =>
+  new Date(instant.getTime() + CAMPUS_UTC_OFFSET_MS).toISOString().slice(0, 10);
+
+/**
+ * "yyyy-MM-dd" a number of days after another
+ */
+const shiftDate = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Minutes since midnight for "HH:mm"
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * "HH:mm" for minutes since midnight
+ */
+export const minutesToTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Time range covered by a stored booking
+ */
+export const toBookingRange = (booking: VenueBooking): TimeRange => ({
+  start: new Date(booking.starts_at),
+  end: new Date(booking.ends_at),
+});
+
+/**
+ * Requested window for a "yyyy-MM-dd HH:mm" string: from the start time on the first day
+ * to the end time on the last day of the span
+ */
+export const getRequestedRange = (dateTime: string, durationHours: number, spanDays = 1): TimeRange => {
+  const [date, time] = dateTime.trim().split(' ');
+  const start = toDateTime(date, time);
+  const lastDayStart = toDateTime(shiftDate(date, spanDays - 1), time);
+  return {
+    start,
+    end: new Date(lastDayStart.getTime() + durationHours * 60 * MINUTE_MS),
+  };
+};
+
+/**
+ * Windows of every occurrence the requirements describe, first one first
+ */
+export const getRequestedRanges = (requirements: EventRequirements): TimeRange[] => {
+  const [date, time] = requirements.preferredDateTime.trim().split(' ');
+  return expandOccurrenceDates(date, requirements.recurrenceRule ?? null).map(occurrence =>
+    getRequestedRange(`${occurrence} ${time}`, requirements.durationHours, requirements.spanDays)
+  );
+};
+
+/**
+ * Half-open interval intersection: touching ranges do not overlap
+ */
+export const rangesOverlap = (a: TimeRange, b: TimeRange): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * First of a series' windows, in start order, that begins before the one before it ends: a
+ * three-day event repeating daily would need its venue twice at once
+ */
+export const findOverlappingRange = (ranges: TimeRange[]): TimeRange | null =>
+  ranges.find((range, index) => index > 0 && rangesOverlap(ranges[index - 1], range)) ?? null;
+
+/**
+ * Concrete blackout windows on the days touched by a range
+ */
+export const expandBlackout = (blackout: VenueBlackout, range: TimeRange): TimeRange[] => {
+  if (blackout.recurrence !== 'weekly') {
+    return blackout.starts_at && blackout.ends_at
+      ? [{ start: new Date(blackout.starts_at), end: new Date(blackout.ends_at) }]
+      : [];
+  }
+
+  const windows: TimeRange[] = [];
+  const lastDate = toCampusDate(range.end);
+
+  for (let date = toCampusDate(range.start); date <= lastDate; date = shiftDate(date, 1)) {
+    const weekday = new Date(`${date}T00:00Z`).getUTCDay();
+    if (!blackout.weekdays?.includes(weekday)) continue;
+    if (blackout.valid_from && date < blackout.valid_from) continue;
+    if (blackout.valid_until && date > blackout.valid_until) continue;
+
+    windows.push({
+      start: toDateTime(date, blackout.start_time!),
+      end: toDateTime(date, blackout.end_time!),
+    });
+  }
+
+  return windows;
+};
+
+const groupByVenue = <T extends { venue_id: string }>(rows: T[]): Map<string, T[]> => {
+  const grouped = new Map<string, T[]>();
+  rows.forEach(row => {
+    const venueRows = grouped.get(row.venue_id) ?? [];
+    venueRows.push(row);
+    grouped.set(row.venue_id, venueRows);
+  });
+  return grouped;
+};
+
+/**
+ * Selection policy from its stored row, or the default when none is stored
+ */
+export const policyFromRow = (row: SelectionPolicyRow | null): SelectionPolicy => row ? {
+  id: row.id,
+  version: row.version,
+  weights: {
+    area: row.area_weight,
+    availability: row.availability_weight,
+    facilities: row.facilities_weight,
+    capacity: row.capacity_weight,
+    priority: row.priority_weight,
+  },
+  oversizePenalty: row.oversize_penalty,
+  sqftPerPerson: row.sqft_per_person,
+  maxAlternatives: row.max_alternatives,
+  venueTypeBonuses: row.venue_type_bonuses as SelectionPolicy['venueTypeBonuses'],
+} : DEFAULT_SELECTION_POLICY;
+
+/**
+ * Rebuild the algorithm's requirements from a stored event
+ */
+export const requirementsFromEvent = (event: EventRequirementFields): EventRequirements => ({
+  participants: event.student_count ?? 1,
+  facilitiesRequired: event.event_facilities.map(requirement => ({
+    facilityId: requirement.facility_id,
+    name: requirement.facilities?.name ?? requirement.facility_id,
+    quantity: requirement.quantity,
+  })),
+  preferredDateTime: `${event.event_date} ${(event.time_slot ?? '09:00').slice(0, 5)}`,
+  durationHours: event.duration_hours ?? 2,
+  spanDays: event.span_days,
+  recurrenceRule: event.recurrence_rule,
+  priority: (event.priority ?? 'medium') as EventRequirements['priority'],
+  eventType: event.type as EventRequirements['eventType'],
+  eventCategory: event.event_category ?? undefined,
+  spaceType: event.space_type ?? undefined,
+  computingRequirement: event.computing_requirement ?? [],
+  isGroupEvent: event.is_group_event ?? false,
+  numberOfTeams: event.number_of_teams ?? 0,
+  evaluationSetup: event.evaluation_setup ?? false,
+  stageRequirement: event.stage_requirement ?? false,
+  soundRequirement: event.sound_requirement ?? false,
+  stallsNeeded: event.stalls_needed ?? 0,
+  audienceParticipation: event.audience_participation ?? false,
+});
+
 export class VenueSelectionAlgorithm {
   private venues: Venue[];
+  private bookingsByVenue: Map<string, VenueBooking[]>;
+  private blackoutsByVenue: Map<string, VenueBlackout[]>;
+  private buffers: Record<string, VenueBuffer>;
+  private policy: SelectionPolicy;
 
-  constructor(venues: Venue[]) {
-    this.venues = venues;
+  constructor(
+    venues: Venue[],
+    bookings: VenueBooking[] = [],
+    blackouts: VenueBlackout[] = [],
+    policy: SelectionPolicy = DEFAULT_SELECTION_POLICY,
+    buffers: Record<string, VenueBuffer> = VENUE_TYPE_BUFFERS
+  ) {
+    // Archived venues stay on historical events but are never offered again
+    this.venues = venues.filter(venue => !venue.archived_at);
+    this.policy = policy;
+    this.buffers = buffers;
+    this.bookingsByVenue = groupByVenue(bookings);
+    this.blackoutsByVenue = groupByVenue(blackouts);
   }
 
   /**
-   * Calculate minimum required area using 6 sq ft per person formula
+   * Calculate minimum required area from the policy's sq ft per person
    */
   private calculateRequiredArea(participants: number): number {
-    return participants * 6;
+    return Math.ceil(participants * this.policy.sqftPerPerson);
   }
 
   /**
-   * Check if venue is available at requested time
+   * Venue type bonuses that apply to an event, by category first and then by type
    */
-  private isVenueAvailable(venue: Venue, requestedDateTime: string): boolean {
-    if (!venue.booked_slots || venue.booked_slots.length === 0) return true;
-
-    const requestedDate = new Date(requestedDateTime).toISOString().split('T')[0];
-    const requestedTime = new Date(requestedDateTime).toLocaleTimeString('en-US', { 
-      hour12: false, 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
+  private getTypeBonuses(requirements: EventRequirements): Record<string, number> | undefined {
+    const bonuses = this.policy.venueTypeBonuses;
+    return (requirements.eventCategory && bonuses[requirements.eventCategory]) || bonuses[requirements.eventType];
+  }
 
-    return !venue.booked_slots.some(slot => {
-      if (slot.includes(requestedDate)) {
-        const timeRange = slot.split(' ')[1]; // Get time part
-        if (timeRange && timeRange.includes('-')) {
-          const [startTime, endTime] = timeRange.split('-');
-          return requestedTime >= startTime && requestedTime <= endTime;
-        }
-      }
-      return false;
+  /**
+   * Widen a range by the venue's setup and teardown buffers
+   */
+  private withBuffer(venue: Venue, range: TimeRange): TimeRange {
+    const buffer = this.buffers[venue.type] ?? DEFAULT_VENUE_BUFFER;
+    return {
+      start: new Date(range.start.getTime() - buffer.setupMinutes * MINUTE_MS),
+      end: new Date(range.end.getTime() + buffer.teardownMinutes * MINUTE_MS),
+    };
+  }
+
+  /**
+   * Bookings that clash with any of the requested windows, including buffers
+   */
+  private getConflicts(venue: Venue, requested: TimeRange[]): VenueBooking[] {
+    const bookings = this.bookingsByVenue.get(venue.id) ?? [];
+    const buffered = requested.map(range => this.withBuffer(venue, range));
+
+    return bookings.filter(booking => {
+      const booked = this.withBuffer(venue, toBookingRange(booking));
+      return buffered.some(range => rangesOverlap(range, booked));
     });
   }
 
   /**
-   * Check if venue has required facilities
+   * Blackouts that close the venue during any of the requested windows, including buffers
    */
-  private hasFacilities(venue: Venue, requiredFacilities: string[]): boolean {
-    if (!requiredFacilities || requiredFacilities.length === 0) return true;
-    if (!venue.facilities || venue.facilities.length === 0) return false;
-
-    return requiredFacilities.every(required => 
-      venue.facilities!.some(available => 
-        available.toLowerCase().includes(required.toLowerCase()) ||
-        required.toLowerCase().includes(available.toLowerCase())
-      )
+  private getBlackouts(venue: Venue, requested: TimeRange[]): VenueBlackout[] {
+    const blackouts = this.blackoutsByVenue.get(venue.id) ?? [];
+    const buffered = requested.map(range => this.withBuffer(venue, range));
+
+    return blackouts.filter(blackout =>
+      buffered.some(range => expandBlackout(blackout, range).some(window => rangesOverlap(range, window)))
     );
   }
 
   /**
-   * Calculate match score for a venue
+   * Check if venue is free for every requested window, including buffers
+   */
+  private isVenueAvailable(venue: Venue, requested: TimeRange[]): boolean {
+    return this.getConflicts(venue, requested).length === 0 &&
+      this.getBlackouts(venue, requested).length === 0;
+  }
+
+  /**
+   * Bookings and blackouts that stop a venue hosting every requested window, including buffers
+   */
+  public checkAvailability(venue: Venue, requested: TimeRange[]): { conflicts: VenueBooking[]; blackouts: VenueBlackout[] } {
+    return {
+      conflicts: this.getConflicts(venue, requested),
+      blackouts: this.getBlackouts(venue, requested),
+    };
+  }
+
+  /**
+   * Check whether two windows in the same venue clash once buffers are applied
+   */
+  public clashes(venue: Venue, a: TimeRange, b: TimeRange): boolean {
+    return rangesOverlap(this.withBuffer(venue, a), this.withBuffer(venue, b));
+  }
+
+  /**
+   * Check each required facility and quantity against the venue's catalogue facilities;
+   * a facility also covers requests for its parent
+   */
+  private checkFacilities(venue: Venue, requiredFacilities: FacilityRequirement[]): FacilityCheck[] {
+    return requiredFacilities.map(required => {
+      const offered = venue.venue_facilities.filter(available =>
+        available.facility_id === required.facilityId || available.facilities?.parent_id === required.facilityId
+      );
+      const installed = offered
+        .filter(available => available.status === 'installed')
+        .reduce((total, available) => total + available.quantity, 0);
+      const onRequest = offered
+        .filter(available => available.status === 'on_request')
+        .reduce((total, available) => total + available.quantity, 0);
+
+      return {
+        facilityId: required.facilityId,
+        facility: required.name,
+        required: required.quantity,
+        available: installed + onRequest,
+        status: installed >= required.quantity
+          ? 'installed'
+          : installed + onRequest >= required.quantity ? 'on_request' : undefined,
+        matched: installed + onRequest >= required.quantity,
+      };
+    });
+  }
+
+  /**
+   * Score a venue criterion by criterion
    */
   private calculateScore(
-    venue: Venue, 
+    venue: Venue,
     requirements: EventRequirements,
-    isAvailable: boolean,
-    hasFacilities: boolean,
-    areaMatch: boolean
-  ): number {
-    let score = 0;
-
-    // Area efficiency (prefer smaller venues that fit)
-    if (areaMatch) {
-      const efficiency = venue.area_sqft / this.calculateRequiredArea(requirements.participants);
-      score += Math.max(0, 100 - (efficiency - 1) * 20); // Penalty for oversized venues
-    }
+    availability: {
+      conflicts: VenueBooking[];
+      blackouts: VenueBlackout[];
+      occurrences: number;
+      clashingOccurrences: number;
+    },
+    facilities: FacilityCheck[],
+    constraints: VenueConstraints
+  ): ScoreBreakdown {
+    const requiredArea = this.calculateRequiredArea(requirements.participants) + constraints.extraAreaSqft;
+    const areaMatch = venue.area_sqft >= requiredArea;
+    const isAvailable = availability.conflicts.length === 0 && availability.blackouts.length === 0;
+    const missing = facilities.filter(check => !check.matched);
+    const onRequest = facilities.filter(check => check.status === 'on_request');
+    const hasCapacity = venue.capacity >= requirements.participants;
+    const isHighPriority = requirements.priority === 'high';
+    const { weights, oversizePenalty } = this.policy;
+
+    // Area efficiency (prefer smaller venues that fit), with a penalty for oversized venues
+    const efficiency = venue.area_sqft / requiredArea;
+    const areaPoints = areaMatch ? Math.max(0, weights.area - (efficiency - 1) * oversizePenalty) : 0;
 
-    // Availability bonus
-    if (isAvailable) score += 50;
+    const criteria: ScoreCriterion[] = [
+      {
+        key: 'area',
+        label: 'Area efficiency',
+        points: areaPoints,
+        maxPoints: weights.area,
+        passed: areaMatch,
+        detail: areaMatch
+          ? `${venue.area_sqft} sq ft for ${requiredArea} sq ft needed (${efficiency.toFixed(1)}x)`
+          : `Too small: needs ${requiredArea} sq ft, has ${venue.area_sqft} sq ft`,
+      },
+      {
+        key: 'availability',
+        label: 'Availability',
+        points: isAvailable ? weights.availability : 0,
+        maxPoints: weights.availability,
+        passed: isAvailable,
+        detail: isAvailable
+          ? availability.occurrences > 1
+            ? `Free for all ${availability.occurrences} occurrences`
+            : `Free for the requested ${requirements.durationHours}h window`
+          : availability.occurrences > 1
+          ? `Unavailable for ${availability.clashingOccurrences} of ${availability.occurrences} occurrences`
+          : availability.blackouts.length > 0
+          ? `Venue is closed: ${availability.blackouts[0].reason}`
+          : availability.conflicts.some(booking => booking.kind === 'maintenance')
+          ? 'Venue is closed for maintenance during the requested window'
+          : `Venue is booked during the requested ${requirements.durationHours}h window`,
+      },
+      {
+        key: 'facilities',
+        label: 'Facilities',
+        // Facilities that must be arranged on request earn half their share
+        points: missing.length === 0
+          ? weights.facilities * (1 - onRequest.length / Math.max(1, facilities.length) / 2)
+          : 0,
+        maxPoints: weights.facilities,
+        passed: missing.length === 0,
+        detail: facilities.length === 0
+          ? 'No facilities requested'
+          : missing.length > 0
+          ? `Missing facilities: ${missing.map(check =>
+              check.available > 0 ? `${check.facility} (needs ${check.required}, has ${check.available})` : check.facility
+            ).join(', ')}`
+          : onRequest.length > 0
+          ? `All ${facilities.length} requested facilities available, ${onRequest.map(check => check.facility).join(', ')} on request`
+          : `All ${facilities.length} requested facilities available`,
+      },
+      {
+        key: 'capacity',
+        label: 'Capacity',
+        points: hasCapacity ? weights.capacity : 0,
+        maxPoints: weights.capacity,
+        passed: hasCapacity,
+        detail: `Seats ${venue.capacity} for ${requirements.participants} participants`,
+      },
+      {
+        key: 'priority',
+        label: 'Priority bonus',
+        points: isHighPriority ? weights.priority : 0,
+        maxPoints: weights.priority,
+        passed: isHighPriority,
+        detail: isHighPriority ? 'High-priority event' : `${requirements.priority} priority, no bonus`,
+      },
+    ];
 
-    // Facilities match bonus
-    if (hasFacilities) score += 30;
+    if (constraints.allowedVenueTypes) {
+      const allowed = constraints.allowedVenueTypes.includes(venue.type);
+      criteria.push({
+        key: 'venueType',
+        label: 'Space type',
+        points: 0,
+        maxPoints: 0,
+        passed: allowed,
+        detail: allowed
+          ? `${venue.type.replace('_', ' ')} suits a ${requirements.spaceType} event`
+          : `${venue.type.replace('_', ' ')} does not suit a ${requirements.spaceType} event`,
+      });
+    }
 
-    // Capacity match bonus
-    if (venue.capacity >= requirements.participants) score += 20;
+    // Policy preferences and the ones implied by the event's answers add up
+    const typeBonuses: Record<string, number> = { ...this.getTypeBonuses(requirements) };
+    Object.entries(constraints.venueTypeBonuses).forEach(([type, bonus]) => {
+      typeBonuses[type] = (typeBonuses[type] ?? 0) + bonus;
+    });
 
-    // Priority adjustment
-    if (requirements.priority === 'high') score += 10;
+    if (Object.keys(typeBonuses).length > 0) {
+      const bonus = typeBonuses[venue.type] ?? 0;
+      criteria.push({
+        key: 'preference',
+        label: 'Venue type preference',
+        points: bonus,
+        maxPoints: Math.max(0, ...Object.values(typeBonuses)),
+        passed: bonus > 0,
+        detail: bonus > 0
+          ? `${venue.type.replace('_', ' ')} venues are preferred for this event`
+          : `Preferred for this event: ${Object.keys(typeBonuses).map(type => type.replace('_', ' ')).join(', ')}`,
+      });
+    }
+
+    return { criteria, facilities, requiredArea, policyVersion: this.policy.version, derived: constraints.derived };
+  }
 
-    return score;
+  /**
+   * Facilities picked explicitly merged with the ones implied by the wizard answers,
+   * keeping the larger quantity when both ask for the same facility
+   */
+  private mergeFacilities(requirements: EventRequirements, constraints: VenueConstraints): FacilityRequirement[] {
+    const facilitiesRequired = [...requirements.facilitiesRequired];
+    constraints.facilities.forEach(implied => {
+      const existing = facilitiesRequired.find(required => required.facilityId === implied.facilityId);
+      if (!existing) {
+        facilitiesRequired.push(implied);
+      } else if (existing.quantity < implied.quantity) {
+        facilitiesRequired[facilitiesRequired.indexOf(existing)] = { ...existing, quantity: implied.quantity };
+      }
+    });
+    return facilitiesRequired;
   }
 
   /**
@@ -113,36 +648,42 @@ export class VenueSelectionAlgorithm {
     alternatives: VenueMatch[];
     noMatch: boolean;
   } {
-    const requiredArea = this.calculateRequiredArea(requirements.participants);
+    const requestedRanges = getRequestedRanges(requirements);
+    const constraints = deriveVenueConstraints(requirements);
+    const facilitiesRequired = this.mergeFacilities(requirements, constraints);
     const matches: VenueMatch[] = [];
     const alternatives: VenueMatch[] = [];
 
     this.venues.forEach(venue => {
-      const areaMatch = venue.area_sqft >= requiredArea;
-      const isAvailable = this.isVenueAvailable(venue, requirements.preferredDateTime);
-      const hasFacilities = this.hasFacilities(venue, requirements.facilitiesRequired);
-      
-      const score = this.calculateScore(venue, requirements, isAvailable, hasFacilities, areaMatch);
-      
-      let reason = '';
-      if (areaMatch && isAvailable && hasFacilities) {
-        reason = 'Perfect match: Adequate space, available, and has required facilities';
-      } else if (!areaMatch) {
-        reason = `Too small: Needs ${requiredArea} sq ft, has ${venue.area_sqft} sq ft`;
-      } else if (!isAvailable) {
-        reason = 'Venue is booked at requested time';
-      } else if (!hasFacilities) {
-        const missing = requirements.facilitiesRequired.filter(req => 
-          !venue.facilities?.some(f => f.toLowerCase().includes(req.toLowerCase()))
-        );
-        reason = `Missing facilities: ${missing.join(', ')}`;
-      }
+      const breakdown = this.calculateScore(
+        venue,
+        requirements,
+        {
+          conflicts: this.getConflicts(venue, requestedRanges),
+          blackouts: this.getBlackouts(venue, requestedRanges),
+          occurrences: requestedRanges.length,
+          clashingOccurrences: requestedRanges.length > 1
+            ? requestedRanges.filter(range => !this.isVenueAvailable(venue, [range])).length
+            : 0,
+        },
+        this.checkFacilities(venue, facilitiesRequired),
+        constraints
+      );
+      const score = breakdown.criteria.reduce((total, criterion) => total + criterion.points, 0);
+
+      // Every failing criterion that rules the venue out, not just the first
+      const problems = breakdown.criteria
+        .filter(criterion => !criterion.passed && REQUIRED_CRITERIA.includes(criterion.key))
+        .map(criterion => criterion.detail);
 
       const venueMatch: VenueMatch = {
         venue,
         score,
-        reason,
-        alternative: !areaMatch || !isAvailable || !hasFacilities
+        reason: problems.length === 0
+          ? 'Perfect match: Adequate space, available, and has required facilities'
+          : problems.join('; '),
+        breakdown,
+        alternative: problems.length > 0
       };
 
       if (venueMatch.alternative) {
@@ -168,38 +709,122 @@ export class VenueSelectionAlgorithm {
 
     return {
       exactMatches: matches,
-      alternatives: alternatives.slice(0, 3), // Top 3 alternatives
+      alternatives: alternatives.slice(0, this.policy.maxAlternatives),
       noMatch: matches.length === 0 && alternatives.length === 0
     };
   }
 
   /**
-   * Get suggested time slots for a venue
+   * Combinations of venues that are all free for the requested window and together have
+   * the seats, floor area and facilities the event needs. Only minimal combinations are
+   * returned (no venue can be dropped), fewest venues first, then the closest together.
    */
-  public getSuggestedTimeSlots(venue: Venue, requestedDate: string): string[] {
-    const suggestions = [
-      '09:00', '10:00', '11:00', '14:00', '15:00', '16:00'
-    ];
+  public findVenueSplits(
+    requirements: EventRequirements,
+    maxVenues = MAX_SPLIT_VENUES,
+    limit = this.policy.maxAlternatives
+  ): VenueSplit[] {
+    const requestedRanges = getRequestedRanges(requirements);
+    const constraints = deriveVenueConstraints(requirements);
+    const facilitiesRequired = this.mergeFacilities(requirements, constraints);
+    const requiredArea = this.calculateRequiredArea(requirements.participants) + constraints.extraAreaSqft;
+
+    const candidates = this.venues
+      .filter(venue =>
+        this.isVenueAvailable(venue, requestedRanges) &&
+        (!constraints.allowedVenueTypes || constraints.allowedVenueTypes.includes(venue.type))
+      )
+      .sort((a, b) => b.area_sqft - a.area_sqft);
+
+    const splits: VenueSplit[] = [];
+    const isSuperset = (venues: Venue[]) =>
+      splits.some(split => split.venues.every(venue => venues.includes(venue)));
+
+    const evaluate = (venues: Venue[]): VenueSplit | null => {
+      const capacity = venues.reduce((total, venue) => total + venue.capacity, 0);
+      const areaSqft = venues.reduce((total, venue) => total + venue.area_sqft, 0);
+      if (capacity < requirements.participants || areaSqft < requiredArea) return null;
+
+      // Facilities are pooled, so quantities add up across the venues
+      const pooled = { ...venues[0], venue_facilities: venues.flatMap(venue => venue.venue_facilities) };
+      const facilities = this.checkFacilities(pooled, facilitiesRequired);
+      if (facilities.some(check => !check.matched)) return null;
+
+      // Venues without a building are assumed to be apart from everything else
+      const buildings = new Set(venues.map(venue => venue.building ?? venue.id)).size;
+      const floors = venues.map(venue => venue.floor ?? 0);
+
+      return {
+        venues,
+        capacity,
+        areaSqft,
+        requiredArea,
+        facilities,
+        buildings,
+        floorSpread: Math.max(...floors) - Math.min(...floors),
+      };
+    };
+
+    const combine = (start: number, picked: Venue[], size: number) => {
+      if (picked.length === size) {
+        if (isSuperset(picked)) return;
+        const split = evaluate(picked);
+        if (split) splits.push(split);
+        return;
+      }
+      for (let i = start; i < candidates.length; i++) {
+        combine(i + 1, [...picked, candidates[i]], size);
+      }
+    };
 
-    if (!venue.booked_slots || venue.booked_slots.length === 0) {
-      return suggestions;
+    for (let size = 2; size <= Math.min(maxVenues, candidates.length); size++) {
+      combine(0, [], size);
     }
 
-    const bookedTimes = venue.booked_slots
-      .filter(slot => slot.includes(requestedDate))
-      .map(slot => {
-        const timeRange = slot.split(' ')[1];
-        return timeRange ? timeRange.split('-') : [];
-      })
-      .flat();
-
-    return suggestions.filter(time => 
-      !bookedTimes.some(bookedTime => 
-        Math.abs(
-          new Date(`2000-01-01 ${time}`).getTime() - 
-          new Date(`2000-01-01 ${bookedTime}`).getTime()
-        ) < 2 * 60 * 60 * 1000 // 2-hour buffer
+    return splits
+      .sort((a, b) =>
+        a.venues.length - b.venues.length ||
+        a.buildings - b.buildings ||
+        a.floorSpread - b.floorSpread ||
+        (a.areaSqft - a.requiredArea) - (b.areaSqft - b.requiredArea)
       )
-    );
+      .slice(0, limit);
+  }
+
+  /**
+   * Earliest (venue, date, start time) combinations between two dates where a single venue
+   * fully satisfies the event, buffers and blackouts included. Start times step through the
+   * day; within one start time the better scoring venue comes first.
+   */
+  public findAvailableSlots(
+    requirements: EventRequirements,
+    fromDate: string,
+    toDate: string,
+    limit = 5
+  ): SlotSuggestion[] {
+    const opensAt = timeToMinutes(SLOT_SEARCH_DAY.opensAt);
+    const lastStart = timeToMinutes(SLOT_SEARCH_DAY.closesAt) - requirements.durationHours * 60;
+    const startTimes: string[] = [];
+    for (let minutes = opensAt; minutes <= lastStart; minutes += SLOT_SEARCH_DAY.stepMinutes) {
+      startTimes.push(minutesToTime(minutes));
+    }
+
+    const now = new Date();
+    const suggestions: SlotSuggestion[] = [];
+
+    for (let date = fromDate; date <= toDate && suggestions.length < limit; date = shiftDate(date, 1)) {
+
+      for (const startTime of startTimes) {
+        if (suggestions.length >= limit) break;
+        if (toDateTime(date, startTime) <= now) continue;
+
+        this.findBestVenues({ ...requirements, preferredDateTime: `${date} ${startTime}` })
+          .exactMatches
+          .slice(0, limit - suggestions.length)
+          .forEach(match => suggestions.push({ venue: match.venue, date, startTime, score: match.score }));
+      }
+    }
+
+    return suggestions;
   }
-}
\ No newline at end of file
+}
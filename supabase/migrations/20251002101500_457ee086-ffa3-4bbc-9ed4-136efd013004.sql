@@ -0,0 +1,90 @@
+-- Bookings replace the free-text venues.booked_slots column
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE public.venue_bookings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'event' CHECK (kind IN ('event', 'maintenance', 'hold')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT venue_bookings_valid_range CHECK (ends_at > starts_at),
+  CONSTRAINT venue_bookings_event_kind CHECK ((kind = 'event') = (event_id IS NOT NULL)),
+  -- No two bookings may overlap in the same venue
+  CONSTRAINT venue_bookings_no_overlap EXCLUDE USING gist (
+    venue_id WITH =,
+    tstzrange(starts_at, ends_at, '[)') WITH &&
+  )
+);
+
+CREATE INDEX venue_bookings_event_id_idx ON public.venue_bookings (event_id);
+
+ALTER TABLE public.venue_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view venue bookings" ON public.venue_bookings FOR SELECT USING (true);
+
+-- Legacy slots and approved events that could not be booked while migrating, kept for an admin to
+-- sort out by hand instead of being dropped
+CREATE TABLE public.venue_booking_backfill_issues (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  venue_id UUID REFERENCES public.venues(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  source TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.venue_booking_backfill_issues ENABLE ROW LEVEL SECURITY;
+
+-- Convert existing "yyyy-MM-dd HH:mm-HH:mm" slots (campus local time) into holds
+CREATE TEMP TABLE legacy_slots ON COMMIT DROP AS
+SELECT
+  v.id AS venue_id,
+  slot,
+  CASE WHEN slot ~ '^\d{4}-\d{2}-\d{2} \d{2}:\d{2}-\d{2}:\d{2}$'
+    AND split_part(split_part(slot, ' ', 2), '-', 2) > split_part(split_part(slot, ' ', 2), '-', 1)
+  THEN (split_part(slot, ' ', 1) || ' ' || split_part(split_part(slot, ' ', 2), '-', 1))::timestamp AT TIME ZONE 'Asia/Kolkata'
+  END AS starts_at,
+  CASE WHEN slot ~ '^\d{4}-\d{2}-\d{2} \d{2}:\d{2}-\d{2}:\d{2}$'
+    AND split_part(split_part(slot, ' ', 2), '-', 2) > split_part(split_part(slot, ' ', 2), '-', 1)
+  THEN (split_part(slot, ' ', 1) || ' ' || split_part(split_part(slot, ' ', 2), '-', 2))::timestamp AT TIME ZONE 'Asia/Kolkata'
+  END AS ends_at
+FROM public.venues v, unnest(v.booked_slots) AS slot;
+
+INSERT INTO public.venue_bookings (venue_id, starts_at, ends_at, kind, notes)
+SELECT venue_id, starts_at, ends_at, 'hold', 'Migrated from booked slot ' || slot
+FROM legacy_slots
+WHERE starts_at IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Slots that could not be read, or that overlap one already migrated, are reported rather than lost
+INSERT INTO public.venue_booking_backfill_issues (venue_id, starts_at, ends_at, source, reason)
+SELECT
+  s.venue_id,
+  s.starts_at,
+  s.ends_at,
+  'booked slot ' || s.slot,
+  CASE WHEN s.starts_at IS NULL THEN 'Not a "yyyy-MM-dd HH:mm-HH:mm" slot' ELSE 'Overlaps another booked slot' END
+FROM legacy_slots s
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.venue_bookings b
+  WHERE b.venue_id = s.venue_id AND b.notes = 'Migrated from booked slot ' || s.slot
+);
+
+DO $$
+DECLARE
+  _issues INTEGER;
+BEGIN
+  SELECT count(*) INTO _issues FROM public.venue_booking_backfill_issues;
+  IF _issues > 0 THEN
+    RAISE WARNING '% booked slots could not be migrated; see venue_booking_backfill_issues', _issues;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.venues DROP COLUMN booked_slots;
@@ -0,0 +1,130 @@
+-- Time window an event occupies, in campus local time
+CREATE OR REPLACE FUNCTION public.event_time_range(_event public.events)
+RETURNS TSTZRANGE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT tstzrange(
+    (_event.event_date + COALESCE(_event.time_slot, '09:00'::time)) AT TIME ZONE 'Asia/Kolkata',
+    (_event.event_date + COALESCE(_event.time_slot, '09:00'::time)) AT TIME ZONE 'Asia/Kolkata'
+      + make_interval(hours => COALESCE(_event.duration_hours, 2)),
+    '[)'
+  )
+$$;
+
+-- Approve a pending event, optionally in another venue, and book the slot atomically.
+-- Returns {approved, booking_id, venue_id} or {approved: false, reason, conflicts[]}.
+CREATE OR REPLACE FUNCTION public.approve_event(_event_id UUID, _venue_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+  _booking_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+  _range := public.event_time_range(_event);
+
+  -- Serialise approvals per venue so two concurrent checks cannot both pass
+  PERFORM 1 FROM public.venues WHERE id = _event.venue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue % not found', _event.venue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(c ORDER BY c.starts_at), '[]'::jsonb) INTO _conflicts
+  FROM (
+    SELECT b.event_id, COALESCE(e.title, initcap(b.kind)) AS title, b.kind, b.starts_at, b.ends_at
+    FROM public.venue_bookings b
+    LEFT JOIN public.events e ON e.id = b.event_id
+    WHERE b.venue_id = _event.venue_id
+      AND tstzrange(b.starts_at, b.ends_at, '[)') && _range
+    UNION ALL
+    -- Approved events that predate venue_bookings and were never booked
+    SELECT e.id, e.title, 'event', lower(public.event_time_range(e)), upper(public.event_time_range(e))
+    FROM public.events e
+    WHERE e.venue_id = _event.venue_id
+      AND e.status = 'approved'
+      AND e.id <> _event.id
+      AND public.event_time_range(e) && _range
+      AND NOT EXISTS (SELECT 1 FROM public.venue_bookings b WHERE b.event_id = e.id)
+  ) c;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Venue is already booked for this slot',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_event.venue_id, _event.id, lower(_range), upper(_range), 'event', auth.uid())
+  RETURNING id INTO _booking_id;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_event(UUID, UUID) FROM anon;
+
+-- Book the slots of events that were approved before bookings existed
+INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind)
+SELECT e.venue_id, e.id, lower(public.event_time_range(e)), upper(public.event_time_range(e)), 'event'
+FROM public.events e
+WHERE e.status = 'approved'
+ON CONFLICT DO NOTHING;
+
+-- Approved events whose slot was already taken stay approved but unbooked; report them for review
+INSERT INTO public.venue_booking_backfill_issues (venue_id, event_id, starts_at, ends_at, source, reason)
+SELECT
+  e.venue_id,
+  e.id,
+  lower(public.event_time_range(e)),
+  upper(public.event_time_range(e)),
+  'approved event ' || e.title,
+  'Overlaps another booking in the same venue'
+FROM public.events e
+WHERE e.status = 'approved'
+  AND NOT EXISTS (SELECT 1 FROM public.venue_bookings b WHERE b.event_id = e.id);
+
+DO $$
+DECLARE
+  _issues INTEGER;
+BEGIN
+  SELECT count(*) INTO _issues FROM public.venue_booking_backfill_issues WHERE event_id IS NOT NULL;
+  IF _issues > 0 THEN
+    RAISE WARNING '% approved events could not be booked; see venue_booking_backfill_issues', _issues;
+  END IF;
+END;
+$$;
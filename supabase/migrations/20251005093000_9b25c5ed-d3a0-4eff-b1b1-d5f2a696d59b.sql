@@ -0,0 +1,180 @@
+-- Server-side role model: roles live in user_roles, not in the user-editable profile
+CREATE TYPE public.app_role AS ENUM ('coordinator', 'faculty_approver', 'venue_manager', 'admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Carry over existing roles, everyone keeps coordinator rights
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'coordinator'::public.app_role FROM public.profiles
+UNION
+SELECT user_id, role::public.app_role FROM public.profiles
+WHERE role IN ('faculty_approver', 'venue_manager', 'admin')
+ON CONFLICT (user_id, role) DO NOTHING;
+
+ALTER TABLE public.profiles DROP COLUMN role;
+
+-- Role helpers (SECURITY DEFINER so policies on user_roles do not recurse)
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin(_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+$$;
+
+-- New users start as coordinators
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'name', 'User'));
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'coordinator');
+  RETURN NEW;
+END;
+$$;
+
+-- RLS Policies for user_roles
+CREATE POLICY "Users can view their own roles" ON public.user_roles FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all roles" ON public.user_roles FOR SELECT USING (public.is_admin());
+CREATE POLICY "Admins can assign roles" ON public.user_roles FOR INSERT WITH CHECK (public.is_admin());
+CREATE POLICY "Admins can revoke roles" ON public.user_roles FOR DELETE USING (public.is_admin());
+
+-- RLS Policies for profiles (reviewers need organiser names)
+CREATE POLICY "Staff can view all profiles" ON public.profiles FOR SELECT USING (
+  public.is_admin()
+  OR public.has_role(auth.uid(), 'faculty_approver')
+  OR public.has_role(auth.uid(), 'venue_manager')
+);
+
+-- RLS Policies for events: organisers may only edit while pending, approvers decide
+DROP POLICY "Users can update their own events" ON public.events;
+CREATE POLICY "Users can update their own pending events" ON public.events FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'pending')
+  WITH CHECK (auth.uid() = user_id AND status = 'pending');
+CREATE POLICY "Approvers can update events" ON public.events FOR UPDATE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'));
+CREATE POLICY "Admins can delete events" ON public.events FOR DELETE USING (public.is_admin());
+
+-- RLS Policies for venues
+CREATE POLICY "Venue managers can create venues" ON public.venues FOR INSERT
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Venue managers can update venues" ON public.venues FOR UPDATE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Admins can delete venues" ON public.venues FOR DELETE USING (public.is_admin());
+
+-- RLS Policies for venue_bookings (event bookings are created by approve_event)
+CREATE POLICY "Venue managers can create bookings" ON public.venue_bookings FOR INSERT
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Venue managers can update bookings" ON public.venue_bookings FOR UPDATE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Venue managers can delete bookings" ON public.venue_bookings FOR DELETE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+
+-- Approval is open to admins and faculty approvers
+CREATE OR REPLACE FUNCTION public.approve_event(_event_id UUID, _venue_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+  _booking_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can approve events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+  _range := public.event_time_range(_event);
+
+  -- Serialise approvals per venue so two concurrent checks cannot both pass
+  PERFORM 1 FROM public.venues WHERE id = _event.venue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue % not found', _event.venue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(c ORDER BY c.starts_at), '[]'::jsonb) INTO _conflicts
+  FROM (
+    SELECT b.event_id, COALESCE(e.title, initcap(b.kind)) AS title, b.kind, b.starts_at, b.ends_at
+    FROM public.venue_bookings b
+    LEFT JOIN public.events e ON e.id = b.event_id
+    WHERE b.venue_id = _event.venue_id
+      AND tstzrange(b.starts_at, b.ends_at, '[)') && _range
+    UNION ALL
+    -- Approved events that predate venue_bookings and were never booked
+    SELECT e.id, e.title, 'event', lower(public.event_time_range(e)), upper(public.event_time_range(e))
+    FROM public.events e
+    WHERE e.venue_id = _event.venue_id
+      AND e.status = 'approved'
+      AND e.id <> _event.id
+      AND public.event_time_range(e) && _range
+      AND NOT EXISTS (SELECT 1 FROM public.venue_bookings b WHERE b.event_id = e.id)
+  ) c;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Venue is already booked for this slot',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_event.venue_id, _event.id, lower(_range), upper(_range), 'event', auth.uid())
+  RETURNING id INTO _booking_id;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Venue management: descriptive metadata and soft archiving
+ALTER TABLE public.venues
+ADD COLUMN IF NOT EXISTS description TEXT,
+ADD COLUMN IF NOT EXISTS photo_url TEXT,
+ADD COLUMN IF NOT EXISTS floor_plan_url TEXT,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.venues
+ADD CONSTRAINT venues_capacity_positive CHECK (capacity > 0),
+ADD CONSTRAINT venues_area_positive CHECK (area_sqft > 0);
+
+CREATE TRIGGER update_venues_updated_at
+  BEFORE UPDATE ON public.venues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Archived venues keep their history but cannot be booked again
+CREATE OR REPLACE FUNCTION public.prevent_archived_venue_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.venues WHERE id = NEW.venue_id AND archived_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Venue % is archived', NEW.venue_id USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER venue_bookings_active_venue
+  BEFORE INSERT ON public.venue_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_venue_booking();
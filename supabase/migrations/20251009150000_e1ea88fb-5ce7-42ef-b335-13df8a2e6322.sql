@@ -0,0 +1,183 @@
+-- Venue blackout windows: one-off closures and weekly recurring ones (campus local time)
+CREATE TABLE public.venue_blackouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  recurrence TEXT NOT NULL DEFAULT 'none' CHECK (recurrence IN ('none', 'weekly')),
+  -- One-off window
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  -- Weekly window, weekdays use 0 = Sunday like EXTRACT(DOW)
+  weekdays INTEGER[],
+  start_time TIME,
+  end_time TIME,
+  valid_from DATE,
+  valid_until DATE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT venue_blackouts_window CHECK (
+    (recurrence = 'none' AND starts_at IS NOT NULL AND ends_at > starts_at)
+    OR (
+      recurrence = 'weekly'
+      AND cardinality(weekdays) > 0
+      AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]
+      AND end_time > start_time
+      AND valid_from IS NOT NULL
+      AND (valid_until IS NULL OR valid_until >= valid_from)
+    )
+  )
+);
+
+CREATE INDEX venue_blackouts_venue_id_idx ON public.venue_blackouts (venue_id);
+
+ALTER TABLE public.venue_blackouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view venue blackouts" ON public.venue_blackouts FOR SELECT USING (true);
+CREATE POLICY "Venue managers can create blackouts" ON public.venue_blackouts FOR INSERT
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Venue managers can update blackouts" ON public.venue_blackouts FOR UPDATE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Venue managers can delete blackouts" ON public.venue_blackouts FOR DELETE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+
+-- Concrete blackout windows of a venue that intersect a range
+CREATE OR REPLACE FUNCTION public.venue_blackout_ranges(_venue_id UUID, _range TSTZRANGE)
+RETURNS TABLE (blackout_id UUID, reason TEXT, starts_at TIMESTAMP WITH TIME ZONE, ends_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id, b.reason, b.starts_at, b.ends_at
+  FROM public.venue_blackouts b
+  WHERE b.venue_id = _venue_id
+    AND b.recurrence = 'none'
+    AND tstzrange(b.starts_at, b.ends_at, '[)') && _range
+  UNION ALL
+  SELECT b.id, b.reason, o.starts_at, o.ends_at
+  FROM public.venue_blackouts b
+  CROSS JOIN LATERAL (
+    SELECT
+      (d::date + b.start_time) AT TIME ZONE 'Asia/Kolkata' AS starts_at,
+      (d::date + b.end_time) AT TIME ZONE 'Asia/Kolkata' AS ends_at
+    FROM generate_series(
+      (lower(_range) AT TIME ZONE 'Asia/Kolkata')::date,
+      (upper(_range) AT TIME ZONE 'Asia/Kolkata')::date,
+      interval '1 day'
+    ) AS d
+    WHERE EXTRACT(DOW FROM d)::int = ANY (b.weekdays)
+      AND d::date >= b.valid_from
+      AND (b.valid_until IS NULL OR d::date <= b.valid_until)
+  ) o
+  WHERE b.venue_id = _venue_id
+    AND b.recurrence = 'weekly'
+    AND tstzrange(o.starts_at, o.ends_at, '[)') && _range
+$$;
+
+-- Upcoming approved events that collide with a blackout and need to be moved
+CREATE OR REPLACE FUNCTION public.blackout_event_conflicts()
+RETURNS TABLE (
+  event_id UUID,
+  event_title TEXT,
+  organiser_id UUID,
+  venue_id UUID,
+  blackout_id UUID,
+  reason TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.id, e.title, e.user_id, e.venue_id, x.blackout_id, x.reason, x.starts_at, x.ends_at
+  FROM public.events e
+  CROSS JOIN LATERAL public.venue_blackout_ranges(e.venue_id, public.event_time_range(e)) x
+  WHERE e.status = 'approved'
+    AND upper(public.event_time_range(e)) > now()
+  ORDER BY x.starts_at
+$$;
+
+-- Approval also refuses slots that fall inside a blackout
+CREATE OR REPLACE FUNCTION public.approve_event(_event_id UUID, _venue_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+  _booking_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can approve events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+  _range := public.event_time_range(_event);
+
+  -- Serialise approvals per venue so two concurrent checks cannot both pass
+  PERFORM 1 FROM public.venues WHERE id = _event.venue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue % not found', _event.venue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(c ORDER BY c.starts_at), '[]'::jsonb) INTO _conflicts
+  FROM (
+    SELECT b.event_id, COALESCE(e.title, initcap(b.kind)) AS title, b.kind, b.starts_at, b.ends_at
+    FROM public.venue_bookings b
+    LEFT JOIN public.events e ON e.id = b.event_id
+    WHERE b.venue_id = _event.venue_id
+      AND tstzrange(b.starts_at, b.ends_at, '[)') && _range
+    UNION ALL
+    -- Approved events that predate venue_bookings and were never booked
+    SELECT e.id, e.title, 'event', lower(public.event_time_range(e)), upper(public.event_time_range(e))
+    FROM public.events e
+    WHERE e.venue_id = _event.venue_id
+      AND e.status = 'approved'
+      AND e.id <> _event.id
+      AND public.event_time_range(e) && _range
+      AND NOT EXISTS (SELECT 1 FROM public.venue_bookings b WHERE b.event_id = e.id)
+    UNION ALL
+    SELECT NULL, x.reason, 'blackout', x.starts_at, x.ends_at
+    FROM public.venue_blackout_ranges(_event.venue_id, _range) x
+  ) c;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Venue is already booked for this slot',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_event.venue_id, _event.id, lower(_range), upper(_range), 'event', auth.uid())
+  RETURNING id INTO _booking_id;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
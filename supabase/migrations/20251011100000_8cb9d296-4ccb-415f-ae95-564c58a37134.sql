@@ -0,0 +1,305 @@
+-- Priority preemption: a high-priority event may ask a lower-priority approved event to move
+
+CREATE OR REPLACE FUNCTION public.priority_rank(_priority TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 2 END
+$$;
+
+CREATE TABLE public.event_preemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requesting_event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  displaced_event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  venue_id UUID NOT NULL REFERENCES public.venues(id),
+  proposed_venue_id UUID NOT NULL REFERENCES public.venues(id),
+  proposed_time_slot TIME NOT NULL,
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'accepted', 'declined', 'cancelled')),
+  note TEXT,
+  response_note TEXT,
+  proposed_by UUID REFERENCES auth.users(id),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (requesting_event_id <> displaced_event_id)
+);
+
+CREATE UNIQUE INDEX event_preemptions_open_idx
+  ON public.event_preemptions (requesting_event_id, displaced_event_id)
+  WHERE status = 'proposed';
+CREATE INDEX event_preemptions_displaced_idx ON public.event_preemptions (displaced_event_id);
+
+ALTER TABLE public.event_preemptions ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through propose_preemption / respond_to_preemption
+CREATE POLICY "Organisers and approvers can view preemptions" ON public.event_preemptions FOR SELECT USING (
+  public.is_admin()
+  OR public.has_role(auth.uid(), 'faculty_approver')
+  OR EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id IN (requesting_event_id, displaced_event_id) AND e.user_id = auth.uid()
+  )
+);
+
+-- Bookings, approved events and blackouts that clash with a slot
+CREATE OR REPLACE FUNCTION public.slot_conflicts(
+  _venue_id UUID,
+  _range TSTZRANGE,
+  _ignore_event_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(c ORDER BY c.starts_at), '[]'::jsonb)
+  FROM (
+    SELECT b.event_id, COALESCE(e.title, initcap(b.kind)) AS title, b.kind, b.starts_at, b.ends_at
+    FROM public.venue_bookings b
+    LEFT JOIN public.events e ON e.id = b.event_id
+    WHERE b.venue_id = _venue_id
+      AND tstzrange(b.starts_at, b.ends_at, '[)') && _range
+      AND (b.event_id IS NULL OR NOT b.event_id = ANY (_ignore_event_ids))
+    UNION ALL
+    -- Approved events that predate venue_bookings and were never booked
+    SELECT e.id, e.title, 'event', lower(public.event_time_range(e)), upper(public.event_time_range(e))
+    FROM public.events e
+    WHERE e.venue_id = _venue_id
+      AND e.status = 'approved'
+      AND NOT e.id = ANY (_ignore_event_ids)
+      AND public.event_time_range(e) && _range
+      AND NOT EXISTS (SELECT 1 FROM public.venue_bookings b WHERE b.event_id = e.id)
+    UNION ALL
+    SELECT NULL, x.reason, 'blackout', x.starts_at, x.ends_at
+    FROM public.venue_blackout_ranges(_venue_id, _range) x
+  ) c
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_event(_event_id UUID, _venue_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+  _booking_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can approve events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+  _range := public.event_time_range(_event);
+
+  -- Serialise approvals per venue so two concurrent checks cannot both pass
+  PERFORM 1 FROM public.venues WHERE id = _event.venue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Venue % not found', _event.venue_id USING ERRCODE = 'P0002';
+  END IF;
+
+  _conflicts := public.slot_conflicts(_event.venue_id, _range, ARRAY[_event.id]);
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Venue is already booked for this slot',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_event.venue_id, _event.id, lower(_range), upper(_range), 'event', auth.uid())
+  RETURNING id INTO _booking_id;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
+
+-- An approver asks the organiser of a lower-priority approved event to move
+CREATE OR REPLACE FUNCTION public.propose_preemption(
+  _event_id UUID,
+  _displaced_event_id UUID,
+  _proposed_venue_id UUID,
+  _proposed_time_slot TIME,
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _displaced public.events;
+  _preemption_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can propose preemptions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id;
+  SELECT * INTO _displaced FROM public.events WHERE id = _displaced_event_id;
+  IF _event.id IS NULL OR _displaced.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RAISE EXCEPTION '"%" is no longer pending', _event.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.status <> 'approved' THEN
+    RAISE EXCEPTION '"%" is not an approved event', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF public.priority_rank(_event.priority) <= public.priority_rank(_displaced.priority) THEN
+    RAISE EXCEPTION '"%" does not outrank "%"', _event.title, _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.venue_id <> _event.venue_id
+    OR NOT public.event_time_range(_displaced) && public.event_time_range(_event) THEN
+    RAISE EXCEPTION '"%" does not hold the requested slot', _displaced.title USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.event_preemptions (
+    requesting_event_id, displaced_event_id, venue_id,
+    proposed_venue_id, proposed_time_slot, note, proposed_by
+  )
+  VALUES (
+    _event.id, _displaced.id, _event.venue_id,
+    _proposed_venue_id, _proposed_time_slot, _note, auth.uid()
+  )
+  RETURNING id INTO _preemption_id;
+
+  RETURN _preemption_id;
+END;
+$$;
+
+-- The displaced organiser accepts (event moves, requester is approved) or declines
+CREATE OR REPLACE FUNCTION public.respond_to_preemption(
+  _preemption_id UUID,
+  _accept BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _preemption public.event_preemptions;
+  _event public.events;
+  _displaced public.events;
+  _moved_range TSTZRANGE;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+BEGIN
+  SELECT * INTO _preemption FROM public.event_preemptions WHERE id = _preemption_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Preemption % not found', _preemption_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _displaced FROM public.events WHERE id = _preemption.displaced_event_id FOR UPDATE;
+  IF auth.uid() IS DISTINCT FROM _displaced.user_id AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the organiser of "%" can respond', _displaced.title USING ERRCODE = '42501';
+  END IF;
+
+  IF _preemption.status <> 'proposed' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'This request was already ' || _preemption.status);
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.event_preemptions
+    SET status = 'declined', response_note = _note, responded_at = now()
+    WHERE id = _preemption.id;
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Declined');
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _preemption.requesting_event_id FOR UPDATE;
+  IF _event.status <> 'pending' THEN
+    UPDATE public.event_preemptions
+    SET status = 'cancelled', responded_at = now()
+    WHERE id = _preemption.id;
+    RETURN jsonb_build_object('accepted', false, 'reason', '"' || _event.title || '" no longer needs the slot');
+  END IF;
+
+  PERFORM 1 FROM public.venues
+  WHERE id IN (_preemption.venue_id, _preemption.proposed_venue_id)
+  FOR UPDATE;
+
+  -- Move the displaced event to its proposed slot
+  _displaced.venue_id := _preemption.proposed_venue_id;
+  _displaced.time_slot := _preemption.proposed_time_slot;
+  _moved_range := public.event_time_range(_displaced);
+  _range := public.event_time_range(_event);
+
+  _conflicts := public.slot_conflicts(_displaced.venue_id, _moved_range, ARRAY[_displaced.id]);
+  IF jsonb_array_length(_conflicts) > 0
+    OR (_displaced.venue_id = _preemption.venue_id AND _moved_range && _range) THEN
+    RETURN jsonb_build_object(
+      'accepted', false,
+      'reason', 'The proposed slot is no longer free',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  DELETE FROM public.venue_bookings WHERE event_id = _displaced.id;
+
+  UPDATE public.events
+  SET venue_id = _displaced.venue_id, time_slot = _displaced.time_slot
+  WHERE id = _displaced.id;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_displaced.venue_id, _displaced.id, lower(_moved_range), upper(_moved_range), 'event', auth.uid());
+
+  -- Approve the requesting event in the freed slot; any remaining clash rolls everything back
+  _conflicts := public.slot_conflicts(_preemption.venue_id, _range, ARRAY[_event.id]);
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RAISE EXCEPTION 'The slot for "%" is still taken by another booking', _event.title USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_preemption.venue_id, _event.id, lower(_range), upper(_range), 'event', _preemption.proposed_by);
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _preemption.venue_id
+  WHERE id = _event.id;
+
+  UPDATE public.event_preemptions
+  SET status = 'accepted', response_note = _note, responded_at = now()
+  WHERE id = _preemption.id;
+
+  -- Other open requests on either event are now moot
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed'
+    AND id <> _preemption.id
+    AND (requesting_event_id = _event.id OR displaced_event_id = _displaced.id);
+
+  RETURN jsonb_build_object('accepted', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.propose_preemption(UUID, UUID, UUID, TIME, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.respond_to_preemption(UUID, BOOLEAN, TEXT) FROM anon;
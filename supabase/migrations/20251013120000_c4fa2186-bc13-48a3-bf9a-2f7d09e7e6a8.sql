@@ -0,0 +1,52 @@
+-- Versioned venue-selection policies: rows are never edited, saving a change adds a new version
+CREATE TABLE public.selection_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  version INTEGER NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  notes TEXT,
+  -- Points awarded per criterion
+  area_weight INTEGER NOT NULL DEFAULT 100 CHECK (area_weight >= 0),
+  availability_weight INTEGER NOT NULL DEFAULT 50 CHECK (availability_weight >= 0),
+  facilities_weight INTEGER NOT NULL DEFAULT 30 CHECK (facilities_weight >= 0),
+  capacity_weight INTEGER NOT NULL DEFAULT 20 CHECK (capacity_weight >= 0),
+  priority_weight INTEGER NOT NULL DEFAULT 10 CHECK (priority_weight >= 0),
+  -- Area efficiency points lost for every extra multiple of the required area
+  oversize_penalty INTEGER NOT NULL DEFAULT 20 CHECK (oversize_penalty >= 0),
+  sqft_per_person NUMERIC NOT NULL DEFAULT 6 CHECK (sqft_per_person > 0),
+  max_alternatives INTEGER NOT NULL DEFAULT 3 CHECK (max_alternatives >= 0),
+  -- Bonus points per venue type, keyed by event category or event type:
+  -- {"Cultural": {"outdoor_ground": 25}}
+  venue_type_bonuses JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(venue_type_bonuses) = 'object'),
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.next_selection_policy_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.version := COALESCE((SELECT max(version) FROM public.selection_policies), 0) + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER selection_policies_version
+  BEFORE INSERT ON public.selection_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.next_selection_policy_version();
+
+ALTER TABLE public.selection_policies ENABLE ROW LEVEL SECURITY;
+
+-- The highest version is the active policy; there are no update or delete policies
+CREATE POLICY "Anyone can view selection policies" ON public.selection_policies FOR SELECT USING (true);
+CREATE POLICY "Admins can publish selection policies" ON public.selection_policies FOR INSERT
+  WITH CHECK (public.is_admin());
+
+INSERT INTO public.selection_policies (name, notes, created_by)
+VALUES ('Default', 'Original hard-coded weights', NULL);
+
+-- Policy the organiser's venue recommendations were scored with
+ALTER TABLE public.events
+  ADD COLUMN selection_policy_id UUID REFERENCES public.selection_policies(id) ON DELETE SET NULL;
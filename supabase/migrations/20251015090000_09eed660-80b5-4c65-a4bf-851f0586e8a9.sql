@@ -0,0 +1,129 @@
+-- Facilities catalogue: canonical IDs shared by venues and events instead of free-text arrays
+CREATE TABLE public.facilities (
+  id TEXT NOT NULL PRIMARY KEY CHECK (id ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL UNIQUE,
+  -- Lower-case alternative labels, used when importing free text
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  -- A venue with this facility also satisfies requests for its parent (high-speed WiFi is WiFi)
+  parent_id TEXT REFERENCES public.facilities(id),
+  -- Whether requests and venues state how many are needed / available
+  countable BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.venue_facilities (
+  venue_id UUID NOT NULL REFERENCES public.venues(id) ON DELETE CASCADE,
+  facility_id TEXT NOT NULL REFERENCES public.facilities(id),
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'installed' CHECK (status IN ('installed', 'on_request')),
+  PRIMARY KEY (venue_id, facility_id)
+);
+
+CREATE TABLE public.event_facilities (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  facility_id TEXT NOT NULL REFERENCES public.facilities(id),
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  PRIMARY KEY (event_id, facility_id)
+);
+
+CREATE INDEX venue_facilities_facility_id_idx ON public.venue_facilities (facility_id);
+CREATE INDEX event_facilities_facility_id_idx ON public.event_facilities (facility_id);
+
+ALTER TABLE public.facilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.venue_facilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_facilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view facilities" ON public.facilities FOR SELECT USING (true);
+CREATE POLICY "Venue managers can add facilities" ON public.facilities FOR INSERT
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+CREATE POLICY "Venue managers can update facilities" ON public.facilities FOR UPDATE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+
+CREATE POLICY "Anyone can view venue facilities" ON public.venue_facilities FOR SELECT USING (true);
+CREATE POLICY "Venue managers can manage venue facilities" ON public.venue_facilities FOR ALL
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'))
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'venue_manager'));
+
+-- Organisers edit requirements under the same rules as the event itself
+CREATE POLICY "Anyone can view event facilities" ON public.event_facilities FOR SELECT USING (true);
+CREATE POLICY "Organisers can manage facilities of their pending events" ON public.event_facilities FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status = 'pending'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status = 'pending'
+  ));
+CREATE POLICY "Approvers can manage event facilities" ON public.event_facilities FOR ALL
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'))
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'));
+
+INSERT INTO public.facilities (id, name, synonyms, parent_id, countable) VALUES
+  ('projector', 'Projector', ARRAY['projectors'], NULL, true),
+  ('sound_system', 'Sound System', ARRAY['sound', 'sound setup', 'pa system', 'speakers'], NULL, false),
+  ('air_conditioning', 'Air Conditioning', ARRAY['ac', 'a/c', 'air conditioner'], NULL, false),
+  ('whiteboard', 'Whiteboard', ARRAY['whiteboards', 'white board'], NULL, true),
+  ('wifi', 'WiFi', ARRAY['wi-fi', 'internet', 'wireless'], NULL, false),
+  ('stage', 'Stage', ARRAY['stage setup'], NULL, false),
+  ('seating', 'Seating', ARRAY['seats', 'chairs'], NULL, true),
+  ('lighting', 'Lighting', ARRAY['lights', 'stage lighting'], NULL, false),
+  ('open_space', 'Open Space', ARRAY['open ground', 'open air'], NULL, false),
+  ('computers', 'Computers', ARRAY['computer', 'pcs', 'desktops'], NULL, true),
+  ('stalls', 'Stalls', ARRAY['stall', 'temporary stalls', 'food stalls'], NULL, true),
+  ('power_outlets', 'Power Outlets', ARRAY['extra power outlets', 'sockets'], NULL, true);
+
+INSERT INTO public.facilities (id, name, synonyms, parent_id, countable) VALUES
+  ('high_speed_wifi', 'High-Speed WiFi', ARRAY['high speed wifi'], 'wifi', false);
+
+-- Resolve a free-text label to a catalogue ID, adding unknown labels to the catalogue
+CREATE FUNCTION pg_temp.facility_id_for(_label TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _id TEXT;
+BEGIN
+  SELECT id INTO _id FROM public.facilities
+  WHERE lower(name) = lower(_label) OR lower(_label) = ANY (synonyms)
+  LIMIT 1;
+
+  IF _id IS NULL THEN
+    _id := trim(BOTH '_' FROM regexp_replace(lower(_label), '[^a-z0-9]+', '_', 'g'));
+    INSERT INTO public.facilities (id, name) VALUES (_id, _label) ON CONFLICT (id) DO NOTHING;
+  END IF;
+
+  RETURN _id;
+END;
+$$;
+
+-- "Stage Setup Possible" means a stage can be arranged on request
+INSERT INTO public.venue_facilities (venue_id, facility_id, status)
+SELECT DISTINCT ON (v.id, pg_temp.facility_id_for(regexp_replace(f, '\s+(setup\s+)?possible$', '', 'i')))
+  v.id,
+  pg_temp.facility_id_for(regexp_replace(f, '\s+(setup\s+)?possible$', '', 'i')),
+  CASE WHEN f ~* '\spossible$' THEN 'on_request' ELSE 'installed' END
+FROM public.venues v
+CROSS JOIN LATERAL unnest(v.facilities) AS f
+WHERE trim(f) <> ''
+ORDER BY v.id, pg_temp.facility_id_for(regexp_replace(f, '\s+(setup\s+)?possible$', '', 'i')), f ~* '\spossible$';
+
+-- Seats and computers scale with the room, stall space with its floor area
+UPDATE public.venue_facilities vf
+SET quantity = v.capacity
+FROM public.venues v
+WHERE v.id = vf.venue_id AND vf.facility_id IN ('seating', 'computers');
+
+UPDATE public.venue_facilities vf
+SET quantity = GREATEST(1, v.area_sqft / 400)
+FROM public.venues v
+WHERE v.id = vf.venue_id AND vf.facility_id = 'stalls';
+
+INSERT INTO public.event_facilities (event_id, facility_id)
+SELECT DISTINCT e.id, pg_temp.facility_id_for(f)
+FROM public.events e
+CROSS JOIN LATERAL unnest(e.facilities_required) AS f
+WHERE trim(f) <> '';
+
+ALTER TABLE public.venues DROP COLUMN facilities;
+ALTER TABLE public.events DROP COLUMN facilities_required;
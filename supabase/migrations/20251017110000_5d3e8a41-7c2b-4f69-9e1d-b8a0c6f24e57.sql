@@ -0,0 +1,175 @@
+-- Split bookings: an event too big for any one venue can be held across several at once
+
+-- Where a venue is, so splits can favour venues close to each other
+ALTER TABLE public.venues
+  ADD COLUMN building TEXT,
+  ADD COLUMN floor INTEGER;
+
+-- Venues used alongside events.venue_id, which stays the primary venue
+CREATE TABLE public.event_venues (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  venue_id UUID NOT NULL REFERENCES public.venues(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, venue_id)
+);
+
+CREATE INDEX event_venues_venue_id_idx ON public.event_venues (venue_id);
+
+ALTER TABLE public.event_venues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view event venues" ON public.event_venues FOR SELECT USING (true);
+CREATE POLICY "Organisers can manage venues of their pending events" ON public.event_venues FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status = 'pending'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status = 'pending'
+  ));
+CREATE POLICY "Approvers can manage event venues" ON public.event_venues FOR ALL
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'))
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'));
+
+-- Approval books the primary venue and every additional one, or none of them
+CREATE OR REPLACE FUNCTION public.approve_event(_event_id UUID, _venue_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _range TSTZRANGE;
+  _venue_ids UUID[];
+  _venue UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _booking_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can approve events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+  _range := public.event_time_range(_event);
+
+  SELECT array_agg(DISTINCT v ORDER BY v) INTO _venue_ids
+  FROM unnest(array_append(
+    ARRAY(SELECT ev.venue_id FROM public.event_venues ev WHERE ev.event_id = _event.id),
+    _event.venue_id
+  )) AS v;
+
+  -- Serialise approvals per venue, always locking in the same order to avoid deadlocks
+  PERFORM 1 FROM public.venues WHERE id = ANY (_venue_ids) ORDER BY id FOR UPDATE;
+  IF (SELECT count(*) FROM public.venues WHERE id = ANY (_venue_ids)) <> array_length(_venue_ids, 1) THEN
+    RAISE EXCEPTION 'Venue not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOREACH _venue IN ARRAY _venue_ids LOOP
+    _conflicts := _conflicts || public.slot_conflicts(_venue, _range, ARRAY[_event.id]);
+  END LOOP;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', CASE WHEN array_length(_venue_ids, 1) > 1
+        THEN 'One of the venues is already booked for this slot'
+        ELSE 'Venue is already booked for this slot' END,
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  VALUES (_event.venue_id, _event.id, lower(_range), upper(_range), 'event', auth.uid())
+  RETURNING id INTO _booking_id;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, starts_at, ends_at, kind, created_by)
+  SELECT v, _event.id, lower(_range), upper(_range), 'event', auth.uid()
+  FROM unnest(_venue_ids) AS v
+  WHERE v <> _event.venue_id;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'venue_ids', to_jsonb(_venue_ids),
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
+
+-- Bumping moves a single booking, so split events can neither bump nor be bumped
+CREATE OR REPLACE FUNCTION public.propose_preemption(
+  _event_id UUID,
+  _displaced_event_id UUID,
+  _proposed_venue_id UUID,
+  _proposed_time_slot TIME,
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _displaced public.events;
+  _preemption_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can propose preemptions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id;
+  SELECT * INTO _displaced FROM public.events WHERE id = _displaced_event_id;
+  IF _event.id IS NULL OR _displaced.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RAISE EXCEPTION '"%" is no longer pending', _event.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.status <> 'approved' THEN
+    RAISE EXCEPTION '"%" is not an approved event', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF public.priority_rank(_event.priority) <= public.priority_rank(_displaced.priority) THEN
+    RAISE EXCEPTION '"%" does not outrank "%"', _event.title, _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.venue_id <> _event.venue_id
+    OR NOT public.event_time_range(_displaced) && public.event_time_range(_event) THEN
+    RAISE EXCEPTION '"%" does not hold the requested slot', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.event_venues WHERE event_id IN (_event.id, _displaced.id)) THEN
+    RAISE EXCEPTION 'Events held across several venues cannot be bumped' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.event_preemptions (
+    requesting_event_id, displaced_event_id, venue_id,
+    proposed_venue_id, proposed_time_slot, note, proposed_by
+  )
+  VALUES (
+    _event.id, _displaced.id, _event.venue_id,
+    _proposed_venue_id, _proposed_time_slot, _note, auth.uid()
+  )
+  RETURNING id INTO _preemption_id;
+
+  RETURN _preemption_id;
+END;
+$$;
@@ -0,0 +1,471 @@
+-- Multi-day and recurring events: an event is a series of occurrences, each approved or cancelled on its own
+
+ALTER TABLE public.events
+  -- RFC 5545 RRULE subset (FREQ, INTERVAL, COUNT, UNTIL, BYDAY); NULL for one-off events
+  ADD COLUMN recurrence_rule TEXT,
+  -- Consecutive days each occurrence holds its venue, from the start time on the first day
+  -- to the end time on the last
+  ADD COLUMN span_days INTEGER NOT NULL DEFAULT 1 CHECK (span_days BETWEEN 1 AND 14);
+
+ALTER TABLE public.events DROP CONSTRAINT events_status_check;
+ALTER TABLE public.events ADD CONSTRAINT events_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled'));
+
+-- Occurrences are expanded from the rule by the client when the event is created
+CREATE TABLE public.event_occurrences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT event_occurrences_valid_range CHECK (ends_at > starts_at),
+  UNIQUE (event_id, starts_at)
+);
+
+ALTER TABLE public.event_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view event occurrences" ON public.event_occurrences FOR SELECT USING (true);
+CREATE POLICY "Organisers can manage occurrences of their pending events" ON public.event_occurrences FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status = 'pending'
+  ))
+  WITH CHECK (
+    status = 'pending' AND EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status = 'pending'
+    )
+  );
+-- Approval and cancellation go through approve_event / cancel_event_occurrences
+
+-- Each booking holds one occurrence in one venue
+ALTER TABLE public.venue_bookings
+  ADD COLUMN occurrence_id UUID REFERENCES public.event_occurrences(id) ON DELETE CASCADE;
+
+CREATE INDEX venue_bookings_occurrence_id_idx ON public.venue_bookings (occurrence_id);
+
+-- Every existing event becomes a series of one
+INSERT INTO public.event_occurrences (event_id, starts_at, ends_at, status)
+SELECT
+  e.id,
+  lower(public.event_time_range(e)),
+  upper(public.event_time_range(e)),
+  CASE e.status WHEN 'approved' THEN 'approved' WHEN 'pending' THEN 'pending' ELSE 'cancelled' END
+FROM public.events e;
+
+UPDATE public.venue_bookings b
+SET occurrence_id = o.id
+FROM public.event_occurrences o
+WHERE o.event_id = b.event_id;
+
+-- Time window of an event's first occurrence, in campus local time
+CREATE OR REPLACE FUNCTION public.event_time_range(_event public.events)
+RETURNS TSTZRANGE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT tstzrange(
+    (_event.event_date + COALESCE(_event.time_slot, '09:00'::time)) AT TIME ZONE 'Asia/Kolkata',
+    (_event.event_date + COALESCE(_event.time_slot, '09:00'::time)) AT TIME ZONE 'Asia/Kolkata'
+      + make_interval(days => COALESCE(_event.span_days, 1) - 1, hours => COALESCE(_event.duration_hours, 2)),
+    '[)'
+  )
+$$;
+
+-- Blackouts are checked against bookings so every occurrence and venue of an event is covered
+CREATE OR REPLACE FUNCTION public.blackout_event_conflicts()
+RETURNS TABLE (
+  event_id UUID,
+  event_title TEXT,
+  organiser_id UUID,
+  venue_id UUID,
+  blackout_id UUID,
+  reason TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT e.id, e.title, e.user_id, b.venue_id, x.blackout_id, x.reason, x.starts_at, x.ends_at
+  FROM public.venue_bookings b
+  JOIN public.events e ON e.id = b.event_id
+  CROSS JOIN LATERAL public.venue_blackout_ranges(b.venue_id, tstzrange(b.starts_at, b.ends_at, '[)')) x
+  WHERE b.kind = 'event'
+    AND e.status = 'approved'
+    AND b.ends_at > now()
+  ORDER BY x.starts_at
+$$;
+
+-- Approve all pending occurrences of an event, or only the listed ones, booking every
+-- occurrence in every venue of the event atomically
+DROP FUNCTION public.approve_event(UUID, UUID);
+
+CREATE FUNCTION public.approve_event(
+  _event_id UUID,
+  _venue_id UUID DEFAULT NULL,
+  _occurrence_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _occurrences public.event_occurrences[];
+  _occurrence public.event_occurrences;
+  _venue_ids UUID[];
+  _venue UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _booking_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can approve events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Further occurrences of an approved series may still be approved, in the venue it already holds
+  IF _event.status NOT IN ('pending', 'approved')
+    OR (_event.status = 'approved' AND _venue_id IS DISTINCT FROM NULL AND _venue_id <> _event.venue_id) THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+
+  -- Events created before their occurrences were written still have their first one
+  IF NOT EXISTS (SELECT 1 FROM public.event_occurrences WHERE event_id = _event.id) THEN
+    INSERT INTO public.event_occurrences (event_id, starts_at, ends_at)
+    VALUES (_event.id, lower(public.event_time_range(_event)), upper(public.event_time_range(_event)));
+  END IF;
+
+  SELECT array_agg(o ORDER BY o.starts_at) INTO _occurrences
+  FROM public.event_occurrences o
+  WHERE o.event_id = _event.id
+    AND o.status = 'pending'
+    AND (_occurrence_ids IS NULL OR o.id = ANY (_occurrence_ids));
+
+  IF _occurrences IS NULL THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'No pending occurrences to approve',
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  SELECT array_agg(DISTINCT v ORDER BY v) INTO _venue_ids
+  FROM unnest(array_append(
+    ARRAY(SELECT ev.venue_id FROM public.event_venues ev WHERE ev.event_id = _event.id),
+    _event.venue_id
+  )) AS v;
+
+  -- Serialise approvals per venue, always locking in the same order to avoid deadlocks
+  PERFORM 1 FROM public.venues WHERE id = ANY (_venue_ids) ORDER BY id FOR UPDATE;
+  IF (SELECT count(*) FROM public.venues WHERE id = ANY (_venue_ids)) <> array_length(_venue_ids, 1) THEN
+    RAISE EXCEPTION 'Venue not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOREACH _occurrence IN ARRAY _occurrences LOOP
+    FOREACH _venue IN ARRAY _venue_ids LOOP
+      _conflicts := _conflicts || public.slot_conflicts(
+        _venue,
+        tstzrange(_occurrence.starts_at, _occurrence.ends_at, '[)'),
+        ARRAY[_event.id]
+      );
+    END LOOP;
+  END LOOP;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', CASE
+        WHEN array_length(_occurrences, 1) > 1 THEN 'Some occurrences clash with existing bookings'
+        WHEN array_length(_venue_ids, 1) > 1 THEN 'One of the venues is already booked for this slot'
+        ELSE 'Venue is already booked for this slot' END,
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  FOREACH _occurrence IN ARRAY _occurrences LOOP
+    INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+    SELECT v, _event.id, _occurrence.id, _occurrence.starts_at, _occurrence.ends_at, 'event', auth.uid()
+    FROM unnest(_venue_ids) AS v;
+  END LOOP;
+
+  SELECT id INTO _booking_id
+  FROM public.venue_bookings
+  WHERE occurrence_id = _occurrences[1].id AND venue_id = _event.venue_id;
+
+  UPDATE public.event_occurrences
+  SET status = 'approved'
+  WHERE id IN (SELECT (o).id FROM unnest(_occurrences) AS o);
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'venue_ids', to_jsonb(_venue_ids),
+    'occurrences', array_length(_occurrences, 1),
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
+
+-- Cancel every live occurrence of an event, or only the listed ones, releasing their bookings.
+-- The event follows its occurrences: approved while any is approved, cancelled once none is left.
+CREATE OR REPLACE FUNCTION public.cancel_event_occurrences(_event_id UUID, _occurrence_ids UUID[] DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _cancelled INTEGER;
+  _status TEXT;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can cancel occurrences' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH cancelled AS (
+    UPDATE public.event_occurrences
+    SET status = 'cancelled'
+    WHERE event_id = _event.id
+      AND status <> 'cancelled'
+      AND (_occurrence_ids IS NULL OR id = ANY (_occurrence_ids))
+    RETURNING id
+  )
+  SELECT count(*) INTO _cancelled FROM cancelled;
+
+  DELETE FROM public.venue_bookings b
+  USING public.event_occurrences o
+  WHERE b.occurrence_id = o.id AND o.event_id = _event.id AND o.status = 'cancelled';
+
+  SELECT CASE
+    WHEN bool_or(o.status = 'approved') THEN 'approved'
+    WHEN bool_or(o.status = 'pending') THEN
+      CASE WHEN _event.status = 'rejected' THEN 'rejected' ELSE 'pending' END
+    ELSE 'cancelled'
+  END INTO _status
+  FROM public.event_occurrences o
+  WHERE o.event_id = _event.id;
+
+  UPDATE public.events SET status = _status WHERE id = _event.id;
+
+  IF _status = 'cancelled' THEN
+    UPDATE public.event_preemptions
+    SET status = 'cancelled', responded_at = now()
+    WHERE status = 'proposed'
+      AND (requesting_event_id = _event.id OR displaced_event_id = _event.id);
+  END IF;
+
+  RETURN jsonb_build_object('cancelled', _cancelled, 'event_status', _status);
+END;
+$$;
+
+-- Bumping moves a single booking, so split and recurring events can neither bump nor be bumped
+CREATE OR REPLACE FUNCTION public.propose_preemption(
+  _event_id UUID,
+  _displaced_event_id UUID,
+  _proposed_venue_id UUID,
+  _proposed_time_slot TIME,
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _displaced public.events;
+  _preemption_id UUID;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can propose preemptions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id;
+  SELECT * INTO _displaced FROM public.events WHERE id = _displaced_event_id;
+  IF _event.id IS NULL OR _displaced.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RAISE EXCEPTION '"%" is no longer pending', _event.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.status <> 'approved' THEN
+    RAISE EXCEPTION '"%" is not an approved event', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF public.priority_rank(_event.priority) <= public.priority_rank(_displaced.priority) THEN
+    RAISE EXCEPTION '"%" does not outrank "%"', _event.title, _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.venue_id <> _event.venue_id
+    OR NOT public.event_time_range(_displaced) && public.event_time_range(_event) THEN
+    RAISE EXCEPTION '"%" does not hold the requested slot', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.event_venues WHERE event_id IN (_event.id, _displaced.id)) THEN
+    RAISE EXCEPTION 'Events held across several venues cannot be bumped' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.event_occurrences
+    WHERE event_id IN (_event.id, _displaced.id) AND status <> 'cancelled'
+    GROUP BY event_id
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'Recurring events cannot be bumped' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.event_preemptions (
+    requesting_event_id, displaced_event_id, venue_id,
+    proposed_venue_id, proposed_time_slot, note, proposed_by
+  )
+  VALUES (
+    _event.id, _displaced.id, _event.venue_id,
+    _proposed_venue_id, _proposed_time_slot, _note, auth.uid()
+  )
+  RETURNING id INTO _preemption_id;
+
+  RETURN _preemption_id;
+END;
+$$;
+
+-- Accepting a bump now moves the displaced occurrence and approves the requesting one with it
+CREATE OR REPLACE FUNCTION public.respond_to_preemption(
+  _preemption_id UUID,
+  _accept BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _preemption public.event_preemptions;
+  _event public.events;
+  _displaced public.events;
+  _moved_range TSTZRANGE;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+  _occurrence_id UUID;
+BEGIN
+  SELECT * INTO _preemption FROM public.event_preemptions WHERE id = _preemption_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Preemption % not found', _preemption_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _displaced FROM public.events WHERE id = _preemption.displaced_event_id FOR UPDATE;
+  IF auth.uid() IS DISTINCT FROM _displaced.user_id AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the organiser of "%" can respond', _displaced.title USING ERRCODE = '42501';
+  END IF;
+
+  IF _preemption.status <> 'proposed' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'This request was already ' || _preemption.status);
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.event_preemptions
+    SET status = 'declined', response_note = _note, responded_at = now()
+    WHERE id = _preemption.id;
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Declined');
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _preemption.requesting_event_id FOR UPDATE;
+  IF _event.status <> 'pending' THEN
+    UPDATE public.event_preemptions
+    SET status = 'cancelled', responded_at = now()
+    WHERE id = _preemption.id;
+    RETURN jsonb_build_object('accepted', false, 'reason', '"' || _event.title || '" no longer needs the slot');
+  END IF;
+
+  PERFORM 1 FROM public.venues
+  WHERE id IN (_preemption.venue_id, _preemption.proposed_venue_id)
+  FOR UPDATE;
+
+  -- Move the displaced event to its proposed slot
+  _displaced.venue_id := _preemption.proposed_venue_id;
+  _displaced.time_slot := _preemption.proposed_time_slot;
+  _moved_range := public.event_time_range(_displaced);
+  _range := public.event_time_range(_event);
+
+  _conflicts := public.slot_conflicts(_displaced.venue_id, _moved_range, ARRAY[_displaced.id]);
+  IF jsonb_array_length(_conflicts) > 0
+    OR (_displaced.venue_id = _preemption.venue_id AND _moved_range && _range) THEN
+    RETURN jsonb_build_object(
+      'accepted', false,
+      'reason', 'The proposed slot is no longer free',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  DELETE FROM public.venue_bookings WHERE event_id = _displaced.id;
+
+  UPDATE public.events
+  SET venue_id = _displaced.venue_id, time_slot = _displaced.time_slot
+  WHERE id = _displaced.id;
+
+  UPDATE public.event_occurrences
+  SET starts_at = lower(_moved_range), ends_at = upper(_moved_range)
+  WHERE event_id = _displaced.id AND status = 'approved'
+  RETURNING id INTO _occurrence_id;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+  VALUES (_displaced.venue_id, _displaced.id, _occurrence_id, lower(_moved_range), upper(_moved_range), 'event', auth.uid());
+
+  -- Approve the requesting event in the freed slot; any remaining clash rolls everything back
+  _conflicts := public.slot_conflicts(_preemption.venue_id, _range, ARRAY[_event.id]);
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RAISE EXCEPTION 'The slot for "%" is still taken by another booking', _event.title USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.event_occurrences (event_id, starts_at, ends_at, status)
+  VALUES (_event.id, lower(_range), upper(_range), 'approved')
+  ON CONFLICT (event_id, starts_at) DO UPDATE SET status = 'approved'
+  RETURNING id INTO _occurrence_id;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+  VALUES (_preemption.venue_id, _event.id, _occurrence_id, lower(_range), upper(_range), 'event', _preemption.proposed_by);
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _preemption.venue_id
+  WHERE id = _event.id;
+
+  UPDATE public.event_preemptions
+  SET status = 'accepted', response_note = _note, responded_at = now()
+  WHERE id = _preemption.id;
+
+  -- Other open requests on either event are now moot
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed'
+    AND id <> _preemption.id
+    AND (requesting_event_id = _event.id OR displaced_event_id = _displaced.id);
+
+  RETURN jsonb_build_object('accepted', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_event(UUID, UUID, UUID[]) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_event_occurrences(UUID, UUID[]) FROM anon;
@@ -0,0 +1,141 @@
+-- Organisers can edit and cancel their events after submitting them
+
+ALTER TABLE public.events
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Approved events stay approved through edits that do not touch their booking
+CREATE POLICY "Users can update their own approved events" ON public.events FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'approved')
+  WITH CHECK (auth.uid() = user_id AND status = 'approved');
+
+-- Date, time, venue and headcount of an approved event can only change once it has been reopened,
+-- so its bookings never drift from what was approved. Functions running as their owner are trusted.
+CREATE OR REPLACE FUNCTION public.guard_approved_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon')
+    OR public.is_admin()
+    OR public.has_role(auth.uid(), 'faculty_approver') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'approved' AND (
+    NEW.event_date IS DISTINCT FROM OLD.event_date
+    OR NEW.time_slot IS DISTINCT FROM OLD.time_slot
+    OR NEW.duration_hours IS DISTINCT FROM OLD.duration_hours
+    OR NEW.span_days IS DISTINCT FROM OLD.span_days
+    OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+    OR NEW.venue_id IS DISTINCT FROM OLD.venue_id
+    OR NEW.student_count IS DISTINCT FROM OLD.student_count
+  ) THEN
+    RAISE EXCEPTION 'Approved events must be reopened before their date, venue or headcount changes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_approved_event_changes
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.guard_approved_event_changes();
+
+-- Send an approved event back for approval ahead of a material change, releasing its bookings
+-- straight away so others can take the slots
+CREATE OR REPLACE FUNCTION public.reopen_event(_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _event.user_id
+    AND NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only the organiser or an approver can reopen this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status = 'pending' THEN
+    RETURN;
+  END IF;
+  IF _event.status <> 'approved' THEN
+    RAISE EXCEPTION 'Event is already %', _event.status USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.venue_bookings WHERE event_id = _event.id;
+
+  UPDATE public.event_occurrences
+  SET status = 'pending'
+  WHERE event_id = _event.id AND status = 'approved';
+
+  UPDATE public.events SET status = 'pending' WHERE id = _event.id;
+
+  -- A bump proposed against the old slot no longer applies
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed'
+    AND (requesting_event_id = _event.id OR displaced_event_id = _event.id);
+END;
+$$;
+
+-- Cancel a whole event with a reason, releasing every booking it holds
+CREATE OR REPLACE FUNCTION public.cancel_event(_event_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _event.user_id
+    AND NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only the organiser or an approver can cancel this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Event is already %', _event.status USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.venue_bookings WHERE event_id = _event.id;
+
+  UPDATE public.event_occurrences
+  SET status = 'cancelled'
+  WHERE event_id = _event.id AND status <> 'cancelled';
+
+  UPDATE public.events
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason),
+      cancelled_at = now(),
+      cancelled_by = auth.uid()
+  WHERE id = _event.id;
+
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed'
+    AND (requesting_event_id = _event.id OR displaced_event_id = _event.id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reopen_event(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_event(UUID, TEXT) FROM anon;
@@ -0,0 +1,53 @@
+-- Event detail page: what the venue algorithm showed at submission, and how the status has moved since
+
+-- Score breakdown of the chosen venue as the organiser saw it; NULL for split events
+ALTER TABLE public.events ADD COLUMN venue_match JSONB;
+
+CREATE TABLE public.event_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX event_status_history_event_id_idx ON public.event_status_history (event_id, changed_at);
+
+ALTER TABLE public.event_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view event status history" ON public.event_status_history FOR SELECT USING (true);
+-- Rows are only written by record_event_status
+
+CREATE OR REPLACE FUNCTION public.record_event_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.event_status_history (event_id, status, changed_by, note)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      auth.uid(),
+      CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_event_status
+  AFTER INSERT OR UPDATE OF status ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.record_event_status();
+
+-- Existing events start their history with submission and, where it has moved on, their current status
+INSERT INTO public.event_status_history (event_id, status, changed_by, changed_at)
+SELECT id, 'pending', user_id, created_at FROM public.events;
+
+INSERT INTO public.event_status_history (event_id, status, note, changed_at)
+SELECT id, status, cancellation_reason, COALESCE(cancelled_at, updated_at)
+FROM public.events
+WHERE status <> 'pending';
@@ -0,0 +1,217 @@
+-- Reviewers explain rejections and can send events back for changes; organisers answer and resubmit
+
+ALTER TABLE public.events DROP CONSTRAINT events_status_check;
+ALTER TABLE public.events ADD CONSTRAINT events_status_check
+  CHECK (status IN ('pending', 'changes_requested', 'approved', 'rejected', 'cancelled'));
+
+-- Conversation between the organiser and reviewers about one event. Review decisions and
+-- resubmissions are posted by review_event / resubmit_event with the matching kind.
+CREATE TABLE public.event_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  kind TEXT NOT NULL DEFAULT 'comment'
+    CHECK (kind IN ('comment', 'changes_requested', 'rejected', 'resubmitted')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX event_comments_event_id_idx ON public.event_comments (event_id, created_at);
+
+ALTER TABLE public.event_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organisers and approvers can view event comments" ON public.event_comments FOR SELECT
+  USING (
+    public.is_admin()
+    OR public.has_role(auth.uid(), 'faculty_approver')
+    OR EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Organisers and approvers can comment on events" ON public.event_comments FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND kind = 'comment'
+    AND (
+      public.is_admin()
+      OR public.has_role(auth.uid(), 'faculty_approver')
+      OR EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id AND e.user_id = auth.uid())
+    )
+  );
+
+-- Organisers keep editing while changes are requested
+DROP POLICY "Users can update their own pending events" ON public.events;
+CREATE POLICY "Users can update their own pending events" ON public.events FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('pending', 'changes_requested'))
+  WITH CHECK (auth.uid() = user_id AND status IN ('pending', 'changes_requested'));
+
+DROP POLICY "Organisers can manage facilities of their pending events" ON public.event_facilities;
+CREATE POLICY "Organisers can manage facilities of their pending events" ON public.event_facilities FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('pending', 'changes_requested')
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('pending', 'changes_requested')
+  ));
+
+DROP POLICY "Organisers can manage venues of their pending events" ON public.event_venues;
+CREATE POLICY "Organisers can manage venues of their pending events" ON public.event_venues FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('pending', 'changes_requested')
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('pending', 'changes_requested')
+  ));
+
+DROP POLICY "Organisers can manage occurrences of their pending events" ON public.event_occurrences;
+CREATE POLICY "Organisers can manage occurrences of their pending events" ON public.event_occurrences FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('pending', 'changes_requested')
+  ))
+  WITH CHECK (
+    status = 'pending' AND EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('pending', 'changes_requested')
+    )
+  );
+
+-- Reject a pending event or send it back for changes; either way the organiser is told why
+CREATE OR REPLACE FUNCTION public.review_event(_event_id UUID, _decision TEXT, _comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can review events' USING ERRCODE = '42501';
+  END IF;
+
+  IF _decision NOT IN ('rejected', 'changes_requested') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', _decision USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment for the organiser is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending events can be reviewed; this one is %', _event.status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.events SET status = _decision WHERE id = _event.id;
+
+  UPDATE public.event_status_history
+  SET note = trim(_comment)
+  WHERE id = (
+    SELECT id FROM public.event_status_history
+    WHERE event_id = _event.id
+    ORDER BY changed_at DESC
+    LIMIT 1
+  );
+
+  INSERT INTO public.event_comments (event_id, author_id, body, kind)
+  VALUES (_event.id, auth.uid(), trim(_comment), _decision);
+
+  -- The event no longer needs anyone bumped for it
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed' AND requesting_event_id = _event.id;
+END;
+$$;
+
+-- Send an event with requested changes back to the reviewers
+CREATE OR REPLACE FUNCTION public.resubmit_event(_event_id UUID, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _event.user_id THEN
+    RAISE EXCEPTION 'Only the organiser can resubmit this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status <> 'changes_requested' THEN
+    RAISE EXCEPTION 'Only events with requested changes can be resubmitted' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.events SET status = 'pending' WHERE id = _event.id;
+
+  INSERT INTO public.event_comments (event_id, author_id, body, kind)
+  VALUES (
+    _event.id,
+    auth.uid(),
+    COALESCE(NULLIF(trim(_comment), ''), 'Resubmitted for approval'),
+    'resubmitted'
+  );
+END;
+$$;
+
+-- Events waiting on their organiser can be called off too
+CREATE OR REPLACE FUNCTION public.cancel_event(_event_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _event.user_id
+    AND NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only the organiser or an approver can cancel this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status NOT IN ('pending', 'changes_requested', 'approved') THEN
+    RAISE EXCEPTION 'Event is already %', _event.status USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A cancellation reason is required' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.venue_bookings WHERE event_id = _event.id;
+
+  UPDATE public.event_occurrences
+  SET status = 'cancelled'
+  WHERE event_id = _event.id AND status <> 'cancelled';
+
+  UPDATE public.events
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason),
+      cancelled_at = now(),
+      cancelled_by = auth.uid()
+  WHERE id = _event.id;
+
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed'
+    AND (requesting_event_id = _event.id OR displaced_event_id = _event.id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_event(UUID, TEXT, TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.resubmit_event(UUID, TEXT) FROM anon;
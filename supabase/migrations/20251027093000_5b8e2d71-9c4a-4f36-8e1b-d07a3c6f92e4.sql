@@ -0,0 +1,413 @@
+-- Multi-stage approval: events are routed through a chain of sign-offs (e.g. department head,
+-- then student affairs) picked by event type, headcount or venue. Events no chain matches keep
+-- the single approval by any approver.
+
+CREATE TABLE public.approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Active chains are tried in this order and the first one that matches is used
+  position INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  -- Conditions; NULL matches any event
+  event_type TEXT CHECK (event_type IN ('technical', 'non-technical')),
+  min_participants INTEGER CHECK (min_participants > 0),
+  venue_id UUID REFERENCES public.venues(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_approval_chains_updated_at
+  BEFORE UPDATE ON public.approval_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.approval_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chain_id UUID NOT NULL REFERENCES public.approval_chains(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Deferred so stages can be reordered in one statement
+  UNIQUE (chain_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE public.approval_stage_approvers (
+  stage_id UUID NOT NULL REFERENCES public.approval_stages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  PRIMARY KEY (stage_id, user_id)
+);
+
+CREATE INDEX approval_stage_approvers_user_id_idx ON public.approval_stage_approvers (user_id);
+
+-- Only pending events wait on a stage, and a stage cannot be deleted while one does
+ALTER TABLE public.events
+  ADD COLUMN approval_chain_id UUID REFERENCES public.approval_chains(id) ON DELETE SET NULL,
+  ADD COLUMN approval_stage_id UUID REFERENCES public.approval_stages(id);
+
+-- Sign-offs given so far; stage names are copied so the record survives chain edits
+CREATE TABLE public.event_approvals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  stage_id UUID REFERENCES public.approval_stages(id) ON DELETE SET NULL,
+  stage_name TEXT NOT NULL,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX event_approvals_event_id_idx ON public.event_approvals (event_id, created_at);
+
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_stage_approvers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Organisers can see which stage their event is waiting on
+CREATE POLICY "Anyone can view approval chains" ON public.approval_chains FOR SELECT USING (true);
+CREATE POLICY "Admins can manage approval chains" ON public.approval_chains FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Anyone can view approval stages" ON public.approval_stages FOR SELECT USING (true);
+CREATE POLICY "Admins can manage approval stages" ON public.approval_stages FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Anyone can view stage approvers" ON public.approval_stage_approvers FOR SELECT USING (true);
+CREATE POLICY "Admins can manage stage approvers" ON public.approval_stage_approvers FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Rows are only written by sign_off_event and approve_event
+CREATE POLICY "Organisers and approvers can view sign-offs" ON public.event_approvals FOR SELECT
+  USING (
+    public.is_admin()
+    OR public.has_role(auth.uid(), 'faculty_approver')
+    OR EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id AND e.user_id = auth.uid())
+  );
+
+-- First active chain whose conditions the event meets; chains without stages are skipped
+CREATE OR REPLACE FUNCTION public.match_approval_chain(_event public.events)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.approval_chains c
+  WHERE c.active
+    AND (c.event_type IS NULL OR c.event_type = _event.type)
+    AND (c.min_participants IS NULL OR COALESCE(_event.student_count, 0) >= c.min_participants)
+    AND (c.venue_id IS NULL OR c.venue_id = _event.venue_id)
+    AND EXISTS (SELECT 1 FROM public.approval_stages s WHERE s.chain_id = c.id)
+  ORDER BY c.position, c.created_at
+  LIMIT 1
+$$;
+
+-- Whether the caller may act on the event now: the approvers of the stage it is waiting on,
+-- or any approver once it has no stage left. Admins can always step in.
+CREATE OR REPLACE FUNCTION public.can_review_event(_event public.events)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.is_admin() OR CASE
+    WHEN _event.approval_stage_id IS NULL THEN public.has_role(auth.uid(), 'faculty_approver')
+    ELSE EXISTS (
+      SELECT 1 FROM public.approval_stage_approvers
+      WHERE stage_id = _event.approval_stage_id AND user_id = auth.uid()
+    )
+  END
+$$;
+
+-- Route events entering review to the first stage of their chain. Every resubmission or reopening
+-- starts the chain again; edits while pending only restart it when they change which chain applies.
+-- Stage columns are not writable directly, functions running as their owner move them along.
+CREATE OR REPLACE FUNCTION public.assign_approval_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _chain_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND current_user IN ('authenticated', 'anon') THEN
+    NEW.approval_chain_id := OLD.approval_chain_id;
+    NEW.approval_stage_id := OLD.approval_stage_id;
+  END IF;
+
+  IF NEW.status <> 'pending' THEN
+    NEW.approval_stage_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending'
+    AND NEW.type IS NOT DISTINCT FROM OLD.type
+    AND NEW.student_count IS NOT DISTINCT FROM OLD.student_count
+    AND NEW.venue_id IS NOT DISTINCT FROM OLD.venue_id THEN
+    RETURN NEW;
+  END IF;
+
+  _chain_id := public.match_approval_chain(NEW);
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending' AND _chain_id IS NOT DISTINCT FROM OLD.approval_chain_id THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.approval_chain_id := _chain_id;
+  NEW.approval_stage_id := (
+    SELECT id FROM public.approval_stages
+    WHERE chain_id = _chain_id
+    ORDER BY position
+    LIMIT 1
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_approval_chain
+  BEFORE INSERT OR UPDATE ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.assign_approval_chain();
+
+-- Sign off the stage an event is waiting on and pass it to the next one. The last stage books
+-- the venue, so it is completed through approve_event instead.
+CREATE OR REPLACE FUNCTION public.sign_off_event(_event_id UUID, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _stage public.approval_stages;
+  _next_stage_id UUID;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_review_event(_event) THEN
+    RAISE EXCEPTION 'This event is waiting on another approver' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status <> 'pending' OR _event.approval_stage_id IS NULL THEN
+    RAISE EXCEPTION 'This event has no approval stage to sign off' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _stage FROM public.approval_stages WHERE id = _event.approval_stage_id;
+
+  SELECT id INTO _next_stage_id
+  FROM public.approval_stages
+  WHERE chain_id = _stage.chain_id AND position > _stage.position
+  ORDER BY position
+  LIMIT 1;
+
+  IF _next_stage_id IS NULL THEN
+    RAISE EXCEPTION '% is the final stage; approve the event to book its venue', _stage.name
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.event_approvals (event_id, stage_id, stage_name, approved_by, comment)
+  VALUES (_event.id, _stage.id, _stage.name, auth.uid(), NULLIF(trim(_comment), ''));
+
+  UPDATE public.events SET approval_stage_id = _next_stage_id WHERE id = _event.id;
+END;
+$$;
+
+-- Approval now needs the approvers of the event's current stage, and that stage must be the last
+CREATE OR REPLACE FUNCTION public.approve_event(
+  _event_id UUID,
+  _venue_id UUID DEFAULT NULL,
+  _occurrence_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _stage public.approval_stages;
+  _occurrences public.event_occurrences[];
+  _occurrence public.event_occurrences;
+  _venue_ids UUID[];
+  _venue UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _booking_id UUID;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_review_event(_event) THEN
+    RAISE EXCEPTION 'Only the approvers of this event''s current stage can approve it' USING ERRCODE = '42501';
+  END IF;
+
+  -- Further occurrences of an approved series may still be approved, in the venue it already holds
+  IF _event.status NOT IN ('pending', 'approved')
+    OR (_event.status = 'approved' AND _venue_id IS DISTINCT FROM NULL AND _venue_id <> _event.venue_id) THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  IF _event.approval_stage_id IS NOT NULL THEN
+    SELECT * INTO _stage FROM public.approval_stages WHERE id = _event.approval_stage_id;
+    IF EXISTS (
+      SELECT 1 FROM public.approval_stages
+      WHERE chain_id = _stage.chain_id AND position > _stage.position
+    ) THEN
+      RETURN jsonb_build_object(
+        'approved', false,
+        'reason', 'Waiting on ' || _stage.name || ' to sign off before final approval',
+        'conflicts', '[]'::jsonb
+      );
+    END IF;
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+
+  -- Events created before their occurrences were written still have their first one
+  IF NOT EXISTS (SELECT 1 FROM public.event_occurrences WHERE event_id = _event.id) THEN
+    INSERT INTO public.event_occurrences (event_id, starts_at, ends_at)
+    VALUES (_event.id, lower(public.event_time_range(_event)), upper(public.event_time_range(_event)));
+  END IF;
+
+  SELECT array_agg(o ORDER BY o.starts_at) INTO _occurrences
+  FROM public.event_occurrences o
+  WHERE o.event_id = _event.id
+    AND o.status = 'pending'
+    AND (_occurrence_ids IS NULL OR o.id = ANY (_occurrence_ids));
+
+  IF _occurrences IS NULL THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'No pending occurrences to approve',
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  SELECT array_agg(DISTINCT v ORDER BY v) INTO _venue_ids
+  FROM unnest(array_append(
+    ARRAY(SELECT ev.venue_id FROM public.event_venues ev WHERE ev.event_id = _event.id),
+    _event.venue_id
+  )) AS v;
+
+  -- Serialise approvals per venue, always locking in the same order to avoid deadlocks
+  PERFORM 1 FROM public.venues WHERE id = ANY (_venue_ids) ORDER BY id FOR UPDATE;
+  IF (SELECT count(*) FROM public.venues WHERE id = ANY (_venue_ids)) <> array_length(_venue_ids, 1) THEN
+    RAISE EXCEPTION 'Venue not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOREACH _occurrence IN ARRAY _occurrences LOOP
+    FOREACH _venue IN ARRAY _venue_ids LOOP
+      _conflicts := _conflicts || public.slot_conflicts(
+        _venue,
+        tstzrange(_occurrence.starts_at, _occurrence.ends_at, '[)'),
+        ARRAY[_event.id]
+      );
+    END LOOP;
+  END LOOP;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', CASE
+        WHEN array_length(_occurrences, 1) > 1 THEN 'Some occurrences clash with existing bookings'
+        WHEN array_length(_venue_ids, 1) > 1 THEN 'One of the venues is already booked for this slot'
+        ELSE 'Venue is already booked for this slot' END,
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  FOREACH _occurrence IN ARRAY _occurrences LOOP
+    INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+    SELECT v, _event.id, _occurrence.id, _occurrence.starts_at, _occurrence.ends_at, 'event', auth.uid()
+    FROM unnest(_venue_ids) AS v;
+  END LOOP;
+
+  SELECT id INTO _booking_id
+  FROM public.venue_bookings
+  WHERE occurrence_id = _occurrences[1].id AND venue_id = _event.venue_id;
+
+  UPDATE public.event_occurrences
+  SET status = 'approved'
+  WHERE id IN (SELECT (o).id FROM unnest(_occurrences) AS o);
+
+  IF _stage.id IS NOT NULL THEN
+    INSERT INTO public.event_approvals (event_id, stage_id, stage_name, approved_by)
+    VALUES (_event.id, _stage.id, _stage.name, auth.uid());
+  END IF;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id
+  WHERE id = _event.id;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'venue_ids', to_jsonb(_venue_ids),
+    'occurrences', array_length(_occurrences, 1),
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
+
+-- Rejecting or requesting changes is also up to the approvers of the current stage
+CREATE OR REPLACE FUNCTION public.review_event(_event_id UUID, _decision TEXT, _comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  IF _decision NOT IN ('rejected', 'changes_requested') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', _decision USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(trim(_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment for the organiser is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_review_event(_event) THEN
+    RAISE EXCEPTION 'Only the approvers of this event''s current stage can review it' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending events can be reviewed; this one is %', _event.status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.events SET status = _decision WHERE id = _event.id;
+
+  UPDATE public.event_status_history
+  SET note = trim(_comment)
+  WHERE id = (
+    SELECT id FROM public.event_status_history
+    WHERE event_id = _event.id
+    ORDER BY changed_at DESC
+    LIMIT 1
+  );
+
+  INSERT INTO public.event_comments (event_id, author_id, body, kind)
+  VALUES (_event.id, auth.uid(), trim(_comment), _decision);
+
+  -- The event no longer needs anyone bumped for it
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed' AND requesting_event_id = _event.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sign_off_event(UUID, TEXT) FROM anon;
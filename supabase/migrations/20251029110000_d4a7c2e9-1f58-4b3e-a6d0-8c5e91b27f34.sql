@@ -0,0 +1,97 @@
+-- Append-only audit trail of every change to events, venues, profiles and roles, so disputes
+-- over who approved or moved what can be settled from the database rather than from memory
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_values JSONB,
+  new_values JSONB,
+  -- Columns an update touched, updated_at aside
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- No foreign key: entries must outlive the users they mention
+  actor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_log_record_idx ON public.audit_log (table_name, record_id, created_at DESC);
+CREATE INDEX audit_log_actor_idx ON public.audit_log (actor_id, created_at DESC);
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by record_audit; there are no insert, update or delete policies
+CREATE POLICY "Admins can view the audit log" ON public.audit_log FOR SELECT USING (public.is_admin());
+
+-- RLS does not bind the table owner or the service role, so refuse changes outright
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON public.audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _changed TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}') INTO _changed
+    FROM jsonb_each(_new) AS n
+    WHERE n.key <> 'updated_at' AND n.value IS DISTINCT FROM _old -> n.key;
+
+    -- Saves that changed nothing only bump updated_at
+    IF array_length(_changed, 1) IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, old_values, new_values, changed_fields, actor_id)
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(_new, _old) ->> 'id')::uuid,
+    TG_OP,
+    _old,
+    _new,
+    _changed,
+    auth.uid()
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_events
+  AFTER INSERT OR UPDATE OR DELETE ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER audit_venues
+  AFTER INSERT OR UPDATE OR DELETE ON public.venues
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+-- Roles moved out of profiles into user_roles, so they are audited there
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.record_audit();
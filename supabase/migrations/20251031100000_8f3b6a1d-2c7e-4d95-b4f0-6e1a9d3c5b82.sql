@@ -0,0 +1,117 @@
+-- Drag-to-reschedule from the venue timeline: approvers move a single occurrence, with its
+-- bookings, to a new start time and, for one-off single-venue events, a new venue
+
+CREATE OR REPLACE FUNCTION public.reschedule_occurrence(
+  _occurrence_id UUID,
+  _starts_at TIMESTAMP WITH TIME ZONE,
+  _venue_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _occurrence public.event_occurrences;
+  _event public.events;
+  _ends_at TIMESTAMP WITH TIME ZONE;
+  _venue_ids UUID[];
+  _venue UUID;
+  _conflicts JSONB := '[]'::jsonb;
+  _live_occurrences INTEGER;
+BEGIN
+  IF NOT (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver')) THEN
+    RAISE EXCEPTION 'Only approvers can reschedule events' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _occurrence FROM public.event_occurrences WHERE id = _occurrence_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Occurrence % not found', _occurrence_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _occurrence.event_id FOR UPDATE;
+
+  IF _event.status NOT IN ('pending', 'changes_requested', 'approved') OR _occurrence.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled or rejected events cannot be rescheduled' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT count(*) INTO _live_occurrences
+  FROM public.event_occurrences
+  WHERE event_id = _event.id AND status <> 'cancelled';
+
+  -- The venue belongs to the whole event, so only one-off single-venue events can move venue here
+  IF _venue_id IS NOT NULL AND _venue_id <> _event.venue_id THEN
+    IF _live_occurrences > 1 OR EXISTS (SELECT 1 FROM public.event_venues WHERE event_id = _event.id) THEN
+      RAISE EXCEPTION 'Series and split events can only change venue from their edit page' USING ERRCODE = '22023';
+    END IF;
+    _event.venue_id := _venue_id;
+  END IF;
+
+  _ends_at := _starts_at + (_occurrence.ends_at - _occurrence.starts_at);
+
+  SELECT array_agg(DISTINCT v ORDER BY v) INTO _venue_ids
+  FROM unnest(array_append(
+    ARRAY(SELECT ev.venue_id FROM public.event_venues ev WHERE ev.event_id = _event.id),
+    _event.venue_id
+  )) AS v;
+
+  -- Booked occurrences must land on a free slot; pending ones are checked when approved
+  IF _occurrence.status = 'approved' THEN
+    PERFORM 1 FROM public.venues WHERE id = ANY (_venue_ids) ORDER BY id FOR UPDATE;
+
+    FOREACH _venue IN ARRAY _venue_ids LOOP
+      _conflicts := _conflicts || public.slot_conflicts(
+        _venue,
+        tstzrange(_starts_at, _ends_at, '[)'),
+        ARRAY[_event.id]
+      );
+    END LOOP;
+
+    IF jsonb_array_length(_conflicts) > 0 THEN
+      RETURN jsonb_build_object(
+        'rescheduled', false,
+        'reason', 'The new slot clashes with existing bookings',
+        'conflicts', _conflicts
+      );
+    END IF;
+
+    UPDATE public.venue_bookings
+    SET starts_at = _starts_at,
+        ends_at = _ends_at,
+        venue_id = CASE WHEN venue_id = ANY (_venue_ids) THEN venue_id ELSE _event.venue_id END
+    WHERE occurrence_id = _occurrence.id;
+  END IF;
+
+  UPDATE public.event_occurrences
+  SET starts_at = _starts_at, ends_at = _ends_at
+  WHERE id = _occurrence.id;
+
+  -- A one-off event is its occurrence; series keep their anchor date and rule
+  IF _live_occurrences = 1 THEN
+    UPDATE public.events
+    SET event_date = (_starts_at AT TIME ZONE 'Asia/Kolkata')::date,
+        time_slot = (_starts_at AT TIME ZONE 'Asia/Kolkata')::time,
+        venue_id = _event.venue_id
+    WHERE id = _event.id;
+  END IF;
+
+  -- Let the organiser know in the event's thread
+  INSERT INTO public.event_comments (event_id, author_id, body)
+  SELECT
+    _event.id,
+    auth.uid(),
+    'Rescheduled to ' || to_char(_starts_at AT TIME ZONE 'Asia/Kolkata', 'FMDD Mon YYYY, HH24:MI') || ' in ' || v.name
+  FROM public.venues v
+  WHERE v.id = _event.venue_id;
+
+  RETURN jsonb_build_object(
+    'rescheduled', true,
+    'venue_id', _event.venue_id,
+    'starts_at', _starts_at,
+    'ends_at', _ends_at,
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reschedule_occurrence(UUID, TIMESTAMP WITH TIME ZONE, UUID) FROM anon;
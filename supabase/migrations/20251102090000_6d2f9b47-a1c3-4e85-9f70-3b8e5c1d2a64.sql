@@ -0,0 +1,83 @@
+-- Organisers can save an event as a draft, keep it to themselves while they work on it,
+-- and submit it for approval when it is ready
+
+ALTER TABLE public.events DROP CONSTRAINT events_status_check;
+ALTER TABLE public.events ADD CONSTRAINT events_status_check
+  CHECK (status IN ('draft', 'pending', 'changes_requested', 'approved', 'rejected', 'cancelled'));
+
+-- Drafts are private to their organiser until submitted
+DROP POLICY "Users can view all events" ON public.events;
+CREATE POLICY "Users can view submitted events and their own drafts" ON public.events FOR SELECT
+  USING (status <> 'draft' OR auth.uid() = user_id);
+
+DROP POLICY "Users can update their own pending events" ON public.events;
+CREATE POLICY "Users can update their own pending events" ON public.events FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('draft', 'pending', 'changes_requested'))
+  WITH CHECK (auth.uid() = user_id AND status IN ('draft', 'pending', 'changes_requested'));
+
+CREATE POLICY "Users can delete their own drafts" ON public.events FOR DELETE
+  USING (auth.uid() = user_id AND status = 'draft');
+
+DROP POLICY "Organisers can manage facilities of their pending events" ON public.event_facilities;
+CREATE POLICY "Organisers can manage facilities of their pending events" ON public.event_facilities FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('draft', 'pending', 'changes_requested')
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('draft', 'pending', 'changes_requested')
+  ));
+
+DROP POLICY "Organisers can manage venues of their pending events" ON public.event_venues;
+CREATE POLICY "Organisers can manage venues of their pending events" ON public.event_venues FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('draft', 'pending', 'changes_requested')
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('draft', 'pending', 'changes_requested')
+  ));
+
+DROP POLICY "Organisers can manage occurrences of their pending events" ON public.event_occurrences;
+CREATE POLICY "Organisers can manage occurrences of their pending events" ON public.event_occurrences FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('draft', 'pending', 'changes_requested')
+  ))
+  WITH CHECK (
+    status = 'pending' AND EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id = event_id AND e.user_id = auth.uid() AND e.status IN ('draft', 'pending', 'changes_requested')
+    )
+  );
+
+-- Send a draft to the reviewers; entering pending starts its approval chain
+CREATE OR REPLACE FUNCTION public.submit_event(_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _event.user_id THEN
+    RAISE EXCEPTION 'Only the organiser can submit this event' USING ERRCODE = '42501';
+  END IF;
+
+  IF _event.status <> 'draft' THEN
+    RAISE EXCEPTION 'Event has already been submitted' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.events SET status = 'pending' WHERE id = _event.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_event(UUID) FROM anon;
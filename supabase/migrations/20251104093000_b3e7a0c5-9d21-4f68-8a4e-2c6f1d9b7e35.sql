@@ -0,0 +1,7 @@
+-- Stream changes to open dashboards, admin panels and the event wizard, so they follow approvals and
+-- bookings made by others without a reload. Subscribers only receive rows their SELECT policies allow.
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  public.events,
+  public.venue_bookings,
+  public.event_status_history,
+  public.event_approvals;
@@ -0,0 +1,41 @@
+-- Event status only moves through the functions that check who may move it and book or release
+-- venues to match. Direct writes may create drafts and pending events and edit them, but never
+-- change their status: approvers could otherwise mark an event approved without booking it.
+
+DROP POLICY "Users can create their own events" ON public.events;
+CREATE POLICY "Users can create their own events" ON public.events FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status IN ('draft', 'pending'));
+
+DROP POLICY "Approvers can update events" ON public.events;
+CREATE POLICY "Approvers can update events" ON public.events FOR UPDATE
+  USING (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'))
+  WITH CHECK (public.is_admin() OR public.has_role(auth.uid(), 'faculty_approver'));
+
+-- Policies cannot compare a row with its previous version, so the status is held in place here.
+-- Functions running as their owner are trusted.
+CREATE OR REPLACE FUNCTION public.guard_event_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status NOT IN ('draft', 'pending') THEN
+    RAISE EXCEPTION 'New events start as drafts or pending approval' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Event status changes through approving, reviewing, submitting or cancelling the event'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_event_status
+  BEFORE INSERT OR UPDATE OF status ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.guard_event_status();
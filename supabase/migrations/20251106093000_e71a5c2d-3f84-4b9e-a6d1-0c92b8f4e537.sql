@@ -0,0 +1,32 @@
+-- Organisers answer a request for changes by resubmitting, which posts their reply for the reviewers;
+-- only reviewers send an event back. Point organisers editing the status directly at the right way.
+CREATE OR REPLACE FUNCTION public.guard_event_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status NOT IN ('draft', 'pending') THEN
+    RAISE EXCEPTION 'New events start as drafts or pending approval' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'changes_requested' AND NEW.status = 'pending' THEN
+    RAISE EXCEPTION 'Resubmit the event to send it back to the reviewers' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status = 'changes_requested' THEN
+    RAISE EXCEPTION 'Only the reviewers of an event can request changes' USING ERRCODE = '42501';
+  END IF;
+
+  RAISE EXCEPTION 'Event status changes through approving, reviewing, submitting or cancelling the event'
+    USING ERRCODE = '42501';
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Drafts reach the reviewers through submit_event, and a submitted event cannot be taken back into a
+-- draft, where reviewers would lose sight of it
+CREATE OR REPLACE FUNCTION public.guard_event_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status NOT IN ('draft', 'pending') THEN
+    RAISE EXCEPTION 'New events start as drafts or pending approval' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'draft' AND NEW.status = 'pending' THEN
+    RAISE EXCEPTION 'Submit the draft to send it for approval' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Submitted events cannot go back to being drafts' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.status = 'changes_requested' AND NEW.status = 'pending' THEN
+    RAISE EXCEPTION 'Resubmit the event to send it back to the reviewers' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status = 'changes_requested' THEN
+    RAISE EXCEPTION 'Only the reviewers of an event can request changes' USING ERRCODE = '42501';
+  END IF;
+
+  RAISE EXCEPTION 'Event status changes through approving, reviewing, submitting or cancelling the event'
+    USING ERRCODE = '42501';
+END;
+$$;
@@ -0,0 +1,50 @@
+-- An event with an approval chain is only approved from the last stage of that chain, once every
+-- earlier stage has signed off since it was last submitted. Checked for every writer, functions
+-- included, so no path to 'approved' can skip a stage.
+CREATE OR REPLACE FUNCTION public.guard_event_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _stage public.approval_stages;
+  _submitted_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' OR OLD.approval_chain_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- assign_approval_chain has already cleared the stage on NEW
+  SELECT * INTO _stage FROM public.approval_stages WHERE id = OLD.approval_stage_id;
+  IF NOT FOUND OR EXISTS (
+    SELECT 1 FROM public.approval_stages
+    WHERE chain_id = _stage.chain_id AND position > _stage.position
+  ) THEN
+    RAISE EXCEPTION 'Every approval stage must sign off before the event is approved' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT max(changed_at) INTO _submitted_at
+  FROM public.event_status_history
+  WHERE event_id = OLD.id AND status = 'pending';
+
+  IF EXISTS (
+    SELECT 1 FROM public.approval_stages s
+    WHERE s.chain_id = _stage.chain_id
+      AND s.position < _stage.position
+      AND NOT EXISTS (
+        SELECT 1 FROM public.event_approvals a
+        WHERE a.event_id = OLD.id
+          AND a.stage_id = s.id
+          AND a.created_at >= COALESCE(_submitted_at, '-infinity')
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every approval stage must sign off before the event is approved' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_event_approval
+  BEFORE UPDATE OF status ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.guard_event_approval();
@@ -0,0 +1,206 @@
+-- Approval reports overlapping occurrences of one series as a clash instead of failing on the
+-- bookings' no-overlap constraint, and turns a booking that races it into the same clash result
+CREATE OR REPLACE FUNCTION public.approve_event(
+  _event_id UUID,
+  _venue_id UUID DEFAULT NULL,
+  _occurrence_ids UUID[] DEFAULT NULL,
+  _start_time TIME DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _stage public.approval_stages;
+  _occurrences public.event_occurrences[];
+  _occurrence public.event_occurrences;
+  _venue_ids UUID[];
+  _venue UUID;
+  _shift INTERVAL := interval '0';
+  _conflicts JSONB := '[]'::jsonb;
+  _booking_id UUID;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.can_review_event(_event) THEN
+    RAISE EXCEPTION 'Only the approvers of this event''s current stage can approve it' USING ERRCODE = '42501';
+  END IF;
+
+  -- Further occurrences of an approved series may still be approved, in the venue it already holds
+  IF _event.status NOT IN ('pending', 'approved')
+    OR (_event.status = 'approved' AND _venue_id IS DISTINCT FROM NULL AND _venue_id <> _event.venue_id) THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Event is already ' || _event.status,
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  -- The start time belongs to the whole event, so it can only move while none of it is booked
+  IF _start_time IS NOT NULL THEN
+    IF _event.status <> 'pending' OR _occurrence_ids IS NOT NULL THEN
+      RAISE EXCEPTION 'Only a whole pending event can be approved at another start time' USING ERRCODE = '22023';
+    END IF;
+    _shift := _start_time - COALESCE(_event.time_slot, '09:00'::time);
+  END IF;
+
+  IF _event.approval_stage_id IS NOT NULL THEN
+    SELECT * INTO _stage FROM public.approval_stages WHERE id = _event.approval_stage_id;
+    IF EXISTS (
+      SELECT 1 FROM public.approval_stages
+      WHERE chain_id = _stage.chain_id AND position > _stage.position
+    ) THEN
+      RETURN jsonb_build_object(
+        'approved', false,
+        'reason', 'Waiting on ' || _stage.name || ' to sign off before final approval',
+        'conflicts', '[]'::jsonb
+      );
+    END IF;
+  END IF;
+
+  _event.venue_id := COALESCE(_venue_id, _event.venue_id);
+
+  -- Events created before their occurrences were written still have their first one
+  IF NOT EXISTS (SELECT 1 FROM public.event_occurrences WHERE event_id = _event.id) THEN
+    INSERT INTO public.event_occurrences (event_id, starts_at, ends_at)
+    VALUES (_event.id, lower(public.event_time_range(_event)), upper(public.event_time_range(_event)));
+  END IF;
+
+  SELECT array_agg(o ORDER BY o.starts_at) INTO _occurrences
+  FROM public.event_occurrences o
+  WHERE o.event_id = _event.id
+    AND o.status = 'pending'
+    AND (_occurrence_ids IS NULL OR o.id = ANY (_occurrence_ids));
+
+  IF _occurrences IS NULL THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'No pending occurrences to approve',
+      'conflicts', '[]'::jsonb
+    );
+  END IF;
+
+  -- Occurrences of one series that overlap, such as a three-day event repeating daily, would book
+  -- their venue twice at once. Every live occurrence moves with a start time shift, so the shift
+  -- cannot change which of them overlap.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'event_id', _event.id,
+    'title', _event.title,
+    'kind', 'occurrence',
+    'starts_at', o.starts_at + _shift,
+    'ends_at', o.ends_at + _shift
+  ) ORDER BY o.starts_at), '[]'::jsonb) INTO _conflicts
+  FROM public.event_occurrences o
+  WHERE o.event_id = _event.id
+    AND o.status <> 'cancelled'
+    AND EXISTS (
+      SELECT 1 FROM unnest(_occurrences) AS n
+      WHERE n.id <> o.id
+        AND tstzrange(n.starts_at, n.ends_at, '[)') && tstzrange(o.starts_at, o.ends_at, '[)')
+    );
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'Occurrences of this event overlap each other',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  SELECT array_agg(DISTINCT v ORDER BY v) INTO _venue_ids
+  FROM unnest(array_append(
+    ARRAY(SELECT ev.venue_id FROM public.event_venues ev WHERE ev.event_id = _event.id),
+    _event.venue_id
+  )) AS v;
+
+  -- Serialise approvals per venue, always locking in the same order to avoid deadlocks
+  PERFORM 1 FROM public.venues WHERE id = ANY (_venue_ids) ORDER BY id FOR UPDATE;
+  IF (SELECT count(*) FROM public.venues WHERE id = ANY (_venue_ids)) <> array_length(_venue_ids, 1) THEN
+    RAISE EXCEPTION 'Venue not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOREACH _occurrence IN ARRAY _occurrences LOOP
+    FOREACH _venue IN ARRAY _venue_ids LOOP
+      _conflicts := _conflicts || public.slot_conflicts(
+        _venue,
+        tstzrange(_occurrence.starts_at + _shift, _occurrence.ends_at + _shift, '[)'),
+        ARRAY[_event.id]
+      );
+    END LOOP;
+  END LOOP;
+
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', CASE
+        WHEN array_length(_occurrences, 1) > 1 THEN 'Some occurrences clash with existing bookings'
+        WHEN array_length(_venue_ids, 1) > 1 THEN 'One of the venues is already booked for this slot'
+        ELSE 'Venue is already booked for this slot' END,
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  -- Holds and maintenance bookings are written without locking the venue, so one can still take
+  -- the slot between the check above and these inserts
+  BEGIN
+    FOREACH _occurrence IN ARRAY _occurrences LOOP
+      INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+      SELECT v, _event.id, _occurrence.id, _occurrence.starts_at + _shift, _occurrence.ends_at + _shift, 'event', auth.uid()
+      FROM unnest(_venue_ids) AS v;
+    END LOOP;
+  EXCEPTION WHEN exclusion_violation THEN
+    FOREACH _occurrence IN ARRAY _occurrences LOOP
+      FOREACH _venue IN ARRAY _venue_ids LOOP
+        _conflicts := _conflicts || public.slot_conflicts(
+          _venue,
+          tstzrange(_occurrence.starts_at + _shift, _occurrence.ends_at + _shift, '[)'),
+          ARRAY[_event.id]
+        );
+      END LOOP;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+      'approved', false,
+      'reason', 'The venue was booked while this approval ran',
+      'conflicts', _conflicts
+    );
+  END;
+
+  SELECT id INTO _booking_id
+  FROM public.venue_bookings
+  WHERE occurrence_id = _occurrences[1].id AND venue_id = _event.venue_id;
+
+  UPDATE public.event_occurrences
+  SET status = 'approved', starts_at = starts_at + _shift, ends_at = ends_at + _shift
+  WHERE id IN (SELECT (o).id FROM unnest(_occurrences) AS o);
+
+  IF _stage.id IS NOT NULL THEN
+    INSERT INTO public.event_approvals (event_id, stage_id, stage_name, approved_by)
+    VALUES (_event.id, _stage.id, _stage.name, auth.uid());
+  END IF;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _event.venue_id, time_slot = COALESCE(_start_time, time_slot)
+  WHERE id = _event.id;
+
+  -- Let the organiser know in the event's thread
+  IF _shift <> interval '0' THEN
+    INSERT INTO public.event_comments (event_id, author_id, body)
+    VALUES (_event.id, auth.uid(), 'Approved with a new start time of ' || to_char(_start_time, 'HH24:MI'));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'approved', true,
+    'booking_id', _booking_id,
+    'venue_id', _event.venue_id,
+    'venue_ids', to_jsonb(_venue_ids),
+    'occurrences', array_length(_occurrences, 1),
+    'conflicts', '[]'::jsonb
+  );
+END;
+$$;
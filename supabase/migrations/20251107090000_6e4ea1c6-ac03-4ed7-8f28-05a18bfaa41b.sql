@@ -0,0 +1,100 @@
+-- Facility ids are catalogue slugs such as 'projector', not UUIDs: save them as the text they are, so
+-- saving an event that needs a facility no longer fails and rolls the whole save back.
+CREATE OR REPLACE FUNCTION public.save_event(
+  _details JSONB,
+  _occurrences JSONB,
+  _venue_ids UUID[],
+  _facilities JSONB,
+  _event_id UUID DEFAULT NULL,
+  _reschedule BOOLEAN DEFAULT true,
+  _submit BOOLEAN DEFAULT true
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+BEGIN
+  IF _event_id IS NULL THEN
+    INSERT INTO public.events (
+      user_id, status, title, type, topic, student_count, event_date, time_slot, duration_hours,
+      span_days, recurrence_rule, priority, venue_id, computing_requirement, is_group_event,
+      number_of_teams, evaluation_setup, event_category, space_type, stage_requirement,
+      sound_requirement, stalls_needed, audience_participation, selection_policy_id, venue_match
+    )
+    SELECT
+      auth.uid(), CASE WHEN _submit THEN 'pending' ELSE 'draft' END, r.title, r.type, r.topic,
+      r.student_count, r.event_date, r.time_slot, r.duration_hours, r.span_days, r.recurrence_rule,
+      r.priority, r.venue_id, r.computing_requirement, r.is_group_event, r.number_of_teams,
+      r.evaluation_setup, r.event_category, r.space_type, r.stage_requirement, r.sound_requirement,
+      r.stalls_needed, r.audience_participation, r.selection_policy_id, r.venue_match
+    FROM jsonb_populate_record(NULL::public.events, _details) AS r
+    RETURNING * INTO _event;
+    _reschedule := true;
+  ELSE
+    SELECT * INTO _event FROM public.events WHERE id = _event_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Event % not found', _event_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF auth.uid() IS DISTINCT FROM _event.user_id THEN
+      RAISE EXCEPTION 'Only the organiser can edit this event' USING ERRCODE = '42501';
+    END IF;
+
+    IF _event.status NOT IN ('draft', 'pending', 'changes_requested', 'approved') THEN
+      RAISE EXCEPTION 'This event has been %', _event.status USING ERRCODE = '22023';
+    END IF;
+
+    -- Changing the booking of an approved event sends it back for approval and frees its slots
+    IF _reschedule AND _event.status = 'approved' THEN
+      PERFORM public.reopen_event(_event.id);
+    END IF;
+
+    -- Details left out of _details keep their current values
+    UPDATE public.events AS e
+    SET (
+      title, type, topic, student_count, event_date, time_slot, duration_hours, span_days,
+      recurrence_rule, priority, venue_id, computing_requirement, is_group_event, number_of_teams,
+      evaluation_setup, event_category, space_type, stage_requirement, sound_requirement,
+      stalls_needed, audience_participation, selection_policy_id, venue_match
+    ) = (
+      SELECT
+        r.title, r.type, r.topic, r.student_count, r.event_date, r.time_slot, r.duration_hours,
+        r.span_days, r.recurrence_rule, r.priority, r.venue_id, r.computing_requirement,
+        r.is_group_event, r.number_of_teams, r.evaluation_setup, r.event_category, r.space_type,
+        r.stage_requirement, r.sound_requirement, r.stalls_needed, r.audience_participation,
+        r.selection_policy_id, r.venue_match
+      FROM jsonb_populate_record(e, _details) AS r
+    )
+    WHERE e.id = _event.id;
+  END IF;
+
+  -- One row per occurrence so each can be approved or cancelled on its own
+  IF _reschedule THEN
+    DELETE FROM public.event_occurrences WHERE event_id = _event.id;
+    DELETE FROM public.event_venues WHERE event_id = _event.id;
+    DELETE FROM public.event_facilities WHERE event_id = _event.id;
+
+    INSERT INTO public.event_occurrences (event_id, starts_at, ends_at)
+    SELECT _event.id, (o->>'starts_at')::timestamptz, (o->>'ends_at')::timestamptz
+    FROM jsonb_array_elements(_occurrences) AS o;
+
+    INSERT INTO public.event_venues (event_id, venue_id)
+    SELECT _event.id, v FROM unnest(_venue_ids) AS v;
+
+    INSERT INTO public.event_facilities (event_id, facility_id, quantity)
+    SELECT _event.id, f->>'facility_id', (f->>'quantity')::integer
+    FROM jsonb_array_elements(_facilities) AS f;
+  END IF;
+
+  -- Saving is how organisers answer a request for changes, and how drafts are submitted
+  IF _event_id IS NOT NULL AND _event.status = 'changes_requested' THEN
+    PERFORM public.resubmit_event(_event.id);
+  ELSIF _event_id IS NOT NULL AND _event.status = 'draft' AND _submit THEN
+    PERFORM public.submit_event(_event.id);
+  END IF;
+
+  RETURN _event.id;
+END;
+$$;
@@ -0,0 +1,222 @@
+-- A bump that is accepted approves the requesting event, so it has to respect the approval chain:
+-- only the approvers of the event's final stage can propose one, and accepting it records their
+-- sign-off for that stage before the event is approved.
+CREATE OR REPLACE FUNCTION public.propose_preemption(
+  _event_id UUID,
+  _displaced_event_id UUID,
+  _proposed_venue_id UUID,
+  _proposed_time_slot TIME,
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event public.events;
+  _displaced public.events;
+  _stage public.approval_stages;
+  _preemption_id UUID;
+BEGIN
+  SELECT * INTO _event FROM public.events WHERE id = _event_id;
+  SELECT * INTO _displaced FROM public.events WHERE id = _displaced_event_id;
+  IF _event.id IS NULL OR _displaced.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Accepting the bump approves the event, so only its final stage may offer one
+  IF NOT public.can_review_event(_event) THEN
+    RAISE EXCEPTION 'Only the approvers of this event''s current stage can propose preemptions' USING ERRCODE = '42501';
+  END IF;
+  IF _event.approval_stage_id IS NOT NULL THEN
+    SELECT * INTO _stage FROM public.approval_stages WHERE id = _event.approval_stage_id;
+    IF EXISTS (
+      SELECT 1 FROM public.approval_stages
+      WHERE chain_id = _stage.chain_id AND position > _stage.position
+    ) THEN
+      RAISE EXCEPTION 'Waiting on % to sign off before a preemption can be proposed', _stage.name USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF _event.status <> 'pending' THEN
+    RAISE EXCEPTION '"%" is no longer pending', _event.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.status <> 'approved' THEN
+    RAISE EXCEPTION '"%" is not an approved event', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF public.priority_rank(_event.priority) <= public.priority_rank(_displaced.priority) THEN
+    RAISE EXCEPTION '"%" does not outrank "%"', _event.title, _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF _displaced.venue_id <> _event.venue_id
+    OR NOT public.event_time_range(_displaced) && public.event_time_range(_event) THEN
+    RAISE EXCEPTION '"%" does not hold the requested slot', _displaced.title USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.event_venues WHERE event_id IN (_event.id, _displaced.id)) THEN
+    RAISE EXCEPTION 'Events held across several venues cannot be bumped' USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.event_occurrences
+    WHERE event_id IN (_event.id, _displaced.id) AND status <> 'cancelled'
+    GROUP BY event_id
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'Recurring events cannot be bumped' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.event_preemptions (
+    requesting_event_id, displaced_event_id, venue_id,
+    proposed_venue_id, proposed_time_slot, note, proposed_by
+  )
+  VALUES (
+    _event.id, _displaced.id, _event.venue_id,
+    _proposed_venue_id, _proposed_time_slot, _note, auth.uid()
+  )
+  RETURNING id INTO _preemption_id;
+
+  RETURN _preemption_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_preemption(
+  _preemption_id UUID,
+  _accept BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _preemption public.event_preemptions;
+  _event public.events;
+  _displaced public.events;
+  _moved_range TSTZRANGE;
+  _range TSTZRANGE;
+  _conflicts JSONB;
+  _occurrence_id UUID;
+  _stage public.approval_stages;
+BEGIN
+  SELECT * INTO _preemption FROM public.event_preemptions WHERE id = _preemption_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Preemption % not found', _preemption_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _displaced FROM public.events WHERE id = _preemption.displaced_event_id FOR UPDATE;
+  IF auth.uid() IS DISTINCT FROM _displaced.user_id AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only the organiser of "%" can respond', _displaced.title USING ERRCODE = '42501';
+  END IF;
+
+  IF _preemption.status <> 'proposed' THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'This request was already ' || _preemption.status);
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.event_preemptions
+    SET status = 'declined', response_note = _note, responded_at = now()
+    WHERE id = _preemption.id;
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Declined');
+  END IF;
+
+  SELECT * INTO _event FROM public.events WHERE id = _preemption.requesting_event_id FOR UPDATE;
+  IF _event.status <> 'pending' THEN
+    UPDATE public.event_preemptions
+    SET status = 'cancelled', responded_at = now()
+    WHERE id = _preemption.id;
+    RETURN jsonb_build_object('accepted', false, 'reason', '"' || _event.title || '" no longer needs the slot');
+  END IF;
+
+  -- The proposal stands in for the final stage's approval, which must still be the proposer's to give
+  IF _event.approval_stage_id IS NOT NULL THEN
+    SELECT * INTO _stage FROM public.approval_stages WHERE id = _event.approval_stage_id;
+    IF EXISTS (
+      SELECT 1 FROM public.approval_stages
+      WHERE chain_id = _stage.chain_id AND position > _stage.position
+    ) OR NOT (
+      public.is_admin(_preemption.proposed_by) OR EXISTS (
+        SELECT 1 FROM public.approval_stage_approvers
+        WHERE stage_id = _stage.id AND user_id = _preemption.proposed_by
+      )
+    ) THEN
+      UPDATE public.event_preemptions
+      SET status = 'cancelled', responded_at = now()
+      WHERE id = _preemption.id;
+      RETURN jsonb_build_object(
+        'accepted', false,
+        'reason', 'The approval chain of "' || _event.title || '" changed since this request was made'
+      );
+    END IF;
+  END IF;
+
+  PERFORM 1 FROM public.venues
+  WHERE id IN (_preemption.venue_id, _preemption.proposed_venue_id)
+  FOR UPDATE;
+
+  -- Move the displaced event to its proposed slot
+  _displaced.venue_id := _preemption.proposed_venue_id;
+  _displaced.time_slot := _preemption.proposed_time_slot;
+  _moved_range := public.event_time_range(_displaced);
+  _range := public.event_time_range(_event);
+
+  _conflicts := public.slot_conflicts(_displaced.venue_id, _moved_range, ARRAY[_displaced.id]);
+  IF jsonb_array_length(_conflicts) > 0
+    OR (_displaced.venue_id = _preemption.venue_id AND _moved_range && _range) THEN
+    RETURN jsonb_build_object(
+      'accepted', false,
+      'reason', 'The proposed slot is no longer free',
+      'conflicts', _conflicts
+    );
+  END IF;
+
+  DELETE FROM public.venue_bookings WHERE event_id = _displaced.id;
+
+  UPDATE public.events
+  SET venue_id = _displaced.venue_id, time_slot = _displaced.time_slot
+  WHERE id = _displaced.id;
+
+  UPDATE public.event_occurrences
+  SET starts_at = lower(_moved_range), ends_at = upper(_moved_range)
+  WHERE event_id = _displaced.id AND status = 'approved'
+  RETURNING id INTO _occurrence_id;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+  VALUES (_displaced.venue_id, _displaced.id, _occurrence_id, lower(_moved_range), upper(_moved_range), 'event', auth.uid());
+
+  -- Approve the requesting event in the freed slot; any remaining clash rolls everything back
+  _conflicts := public.slot_conflicts(_preemption.venue_id, _range, ARRAY[_event.id]);
+  IF jsonb_array_length(_conflicts) > 0 THEN
+    RAISE EXCEPTION 'The slot for "%" is still taken by another booking', _event.title USING ERRCODE = '23P01';
+  END IF;
+
+  INSERT INTO public.event_occurrences (event_id, starts_at, ends_at, status)
+  VALUES (_event.id, lower(_range), upper(_range), 'approved')
+  ON CONFLICT (event_id, starts_at) DO UPDATE SET status = 'approved'
+  RETURNING id INTO _occurrence_id;
+
+  INSERT INTO public.venue_bookings (venue_id, event_id, occurrence_id, starts_at, ends_at, kind, created_by)
+  VALUES (_preemption.venue_id, _event.id, _occurrence_id, lower(_range), upper(_range), 'event', _preemption.proposed_by);
+
+  IF _stage.id IS NOT NULL THEN
+    INSERT INTO public.event_approvals (event_id, stage_id, stage_name, approved_by)
+    VALUES (_event.id, _stage.id, _stage.name, _preemption.proposed_by);
+  END IF;
+
+  UPDATE public.events
+  SET status = 'approved', venue_id = _preemption.venue_id
+  WHERE id = _event.id;
+
+  UPDATE public.event_preemptions
+  SET status = 'accepted', response_note = _note, responded_at = now()
+  WHERE id = _preemption.id;
+
+  -- Other open requests on either event are now moot
+  UPDATE public.event_preemptions
+  SET status = 'cancelled', responded_at = now()
+  WHERE status = 'proposed'
+    AND id <> _preemption.id
+    AND (requesting_event_id = _event.id OR displaced_event_id = _displaced.id);
+
+  RETURN jsonb_build_object('accepted', true);
+END;
+$$;
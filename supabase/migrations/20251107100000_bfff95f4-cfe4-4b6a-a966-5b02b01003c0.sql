@@ -0,0 +1,75 @@
+-- Setup and teardown time kept free around every booking, by venue type. The same values as
+-- VENUE_TYPE_BUFFERS in the client, so approval refuses the slots the event wizard reports as taken.
+CREATE TABLE public.venue_type_buffers (
+  venue_type TEXT NOT NULL PRIMARY KEY,
+  setup_minutes INTEGER NOT NULL CHECK (setup_minutes >= 0),
+  teardown_minutes INTEGER NOT NULL CHECK (teardown_minutes >= 0)
+);
+
+ALTER TABLE public.venue_type_buffers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view venue type buffers" ON public.venue_type_buffers FOR SELECT USING (true);
+CREATE POLICY "Admins can manage venue type buffers" ON public.venue_type_buffers FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+INSERT INTO public.venue_type_buffers (venue_type, setup_minutes, teardown_minutes) VALUES
+  ('auditorium', 60, 45),
+  ('seminar_hall', 30, 30),
+  ('computer_lab', 30, 15),
+  ('library_hall', 30, 30),
+  ('outdoor_ground', 120, 90),
+  ('sports_court', 60, 60),
+  ('classroom', 15, 15),
+  ('cafeteria', 60, 60);
+
+-- Both sides of a clash are widened by the venue's buffers, as the client does; venue types
+-- without a row keep 15 minutes either side
+CREATE OR REPLACE FUNCTION public.slot_conflicts(
+  _venue_id UUID,
+  _range TSTZRANGE,
+  _ignore_event_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH buffer AS (
+    SELECT
+      make_interval(mins => COALESCE(t.setup_minutes, 15)) AS setup,
+      make_interval(mins => COALESCE(t.teardown_minutes, 15)) AS teardown
+    FROM public.venues v
+    LEFT JOIN public.venue_type_buffers t ON t.venue_type = v.type
+    WHERE v.id = _venue_id
+  ),
+  windows AS (
+    SELECT
+      tstzrange(lower(_range) - setup, upper(_range) + teardown, '[)') AS buffered,
+      -- Two buffered windows overlap when the raw ones come within both buffers of each other
+      tstzrange(lower(_range) - setup - teardown, upper(_range) + setup + teardown, '[)') AS reach
+    FROM buffer
+  )
+  SELECT COALESCE(jsonb_agg(c ORDER BY c.starts_at), '[]'::jsonb)
+  FROM (
+    SELECT b.event_id, COALESCE(e.title, initcap(b.kind)) AS title, b.kind, b.starts_at, b.ends_at
+    FROM windows w
+    JOIN public.venue_bookings b ON tstzrange(b.starts_at, b.ends_at, '[)') && w.reach
+    LEFT JOIN public.events e ON e.id = b.event_id
+    WHERE b.venue_id = _venue_id
+      AND (b.event_id IS NULL OR NOT b.event_id = ANY (_ignore_event_ids))
+    UNION ALL
+    -- Approved events that predate venue_bookings and were never booked
+    SELECT e.id, e.title, 'event', lower(public.event_time_range(e)), upper(public.event_time_range(e))
+    FROM windows w
+    JOIN public.events e ON public.event_time_range(e) && w.reach
+    WHERE e.venue_id = _venue_id
+      AND e.status = 'approved'
+      AND NOT e.id = ANY (_ignore_event_ids)
+      AND NOT EXISTS (SELECT 1 FROM public.venue_bookings b WHERE b.event_id = e.id)
+    UNION ALL
+    SELECT NULL, x.reason, 'blackout', x.starts_at, x.ends_at
+    FROM windows w
+    CROSS JOIN LATERAL public.venue_blackout_ranges(_venue_id, w.buffered) x
+  ) c
+$$;
@@ -0,0 +1,5 @@
+-- Admins review the slots and events the booking backfills could not book
+CREATE POLICY "Admins can view booking backfill issues" ON public.venue_booking_backfill_issues FOR SELECT
+  USING (public.is_admin());
+CREATE POLICY "Admins can resolve booking backfill issues" ON public.venue_booking_backfill_issues FOR DELETE
+  USING (public.is_admin());
@@ -0,0 +1,8 @@
+-- Status history follows the visibility of its event, so a draft's history stays with its organiser
+
+DROP POLICY "Anyone can view event status history" ON public.event_status_history;
+CREATE POLICY "Users can view the status history of events they can see" ON public.event_status_history FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id AND (e.status <> 'draft' OR e.user_id = auth.uid())
+  ));
@@ -0,0 +1,66 @@
+-- save_event writes an event and the facilities it needs in one go, creating and editing alike
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('5d1e0c2a-7b43-4f6e-9a18-2c3d4e5f6a7b', 'organiser@example.com', '{"name": "Organiser"}');
+
+INSERT INTO public.venues (id, name, capacity, type)
+VALUES ('8f2a6b1c-3d4e-4f50-9a6b-7c8d9e0f1a2b', 'Seminar Hall', 120, 'hall');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "5d1e0c2a-7b43-4f6e-9a18-2c3d4e5f6a7b", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$
+    SELECT public.save_event(
+      '{"title": "Robotics Workshop", "type": "technical", "student_count": 80, "event_date": "2030-01-15",
+        "time_slot": "10:00", "duration_hours": 2, "span_days": 1, "priority": "medium",
+        "venue_id": "8f2a6b1c-3d4e-4f50-9a6b-7c8d9e0f1a2b"}'::jsonb,
+      '[{"starts_at": "2030-01-15T10:00:00+05:30", "ends_at": "2030-01-15T12:00:00+05:30"}]'::jsonb,
+      '{}'::uuid[],
+      '[{"facility_id": "projector", "quantity": 2}]'::jsonb
+    )
+  $$,
+  'an event that needs a facility can be created'
+);
+
+SELECT results_eq(
+  $$
+    SELECT f.facility_id, f.quantity
+    FROM public.event_facilities f
+    JOIN public.events e ON e.id = f.event_id
+    WHERE e.title = 'Robotics Workshop'
+  $$,
+  $$ VALUES ('projector'::text, 2) $$,
+  'the facility is saved by its catalogue id'
+);
+
+SELECT lives_ok(
+  $$
+    SELECT public.save_event(
+      '{"title": "Robotics Workshop"}'::jsonb,
+      '[{"starts_at": "2030-01-15T10:00:00+05:30", "ends_at": "2030-01-15T12:00:00+05:30"}]'::jsonb,
+      '{}'::uuid[],
+      '[{"facility_id": "whiteboard", "quantity": 1}]'::jsonb,
+      (SELECT id FROM public.events WHERE title = 'Robotics Workshop')
+    )
+  $$,
+  'an edit can change the facilities an event needs'
+);
+
+SELECT results_eq(
+  $$
+    SELECT f.facility_id, f.quantity
+    FROM public.event_facilities f
+    JOIN public.events e ON e.id = f.event_id
+    WHERE e.title = 'Robotics Workshop'
+  $$,
+  $$ VALUES ('whiteboard'::text, 1) $$,
+  'the edit replaces the facilities the event needed before'
+);
+
+SELECT * FROM finish();
+ROLLBACK;